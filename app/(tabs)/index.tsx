@@ -31,21 +31,50 @@ import {
   X,
   ChevronDown,
 } from 'lucide-react-native';
-import { useRouter } from 'expo-router';
-import { useState, useEffect } from 'react';
+import { useRouter, useFocusEffect } from 'expo-router';
+import { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '@/hooks/useAuth';
+import { useSettings } from '@/hooks/useSettings';
+import { useActiveWorkoutStorage } from '@/hooks/useActiveWorkoutStorage';
+import { useWorkoutTemplates } from '@/hooks/useWorkoutTemplates';
+import { useTrainingPrograms } from '@/hooks/useTrainingPrograms';
+import { useMuscleRecovery } from '@/hooks/useMuscleRecovery';
+import {
+  useTrainingSchedule,
+  useTrainingDayReminders,
+} from '@/hooks/useTrainingSchedule';
 import { geminiWorkoutGenerator, GeneratedWorkout } from '@/lib/gemini';
 import BoltChat from '@/components/BoltChat';
 import ExerciseInstructions from '@/components/ExerciseInstructions';
 import ExerciseCard from '@/components/ExerciseCard';
+import ResumeWorkoutCard from '@/components/ResumeWorkoutCard';
+import SyncStatusIndicator from '@/components/SyncStatusIndicator';
+import WorkoutTemplateList from '@/components/WorkoutTemplateList';
+import TodayWorkoutCard from '@/components/TodayWorkoutCard';
+import MuscleReadinessCard from '@/components/MuscleReadinessCard';
+import BodyHeatmap from '@/components/BodyHeatmap';
+import FatiguePreview from '@/components/FatiguePreview';
+import { planGeneratedExercises } from '@/lib/fatigueSimulation';
 import { exerciseLibrary } from '@/data/exercises';
+import {
+  getGroupIndices,
+  getGroupType,
+  GROUP_TYPE_LABELS,
+} from '@/lib/supersets';
+import { formatWeight, toKg } from '@/lib/units';
+import { buildCustomWorkoutData, fromTemplateExercises } from '@/lib/templates';
+import {
+  ProgramSession,
+  applyProgramWeek,
+  getNextProgramSession,
+} from '@/lib/programs';
+import { WorkoutTemplateRecord } from '@/lib/supabase';
 
 interface MuscleGroup {
   id: string;
   name: string;
   emoji: string;
   icon: any;
-  percentage: number;
   color: string;
   description: string;
   imageUrl: any;
@@ -62,6 +91,31 @@ interface FilterOption {
 export default function WorkoutsScreen() {
   const router = useRouter();
   const { profile, loadOnboardingData, user } = useAuth();
+  const { settings } = useSettings();
+  const {
+    savedWorkout: unfinishedWorkout,
+    refresh: refreshUnfinishedWorkout,
+    discard: discardUnfinishedWorkout,
+  } = useActiveWorkoutStorage();
+  const { templates, loadTemplates, duplicateTemplate, deleteTemplate } =
+    useWorkoutTemplates();
+  const { activeProgram, loadPrograms } = useTrainingPrograms();
+  const {
+    schedule,
+    loaded: scheduleLoaded,
+    loadSchedule,
+  } = useTrainingSchedule();
+  useTrainingDayReminders(schedule, scheduleLoaded);
+  const {
+    readiness,
+    readinessByMuscle,
+    weeklyVolume,
+    getReadiness,
+    loadRecovery,
+  } = useMuscleRecovery();
+  const programSession = activeProgram
+    ? getNextProgramSession(activeProgram, templates)
+    : undefined;
   const [selectedMuscles, setSelectedMuscles] = useState<string[]>([]);
   const [generatedWorkout, setGeneratedWorkout] =
     useState<GeneratedWorkout | null>(null);
@@ -128,7 +182,6 @@ export default function WorkoutsScreen() {
       name: 'Chest',
       emoji: '🏋️‍♂️',
       icon: Heart,
-      percentage: 100,
       color: '#6B46C1',
       description: 'Pectorals',
       imageUrl: require('@/assets/images/muscle-groups/abs.png'), // Using abs for chest temporarily
@@ -138,7 +191,6 @@ export default function WorkoutsScreen() {
       name: 'Back',
       emoji: '🏋️‍♀️',
       icon: ShieldCheck,
-      percentage: 100,
       color: '#8B5CF6',
       description: 'Lats & Rhomboids',
       imageUrl: require('@/assets/images/muscle-groups/lower-back.png'), // Using lower-back for back
@@ -148,7 +200,6 @@ export default function WorkoutsScreen() {
       name: 'Biceps',
       emoji: '💪',
       icon: Lightning,
-      percentage: 80,
       color: '#A78BFA',
       description: 'Biceps Brachii',
       imageUrl: require('@/assets/images/muscle-groups/biceps.png'),
@@ -158,7 +209,6 @@ export default function WorkoutsScreen() {
       name: 'Triceps',
       emoji: '🔥',
       icon: Zap,
-      percentage: 85,
       color: '#7C3AED',
       description: 'Triceps Brachii',
       imageUrl: require('@/assets/images/muscle-groups/triceps.png'),
@@ -168,7 +218,6 @@ export default function WorkoutsScreen() {
       name: 'Shoulders',
       emoji: '🤸‍♀️',
       icon: Activity,
-      percentage: 60,
       color: '#7E22CE',
       description: 'Deltoids',
       imageUrl: require('@/assets/images/muscle-groups/traps.png'), // Using traps for shoulders temporarily
@@ -178,7 +227,6 @@ export default function WorkoutsScreen() {
       name: 'Traps',
       emoji: '⛰️',
       icon: Target,
-      percentage: 70,
       color: '#9333EA',
       description: 'Trapezius',
       imageUrl: require('@/assets/images/muscle-groups/traps.png'),
@@ -188,7 +236,6 @@ export default function WorkoutsScreen() {
       name: 'Forearms',
       emoji: '🤲',
       icon: Activity,
-      percentage: 65,
       color: '#C084FC',
       description: 'Forearm Muscles',
       imageUrl: require('@/assets/images/muscle-groups/forearms.png'),
@@ -198,7 +245,6 @@ export default function WorkoutsScreen() {
       name: 'Abs',
       emoji: '🔥',
       icon: Flame,
-      percentage: 75,
       color: '#F59E0B',
       description: 'Abdominals',
       imageUrl: require('@/assets/images/muscle-groups/abs.png'),
@@ -208,7 +254,6 @@ export default function WorkoutsScreen() {
       name: 'Lower Back',
       emoji: '🏋️',
       icon: ShieldCheck,
-      percentage: 80,
       color: '#EF4444',
       description: 'Erector Spinae',
       imageUrl: require('@/assets/images/muscle-groups/lower-back.png'),
@@ -218,7 +263,6 @@ export default function WorkoutsScreen() {
       name: 'Quads',
       emoji: '🦵',
       icon: Zap,
-      percentage: 90,
       color: '#3B82F6',
       description: 'Quadriceps',
       imageUrl: require('@/assets/images/muscle-groups/quads.png'),
@@ -228,7 +272,6 @@ export default function WorkoutsScreen() {
       name: 'Hamstrings',
       emoji: '🦵',
       icon: Activity,
-      percentage: 85,
       color: '#2563EB',
       description: 'Hamstring Muscles',
       imageUrl: require('@/assets/images/muscle-groups/hamstrings.png'),
@@ -238,7 +281,6 @@ export default function WorkoutsScreen() {
       name: 'Glutes',
       emoji: '🍑',
       icon: Target,
-      percentage: 90,
       color: '#1D4ED8',
       description: 'Glute Max & Med',
       imageUrl: require('@/assets/images/muscle-groups/glutes.png'),
@@ -248,7 +290,6 @@ export default function WorkoutsScreen() {
       name: 'Calves',
       emoji: '🦵',
       icon: Lightning,
-      percentage: 70,
       color: '#1E40AF',
       description: 'Calf Muscles',
       imageUrl: require('@/assets/images/muscle-groups/calves.png'),
@@ -258,7 +299,6 @@ export default function WorkoutsScreen() {
       name: 'Abductors',
       emoji: '🦵',
       icon: Activity,
-      percentage: 65,
       color: '#10B981',
       description: 'Hip Abductors',
       imageUrl: require('@/assets/images/muscle-groups/abductors.png'),
@@ -268,7 +308,6 @@ export default function WorkoutsScreen() {
       name: 'Adductors',
       emoji: '🦵',
       icon: Target,
-      percentage: 65,
       color: '#059669',
       description: 'Hip Adductors',
       imageUrl: require('@/assets/images/muscle-groups/adductors.png'),
@@ -304,7 +343,7 @@ export default function WorkoutsScreen() {
       },
       sets: 4,
       reps: 13,
-      weight: 15,
+      weight: toKg(15, 'lb'),
     },
     {
       id: 'hip-thrust',
@@ -334,8 +373,7 @@ export default function WorkoutsScreen() {
       sets: 3,
       reps: 15,
       weight: 0,
-      isSuperset: true,
-      supersetRounds: 3,
+      groupId: 'superset-a',
     },
     {
       id: 'barbell-squat',
@@ -364,7 +402,8 @@ export default function WorkoutsScreen() {
       },
       sets: 4,
       reps: 10,
-      weight: 135,
+      weight: toKg(135, 'lb'),
+      groupId: 'superset-a',
     },
     {
       id: 'push-ups',
@@ -422,7 +461,7 @@ export default function WorkoutsScreen() {
       },
       sets: 3,
       reps: 8,
-      weight: 185,
+      weight: toKg(185, 'lb'),
     },
     {
       id: 'plank',
@@ -474,7 +513,7 @@ export default function WorkoutsScreen() {
       },
       sets: 4,
       reps: 10,
-      weight: 120,
+      weight: toKg(120, 'lb'),
     },
   ];
 
@@ -868,6 +907,15 @@ export default function WorkoutsScreen() {
         limitationsOther: onboardingData?.limitations_other,
         motivationStyle: onboardingData?.motivation_style || [],
         workoutStyle: onboardingData?.workout_style || [],
+        weightUnit: settings.weightUnit,
+        muscleReadiness: selectedMuscles.reduce<Record<string, number>>(
+          (byMuscle, muscleId) => {
+            const muscle = muscleGroups.find((m) => m.id === muscleId);
+            byMuscle[muscleId] = getReadiness(muscle?.name || muscleId);
+            return byMuscle;
+          },
+          {}
+        ),
       };
 
       console.log(
@@ -901,7 +949,6 @@ export default function WorkoutsScreen() {
             muscle || {
               id: muscleId,
               name: muscleId,
-              percentage: 100,
               color: '#6B46C1',
             }
           );
@@ -927,10 +974,143 @@ export default function WorkoutsScreen() {
     });
   };
 
+  // Check again whenever the tab comes back into view, e.g. after leaving
+  // the active workout screen mid-session
+  useFocusEffect(
+    useCallback(() => {
+      refreshUnfinishedWorkout();
+      // Templates, programs and the schedule edited on other screens, or
+      // moved on by a finished workout, were saved by their own copy of the
+      // hooks
+      loadTemplates();
+      loadPrograms();
+      loadSchedule();
+      // Readiness moves on with every finished workout
+      loadRecovery();
+    }, [user])
+  );
+
+  const resumeWorkout = () => {
+    router.push({
+      pathname: '/workout/active',
+      params: {
+        resume: 'true',
+      },
+    });
+  };
+
+  const confirmDiscardWorkout = () => {
+    Alert.alert(
+      'Discard Workout',
+      'Your logged sets from this session will be lost.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: discardUnfinishedWorkout,
+        },
+      ]
+    );
+  };
+
   const createCustomWorkout = () => {
     router.push('/workout/custom');
   };
 
+  // Open the generated workout in the builder, where it can be tweaked
+  // before it is saved as a template
+  const saveGeneratedAsTemplate = (workout: GeneratedWorkout) => {
+    router.push({
+      pathname: '/workout/custom',
+      params: {
+        generatedWorkout: JSON.stringify(workout),
+      },
+    });
+  };
+
+  const showWorkoutMenu = () => {
+    Alert.alert('Workouts', undefined, [
+      ...(generatedWorkout
+        ? [
+            {
+              text: 'Save as Template',
+              onPress: () => saveGeneratedAsTemplate(generatedWorkout),
+            },
+          ]
+        : []),
+      { text: 'Create Custom Workout', onPress: createCustomWorkout },
+      { text: 'Training Calendar', onPress: () => router.push('/calendar') },
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  };
+
+  const startTemplate = (template: WorkoutTemplateRecord) => {
+    router.push({
+      pathname: '/workout/active',
+      params: {
+        customWorkoutData: buildCustomWorkoutData(
+          template.name,
+          fromTemplateExercises(template.exercises)
+        ),
+      },
+    });
+  };
+
+  // The day's template with this week's load and volume applied
+  const startProgramSession = (session: ProgramSession) => {
+    if (!session.template) return;
+
+    router.push({
+      pathname: '/workout/active',
+      params: {
+        customWorkoutData: buildCustomWorkoutData(
+          session.template.name,
+          applyProgramWeek(
+            fromTemplateExercises(session.template.exercises),
+            session.programWeek,
+            settings.weightUnit
+          ),
+          session.ref
+        ),
+      },
+    });
+  };
+
+  const editTemplate = (template: WorkoutTemplateRecord) => {
+    router.push({
+      pathname: '/workout/custom',
+      params: {
+        templateId: template.client_id,
+      },
+    });
+  };
+
+  const confirmDeleteTemplate = (template: WorkoutTemplateRecord) => {
+    Alert.alert('Delete Template', `Delete "${template.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => deleteTemplate(template),
+      },
+    ]);
+  };
+
+  const showTemplateOptions = (template: WorkoutTemplateRecord) => {
+    Alert.alert(template.name, undefined, [
+      { text: 'Start Workout', onPress: () => startTemplate(template) },
+      { text: 'Edit', onPress: () => editTemplate(template) },
+      { text: 'Duplicate', onPress: () => duplicateTemplate(template) },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => confirmDeleteTemplate(template),
+      },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
   const handleWorkoutModified = (modifiedWorkout: GeneratedWorkout) => {
     setOriginalWorkout(modifiedWorkout);
     setGeneratedWorkout(modifiedWorkout);
@@ -1082,7 +1262,7 @@ export default function WorkoutsScreen() {
           <Text style={styles.targetMuscleName}>{muscle.name}</Text>
           <View style={styles.targetMusclePercentage}>
             <Text style={styles.targetMusclePercentageText}>
-              {muscle.percentage}%
+              {Math.round(getReadiness(muscle.name))}%
             </Text>
           </View>
         </View>
@@ -1166,13 +1346,21 @@ export default function WorkoutsScreen() {
   );
 
   const renderWorkoutExerciseCard = (exercise: any, index: number) => {
-    const isSuperset = exercise.isSuperset;
+    const exercises = generatedWorkout?.exercises || [];
+    const group = getGroupIndices(exercises, index);
+    const groupType = getGroupType(group.length);
+    // Header goes above the first exercise of each superset/circuit
+    const groupLabel =
+      groupType && group[0] === index ? GROUP_TYPE_LABELS[groupType] : null;
+    const rounds = Math.max(...group.map((i) => exercises[i].sets || 3));
 
     return (
       <View key={exercise.id} style={styles.workoutExerciseCard}>
-        {isSuperset && index === 1 && (
+        {groupLabel && (
           <View style={styles.supersetHeader}>
-            <Text style={styles.supersetText}>Superset • 3 Rounds</Text>
+            <Text style={styles.supersetText}>
+              {groupLabel} • {rounds} Rounds
+            </Text>
             <TouchableOpacity>
               <MoreHorizontal size={20} color="#64748B" />
             </TouchableOpacity>
@@ -1208,7 +1396,9 @@ export default function WorkoutsScreen() {
             <Text style={styles.exerciseName}>{exercise.name}</Text>
             <Text style={styles.exerciseInfo}>
               {exercise.sets} sets • {exercise.reps} reps •{' '}
-              {exercise.weight > 0 ? `${exercise.weight} lb` : 'Bodyweight'}
+              {exercise.weight > 0
+                ? formatWeight(exercise.weight, settings.weightUnit)
+                : 'Bodyweight'}
             </Text>
           </View>
 
@@ -1232,6 +1422,7 @@ export default function WorkoutsScreen() {
         onStart={(ex) => handleStartExerciseFromInstructions(ex)}
         onShowDetails={handleShowExerciseDetails}
         showFullDetails={true}
+        weightUnit={settings.weightUnit}
       />
     );
   };
@@ -1248,10 +1439,11 @@ export default function WorkoutsScreen() {
             <View style={styles.header}>
               <View style={styles.headerContent}>
                 <Text style={styles.headerTitle}>Up Next</Text>
-                <TouchableOpacity>
+                <TouchableOpacity onPress={showWorkoutMenu}>
                   <MoreHorizontal size={24} color="#EF4444" />
                 </TouchableOpacity>
               </View>
+              <SyncStatusIndicator />
               {generatedWorkout && (
                 <View style={styles.headerInfo}>
                   <Text style={styles.headerSubtitle}>
@@ -1272,6 +1464,41 @@ export default function WorkoutsScreen() {
               contentContainerStyle={styles.scrollViewContent}
               showsVerticalScrollIndicator={false}
             >
+              {/* Resume an unfinished workout */}
+              {unfinishedWorkout && (
+                <ResumeWorkoutCard
+                  savedWorkout={unfinishedWorkout}
+                  onResume={resumeWorkout}
+                  onDiscard={confirmDiscardWorkout}
+                />
+              )}
+
+              {/* Next day of the program being followed */}
+              <TodayWorkoutCard
+                program={activeProgram}
+                session={programSession}
+                onStart={startProgramSession}
+                onManage={() => router.push('/programs')}
+              />
+
+              {/* Muscles still recovering from recent sessions */}
+              <MuscleReadinessCard readiness={readiness} />
+
+              {/* Readiness and weekly sets per muscle */}
+              <BodyHeatmap
+                readiness={readinessByMuscle}
+                volume={weeklyVolume}
+                style={{ marginHorizontal: 20, marginBottom: 20 }}
+              />
+
+              {/* Saved templates */}
+              <WorkoutTemplateList
+                templates={templates}
+                onStart={startTemplate}
+                onShowOptions={showTemplateOptions}
+                onCreate={createCustomWorkout}
+              />
+
               {/* Filter Pills */}
               <View style={styles.filterSection}>
                 <ScrollView
@@ -1313,6 +1540,15 @@ export default function WorkoutsScreen() {
                 </View>
               </TouchableWithoutFeedback>
 
+              {/* What the workout would do to each muscle */}
+              {generatedWorkout && (
+                <FatiguePreview
+                  plan={planGeneratedExercises(generatedWorkout.exercises)}
+                  defaultRest={settings.defaultRestTime}
+                  style={{ marginHorizontal: 20, marginBottom: 20 }}
+                />
+              )}
+
               {/* Exercises Section */}
               {generatedWorkout && (
                 <View style={styles.exercisesSection}>
@@ -1438,7 +1674,7 @@ export default function WorkoutsScreen() {
                               </View>
                               <View style={styles.targetMusclePercentage}>
                                 <Text style={styles.targetMusclePercentageText}>
-                                  {muscle.percentage}%
+                                  {Math.round(getReadiness(muscle.name))}%
                                 </Text>
                               </View>
                               {selectedMuscles.includes(muscle.id) && (
@@ -19,16 +19,45 @@ import {
   Flame,
   Star,
 } from 'lucide-react-native';
+import { useRouter, useFocusEffect } from 'expo-router';
+import { useCallback } from 'react';
 import { useAuth } from '@/hooks/useAuth';
+import { useSettings } from '@/hooks/useSettings';
 import { useSupabaseWorkouts } from '@/hooks/useSupabaseWorkouts';
 import { getLevelProgress } from '@/hooks/useSupabaseGamification';
 import XPProgressBar from '@/components/XPProgressBar';
 import AnimatedLightningBolt from '@/components/AnimatedLightningBolt';
+import WorkoutHistoryList from '@/components/WorkoutHistoryList';
+import BodyHeatmap from '@/components/BodyHeatmap';
+import { useMuscleRecovery } from '@/hooks/useMuscleRecovery';
+import {
+  PERSONAL_RECORD_LABELS,
+  formatRecordValue,
+} from '@/lib/personalRecords';
 
 export default function ProgressScreen() {
-  const { profile } = useAuth();
-  const { getWorkoutStats, getRecentWorkouts, personalRecords } =
-    useSupabaseWorkouts();
+  const router = useRouter();
+  const { profile, user, loadProfile } = useAuth();
+  const { settings } = useSettings();
+  const {
+    getWorkoutStats,
+    getRecentWorkouts,
+    personalRecords,
+    loadWorkouts,
+    loadPersonalRecords,
+  } = useSupabaseWorkouts();
+  const { readinessByMuscle, weeklyVolume, loadRecovery } = useMuscleRecovery();
+
+  // Pick up workouts edited or deleted on the detail screen
+  useFocusEffect(
+    useCallback(() => {
+      if (!user) return;
+      loadWorkouts();
+      loadPersonalRecords();
+      loadRecovery();
+      loadProfile(user.id);
+    }, [user])
+  );
 
   const workoutStats = getWorkoutStats();
   const recentWorkouts = getRecentWorkouts(7);
@@ -51,7 +80,8 @@ export default function ProgressScreen() {
 
   const recentPRs = personalRecords.slice(0, 4).map((pr) => ({
     exercise: pr.exercise_name,
-    weight: pr.weight || 0,
+    kind: PERSONAL_RECORD_LABELS[pr.record_type],
+    value: formatRecordValue(pr, settings.weightUnit),
     date: pr.date,
     isNew: new Date(pr.date).getTime() > Date.now() - 7 * 24 * 60 * 60 * 1000, // New if within last week
   }));
@@ -135,10 +165,12 @@ export default function ProgressScreen() {
             <View style={styles.prContent}>
               <View style={styles.prLeft}>
                 <Text style={styles.prExercise}>{pr.exercise}</Text>
-                <Text style={styles.prDate}>{pr.date}</Text>
+                <Text style={styles.prDate}>
+                  {pr.kind} · {pr.date}
+                </Text>
               </View>
               <View style={styles.prRight}>
-                <Text style={styles.prWeight}>{pr.weight} lbs</Text>
+                <Text style={styles.prWeight}>{pr.value}</Text>
                 {pr.isNew && (
                   <View style={styles.newPrBadge}>
                     <Zap size={12} color="#F59E0B" />
@@ -267,6 +299,23 @@ export default function ProgressScreen() {
           </View>
         </View>
 
+        {/* Muscles worked this week */}
+        <View style={styles.muscleSection}>
+          <Text style={styles.sectionTitle}>Muscles This Week</Text>
+          <BodyHeatmap volume={weeklyVolume} readiness={readinessByMuscle} />
+        </View>
+
+        {/* Recent Workouts */}
+        <WorkoutHistoryList
+          workouts={recentWorkouts}
+          onSelect={(workout) =>
+            router.push({
+              pathname: '/workout/[id]',
+              params: { id: workout.id },
+            } as any)
+          }
+        />
+
         {/* Personal Records */}
         {renderPersonalRecords()}
 
@@ -401,6 +450,10 @@ const styles = StyleSheet.create({
     paddingHorizontal: 20,
     marginBottom: 30,
   },
+  muscleSection: {
+    paddingHorizontal: 20,
+    marginBottom: 30,
+  },
   chartCard: {
     marginBottom: 16,
   },
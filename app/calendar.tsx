@@ -0,0 +1,728 @@
+import { useState, useRef, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  PanResponder,
+  LayoutChangeEvent,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import {
+  ArrowLeft,
+  ChevronLeft,
+  ChevronRight,
+  Dumbbell,
+  Move,
+} from 'lucide-react-native';
+import { useRouter, useFocusEffect } from 'expo-router';
+import { useAuth } from '@/hooks/useAuth';
+import { useSupabaseWorkouts } from '@/hooks/useSupabaseWorkouts';
+import {
+  useTrainingSchedule,
+  useTrainingDayReminders,
+} from '@/hooks/useTrainingSchedule';
+import { WorkoutRecord } from '@/lib/supabase';
+import {
+  Weekday,
+  WEEKDAYS,
+  WEEKDAY_SHORT_LABELS,
+  getMonthWeeks,
+  isPlannedDate,
+  toDateKey,
+} from '@/lib/schedule';
+
+const CELL_HEIGHT = 56;
+
+const MONTH_NAMES = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+
+type DayStatus = 'completed' | 'planned' | 'missed' | 'rest';
+
+const STATUS_COLORS: Record<DayStatus, string> = {
+  completed: '#10B981',
+  planned: '#6B46C1',
+  missed: '#EF4444',
+  rest: 'transparent',
+};
+
+const STATUS_LABELS: Record<DayStatus, string> = {
+  completed: 'Completed',
+  planned: 'Planned',
+  missed: 'Missed',
+  rest: 'Rest day',
+};
+
+// "Monday, March 3"
+const formatDateKey = (key: string): string =>
+  new Date(`${key}T00:00:00`).toLocaleDateString(undefined, {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+  });
+
+export default function CalendarScreen() {
+  const router = useRouter();
+  const { user } = useAuth();
+  const { workouts, loadWorkouts } = useSupabaseWorkouts();
+  const {
+    schedule,
+    trainingDays,
+    loaded,
+    setTrainingDays,
+    moveSession,
+    loadSchedule,
+  } = useTrainingSchedule();
+  useTrainingDayReminders(schedule, loaded);
+
+  const todayKey = toDateKey(new Date());
+  const [month, setMonth] = useState(() => {
+    const now = new Date();
+    return { year: now.getFullYear(), month: now.getMonth() };
+  });
+  const [selectedKey, setSelectedKey] = useState(todayKey);
+  const [dragFrom, setDragFrom] = useState<string | null>(null);
+  const [dragPosition, setDragPosition] = useState<{
+    x: number;
+    y: number;
+  } | null>(null);
+
+  // The pan responder is created once, so it reads the drag through refs
+  const dragFromRef = useRef<string | null>(null);
+  const gridRef = useRef<View>(null);
+  const gridOrigin = useRef({ x: 0, y: 0 });
+  const gridWidth = useRef(0);
+  const weeksRef = useRef<(string | null)[][]>([]);
+  const dropRef = useRef<(key: string | null) => void>(() => {});
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!user) return;
+      loadWorkouts();
+      loadSchedule();
+    }, [user])
+  );
+
+  const weeks = getMonthWeeks(month.year, month.month);
+  weeksRef.current = weeks;
+
+  const workoutsByDate = workouts.reduce<Record<string, WorkoutRecord[]>>(
+    (byDate, workout) => {
+      const key = toDateKey(new Date(workout.date));
+      byDate[key] = [...(byDate[key] || []), workout];
+      return byDate;
+    },
+    {}
+  );
+
+  // Training days before the account existed were never missed
+  const firstKey = user ? toDateKey(new Date(user.created_at)) : todayKey;
+
+  const getDayStatus = (key: string): DayStatus => {
+    if (workoutsByDate[key]) return 'completed';
+    if (!isPlannedDate(key, schedule)) return 'rest';
+    if (key < todayKey) return key >= firstKey ? 'missed' : 'rest';
+    return 'planned';
+  };
+
+  const canMoveFrom = (key: string) =>
+    key >= todayKey && getDayStatus(key) === 'planned';
+
+  const startDrag = (key: string) => {
+    if (!canMoveFrom(key)) return;
+    dragFromRef.current = key;
+    setDragFrom(key);
+    setSelectedKey(key);
+    gridRef.current?.measureInWindow((x, y) => {
+      gridOrigin.current = { x, y };
+    });
+  };
+
+  const cancelDrag = () => {
+    dragFromRef.current = null;
+    setDragFrom(null);
+    setDragPosition(null);
+  };
+
+  const dropOn = async (key: string | null) => {
+    const from = dragFromRef.current;
+    cancelDrag();
+    if (!from || !key || key === from) return;
+
+    if (key < todayKey) {
+      Alert.alert(
+        'Cannot Move Session',
+        'Sessions can only move to today or later.'
+      );
+      return;
+    }
+
+    const { error } = await moveSession(from, key);
+    if (error) {
+      Alert.alert('Cannot Move Session', error.message);
+      return;
+    }
+    setSelectedKey(key);
+  };
+  dropRef.current = dropOn;
+
+  const getKeyAt = (pageX: number, pageY: number): string | null => {
+    if (gridWidth.current === 0) return null;
+    const col = Math.floor(
+      (pageX - gridOrigin.current.x) / (gridWidth.current / 7)
+    );
+    const row = Math.floor((pageY - gridOrigin.current.y) / CELL_HEIGHT);
+    return weeksRef.current[row]?.[col] ?? null;
+  };
+
+  // Once a cell has been long pressed, the grid takes over the touch so the
+  // session follows the finger until it is dropped on another day
+  const panResponder = useRef(
+    PanResponder.create({
+      onMoveShouldSetPanResponderCapture: () => dragFromRef.current !== null,
+      onPanResponderMove: (_, gesture) => {
+        setDragPosition({
+          x: gesture.moveX - gridOrigin.current.x,
+          y: gesture.moveY - gridOrigin.current.y,
+        });
+      },
+      onPanResponderRelease: (_, gesture) => {
+        dropRef.current(getKeyAt(gesture.moveX, gesture.moveY));
+      },
+      onPanResponderTerminate: () => {
+        dropRef.current(null);
+      },
+    })
+  ).current;
+
+  const handleGridLayout = (event: LayoutChangeEvent) => {
+    gridWidth.current = event.nativeEvent.layout.width;
+  };
+
+  const changeMonth = (delta: number) => {
+    setMonth((current) => {
+      const date = new Date(current.year, current.month + delta, 1);
+      return { year: date.getFullYear(), month: date.getMonth() };
+    });
+  };
+
+  const toggleTrainingDay = (day: Weekday) => {
+    setTrainingDays(
+      trainingDays.includes(day)
+        ? trainingDays.filter((d) => d !== day)
+        : [...trainingDays, day]
+    );
+  };
+
+  const handleDayPress = (key: string) => {
+    if (dragFrom) {
+      dropOn(key);
+    } else {
+      setSelectedKey(key);
+    }
+  };
+
+  const renderDay = (key: string | null, index: number) => {
+    if (!key) return <View key={index} style={styles.dayCell} />;
+
+    const status = getDayStatus(key);
+    const isSelected = key === selectedKey;
+    const isDragSource = key === dragFrom;
+
+    return (
+      <TouchableOpacity
+        key={key}
+        style={[
+          styles.dayCell,
+          isSelected && styles.selectedDay,
+          isDragSource && styles.dragSourceDay,
+        ]}
+        onPress={() => handleDayPress(key)}
+        onLongPress={() => startDrag(key)}
+        delayLongPress={300}
+      >
+        <View
+          style={[styles.dayNumber, key === todayKey && styles.todayNumber]}
+        >
+          <Text
+            style={[
+              styles.dayNumberText,
+              status === 'rest' && styles.restDayText,
+            ]}
+          >
+            {Number(key.split('-')[2])}
+          </Text>
+        </View>
+        <View
+          style={[styles.statusDot, { backgroundColor: STATUS_COLORS[status] }]}
+        />
+      </TouchableOpacity>
+    );
+  };
+
+  const renderSelectedDay = () => {
+    const status = getDayStatus(selectedKey);
+    const dayWorkouts = workoutsByDate[selectedKey] || [];
+
+    return (
+      <View style={styles.detailsCard}>
+        <View style={styles.detailsHeader}>
+          <Text style={styles.detailsTitle}>{formatDateKey(selectedKey)}</Text>
+          <Text
+            style={[
+              styles.detailsStatus,
+              status !== 'rest' && { color: STATUS_COLORS[status] },
+            ]}
+          >
+            {STATUS_LABELS[status]}
+          </Text>
+        </View>
+
+        {dayWorkouts.map((workout) => (
+          <TouchableOpacity
+            key={workout.id}
+            style={styles.workoutRow}
+            onPress={() =>
+              router.push({
+                pathname: '/workout/[id]',
+                params: { id: workout.id },
+              } as any)
+            }
+          >
+            <Dumbbell size={16} color="#10B981" />
+            <Text style={styles.workoutRowText}>
+              {workout.exercises.length} exercises • {workout.total_sets} sets •{' '}
+              {workout.duration} min
+            </Text>
+            <ChevronRight size={16} color="#64748B" />
+          </TouchableOpacity>
+        ))}
+
+        {status === 'missed' && (
+          <Text style={styles.detailsText}>
+            This session was skipped, so it counts against your streak.
+          </Text>
+        )}
+
+        {canMoveFrom(selectedKey) &&
+          (dragFrom ? (
+            <View style={styles.moveRow}>
+              <Text style={styles.detailsText}>
+                Tap the day to move this session to.
+              </Text>
+              <TouchableOpacity onPress={cancelDrag}>
+                <Text style={styles.cancelMoveText}>Cancel</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <TouchableOpacity
+              style={styles.moveButton}
+              onPress={() => startDrag(selectedKey)}
+            >
+              <Move size={16} color="#FFFFFF" />
+              <Text style={styles.moveButtonText}>Move Session</Text>
+            </TouchableOpacity>
+          ))}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <LinearGradient
+        colors={['#0F0F23', '#1A1A2E', '#0F0F23']}
+        style={styles.background}
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => router.back()}
+          >
+            <ArrowLeft size={24} color="#FFFFFF" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Calendar</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <ScrollView
+          style={styles.content}
+          showsVerticalScrollIndicator={false}
+          scrollEnabled={!dragFrom}
+        >
+          {/* Month navigation */}
+          <View style={styles.monthRow}>
+            <TouchableOpacity
+              style={styles.monthButton}
+              onPress={() => changeMonth(-1)}
+            >
+              <ChevronLeft size={20} color="#FFFFFF" />
+            </TouchableOpacity>
+            <Text style={styles.monthTitle}>
+              {MONTH_NAMES[month.month]} {month.year}
+            </Text>
+            <TouchableOpacity
+              style={styles.monthButton}
+              onPress={() => changeMonth(1)}
+            >
+              <ChevronRight size={20} color="#FFFFFF" />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.weekdayRow}>
+            {WEEKDAYS.map((day) => (
+              <Text key={day} style={styles.weekdayLabel}>
+                {WEEKDAY_SHORT_LABELS[day]}
+              </Text>
+            ))}
+          </View>
+
+          <View
+            ref={gridRef}
+            onLayout={handleGridLayout}
+            {...panResponder.panHandlers}
+          >
+            {weeks.map((week, weekIndex) => (
+              <View key={weekIndex} style={styles.weekRow}>
+                {week.map(renderDay)}
+              </View>
+            ))}
+            {dragFrom && dragPosition && (
+              <View
+                pointerEvents="none"
+                style={[
+                  styles.dragGhost,
+                  { left: dragPosition.x - 20, top: dragPosition.y - 20 },
+                ]}
+              >
+                <Dumbbell size={18} color="#FFFFFF" />
+              </View>
+            )}
+          </View>
+
+          <Text style={styles.hintText}>
+            Long press a planned session and drag it to another day.
+          </Text>
+
+          {/* Legend */}
+          <View style={styles.legend}>
+            {(['completed', 'planned', 'missed'] as DayStatus[]).map(
+              (status) => (
+                <View key={status} style={styles.legendItem}>
+                  <View
+                    style={[
+                      styles.statusDot,
+                      { backgroundColor: STATUS_COLORS[status] },
+                    ]}
+                  />
+                  <Text style={styles.legendText}>{STATUS_LABELS[status]}</Text>
+                </View>
+              )
+            )}
+          </View>
+
+          {renderSelectedDay()}
+
+          {/* Training days */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Training Days</Text>
+            <Text style={styles.sectionSubtitle}>
+              Sessions are planned on these days every week.
+            </Text>
+            <View style={styles.trainingDaysRow}>
+              {WEEKDAYS.map((day) => {
+                const isSelected = trainingDays.includes(day);
+                return (
+                  <TouchableOpacity
+                    key={day}
+                    style={[
+                      styles.trainingDayChip,
+                      isSelected && styles.trainingDayChipSelected,
+                    ]}
+                    onPress={() => toggleTrainingDay(day)}
+                  >
+                    <Text
+                      style={[
+                        styles.trainingDayText,
+                        isSelected && styles.trainingDayTextSelected,
+                      ]}
+                    >
+                      {WEEKDAY_SHORT_LABELS[day]}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        </ScrollView>
+      </LinearGradient>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0F0F23',
+  },
+  background: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1A1A2E',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#1A1A2E',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    textAlign: 'center',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  monthRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  monthButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#1A1A2E',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  monthTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  weekdayRow: {
+    flexDirection: 'row',
+    marginBottom: 8,
+  },
+  weekdayLabel: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#64748B',
+    textAlign: 'center',
+  },
+  weekRow: {
+    flexDirection: 'row',
+  },
+  dayCell: {
+    flex: 1,
+    height: CELL_HEIGHT,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 12,
+  },
+  selectedDay: {
+    backgroundColor: '#1A1A2E',
+  },
+  dragSourceDay: {
+    borderWidth: 1,
+    borderColor: '#6B46C1',
+    borderStyle: 'dashed',
+  },
+  dayNumber: {
+    width: 30,
+    height: 30,
+    borderRadius: 15,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  todayNumber: {
+    borderWidth: 1,
+    borderColor: '#EF4444',
+  },
+  dayNumberText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  restDayText: {
+    color: '#64748B',
+    fontWeight: '400',
+  },
+  statusDot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    marginTop: 4,
+  },
+  dragGhost: {
+    position: 'absolute',
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#6B46C1',
+    justifyContent: 'center',
+    alignItems: 'center',
+    opacity: 0.9,
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#64748B',
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  legend: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginTop: 12,
+    marginBottom: 20,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 10,
+  },
+  legendText: {
+    fontSize: 12,
+    color: '#94A3B8',
+    marginLeft: 6,
+    marginTop: 4,
+  },
+  detailsCard: {
+    backgroundColor: '#1A1A2E',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 24,
+  },
+  detailsHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  detailsTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  detailsStatus: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#64748B',
+  },
+  detailsText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#94A3B8',
+    lineHeight: 20,
+  },
+  workoutRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#0F0F23',
+  },
+  workoutRowText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#FFFFFF',
+    marginLeft: 10,
+  },
+  moveRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  cancelMoveText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#EF4444',
+    marginLeft: 12,
+  },
+  moveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#6B46C1',
+    borderRadius: 12,
+    paddingVertical: 10,
+    marginTop: 8,
+  },
+  moveButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    marginLeft: 8,
+  },
+  section: {
+    marginBottom: 40,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    marginBottom: 4,
+  },
+  sectionSubtitle: {
+    fontSize: 14,
+    color: '#94A3B8',
+    marginBottom: 12,
+  },
+  trainingDaysRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  trainingDayChip: {
+    flex: 1,
+    marginHorizontal: 2,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: '#1A1A2E',
+    alignItems: 'center',
+  },
+  trainingDayChipSelected: {
+    backgroundColor: '#6B46C1',
+  },
+  trainingDayText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#94A3B8',
+  },
+  trainingDayTextSelected: {
+    color: '#FFFFFF',
+  },
+});
@@ -33,14 +33,17 @@ import {
   X,
   ChevronDown,
 } from 'lucide-react-native';
-import { useRouter } from 'expo-router';
+import { useRouter, useLocalSearchParams } from 'expo-router';
 import { useAuth } from '@/hooks/useAuth';
+import { useSettings } from '@/hooks/useSettings';
 import { supabase } from '@/lib/supabase';
-import { useLocalSearchParams } from 'expo-router';
+import { toKg, getWeightUnitForSystem } from '@/lib/units';
+import { getTrainingDaysForFrequency } from '@/lib/schedule';
 
 export default function OnboardingScreen() {
   const router = useRouter();
   const { updateProfile, signUp, user } = useAuth();
+  const { updateSetting } = useSettings();
   const params = useLocalSearchParams();
 
   // Parse signup data from params (optional - for Google users or legacy flow)
@@ -554,6 +557,12 @@ export default function OnboardingScreen() {
         // Equipment & Workout Preferences
         equipment: onboardingData.equipment || [],
         workout_frequency: onboardingData.workoutFrequency || null,
+        // Plans sessions on the calendar; a weekly frequency is spread
+        // over the week
+        training_days:
+          frequencyTab === 'specific-days'
+            ? onboardingData.specificDays
+            : getTrainingDaysForFrequency(onboardingData.workoutFrequency),
         workout_duration: '30-45', // Default based on typical selection
         time_availability: 'flexible', // Default value
 
@@ -587,6 +596,12 @@ export default function OnboardingScreen() {
         console.log('Onboarding data saved successfully');
       }
 
+      // Log and show workout weights in the units picked here
+      await updateSetting(
+        'weightUnit',
+        getWeightUnitForSystem(onboardingData.preferredUnits)
+      );
+
       // Save additional onboarding metadata (for analytics and future features)
       const metadataPayload = {
         user_id: userId,
@@ -642,13 +657,7 @@ export default function OnboardingScreen() {
   const convertWeightToKg = (weight: string, units: string): number => {
     if (!weight) return 0;
 
-    const weightNum = parseFloat(weight);
-    if (units === 'metric') {
-      return weightNum;
-    } else {
-      // Convert pounds to kg
-      return Math.round(weightNum * 0.453592 * 100) / 100;
-    }
+    return toKg(parseFloat(weight), getWeightUnitForSystem(units));
   };
 
   const selectOption = (field: string, value: string) => {
@@ -0,0 +1,479 @@
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import { ArrowLeft, Plus, Save, Trash2 } from 'lucide-react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useState, useEffect } from 'react';
+import { useTrainingPrograms } from '@/hooks/useTrainingPrograms';
+import { useWorkoutTemplates } from '@/hooks/useWorkoutTemplates';
+import { ProgramDay } from '@/lib/supabase';
+import {
+  DELOAD_EVERY_OPTIONS,
+  LOAD_INCREASE_OPTIONS,
+  PROGRAM_LENGTH_OPTIONS,
+  VOLUME_INCREASE_OPTIONS,
+  isDeloadWeek,
+} from '@/lib/programs';
+
+const MAX_DAYS_PER_WEEK = 7;
+
+export default function EditProgramScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ programId?: string }>();
+  const { programs, getProgram, saveProgram } = useTrainingPrograms();
+  const { templates } = useWorkoutTemplates();
+
+  const [name, setName] = useState('');
+  const [days, setDays] = useState<ProgramDay[]>([]);
+  const [lengthWeeks, setLengthWeeks] = useState(8);
+  const [deloadEvery, setDeloadEvery] = useState(4);
+  const [loadIncrease, setLoadIncrease] = useState(2.5);
+  const [volumeIncreaseEvery, setVolumeIncreaseEvery] = useState(0);
+  const [showTemplatePicker, setShowTemplatePicker] = useState(false);
+  const [isPrefilled, setIsPrefilled] = useState(false);
+  const isEditing = !!params.programId;
+
+  // Programs load asynchronously; start from the one being edited once it's in
+  useEffect(() => {
+    if (isPrefilled || !params.programId) return;
+
+    const program = getProgram(params.programId);
+    if (!program) return;
+    setName(program.name);
+    setDays(program.days);
+    setLengthWeeks(program.length_weeks);
+    setDeloadEvery(program.deload_every);
+    setLoadIncrease(program.weekly_load_increase);
+    setVolumeIncreaseEvery(program.volume_increase_every);
+    setIsPrefilled(true);
+  }, [programs, params.programId]);
+
+  const addDay = (day: ProgramDay) => {
+    setDays([...days, day]);
+    setShowTemplatePicker(false);
+  };
+
+  const removeDay = (index: number) => {
+    setDays(days.filter((_, i) => i !== index));
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      Alert.alert('Error', 'Please enter a program name');
+      return;
+    }
+
+    if (days.length === 0) {
+      Alert.alert('Error', 'Please add at least one training day');
+      return;
+    }
+
+    const { error } = await saveProgram(
+      {
+        name,
+        days,
+        length_weeks: lengthWeeks,
+        deload_every: deloadEvery,
+        weekly_load_increase: loadIncrease,
+        volume_increase_every: volumeIncreaseEvery,
+      },
+      params.programId
+    );
+    if (error) {
+      Alert.alert('Error', 'Failed to save program. Please try again.');
+      return;
+    }
+
+    router.back();
+  };
+
+  const renderOptions = <T,>(
+    options: T[],
+    selected: T,
+    onSelect: (value: T) => void,
+    getLabel: (value: T) => string
+  ) => (
+    <View style={styles.optionRow}>
+      {options.map((option) => (
+        <TouchableOpacity
+          key={String(option)}
+          style={[
+            styles.optionPill,
+            option === selected && styles.optionPillActive,
+          ]}
+          onPress={() => onSelect(option)}
+        >
+          <Text
+            style={[
+              styles.optionText,
+              option === selected && styles.optionTextActive,
+            ]}
+          >
+            {getLabel(option)}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const weeks = Array.from({ length: lengthWeeks }, (_, i) => i + 1);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <LinearGradient
+        colors={['#0F0F23', '#1A1A2E', '#0F0F23']}
+        style={styles.background}
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => router.back()}
+          >
+            <ArrowLeft size={24} color="#FFFFFF" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>
+            {isEditing ? 'Edit Program' : 'New Program'}
+          </Text>
+          <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
+            <Save size={20} color="#FFFFFF" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          {/* Name */}
+          <Text style={styles.sectionTitle}>Program Name</Text>
+          <TextInput
+            style={styles.nameInput}
+            placeholder="e.g. Push Pull Legs"
+            placeholderTextColor="#64748B"
+            value={name}
+            onChangeText={setName}
+          />
+
+          {/* Training week */}
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Training Week</Text>
+            {days.length < MAX_DAYS_PER_WEEK && (
+              <TouchableOpacity
+                style={styles.addDayButton}
+                onPress={() => setShowTemplatePicker(!showTemplatePicker)}
+              >
+                <Plus size={16} color="#FFFFFF" />
+                <Text style={styles.addDayText}>Add Day</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          {showTemplatePicker && (
+            <View style={styles.card}>
+              {templates.length === 0 ? (
+                <Text style={styles.hintText}>
+                  Program days are built from templates. Save a custom or
+                  generated workout as a template first.
+                </Text>
+              ) : (
+                templates.map((template) => (
+                  <TouchableOpacity
+                    key={template.client_id}
+                    style={styles.row}
+                    onPress={() =>
+                      addDay({
+                        template_id: template.client_id,
+                        name: template.name,
+                      })
+                    }
+                  >
+                    <Text style={styles.rowLabel}>{template.name}</Text>
+                    <Plus size={16} color="#6B46C1" />
+                  </TouchableOpacity>
+                ))
+              )}
+            </View>
+          )}
+
+          <View style={styles.card}>
+            {days.length === 0 ? (
+              <Text style={styles.hintText}>
+                Add the workouts of one week in the order you train them.
+              </Text>
+            ) : (
+              days.map((day, index) => {
+                const template = templates.find(
+                  (t) => t.client_id === day.template_id
+                );
+                return (
+                  <View key={`${day.template_id}-${index}`} style={styles.row}>
+                    <View style={styles.dayInfo}>
+                      <Text style={styles.dayNumber}>Day {index + 1}</Text>
+                      <Text style={styles.rowLabel}>
+                        {template?.name || day.name}
+                      </Text>
+                      {!template && templates.length > 0 && (
+                        <Text style={styles.warningText}>Template deleted</Text>
+                      )}
+                    </View>
+                    <TouchableOpacity
+                      style={styles.removeButton}
+                      onPress={() => removeDay(index)}
+                    >
+                      <Trash2 size={16} color="#EF4444" />
+                    </TouchableOpacity>
+                  </View>
+                );
+              })
+            )}
+          </View>
+
+          {/* Schedule */}
+          <Text style={styles.sectionTitle}>Length</Text>
+          {renderOptions(
+            PROGRAM_LENGTH_OPTIONS,
+            lengthWeeks,
+            setLengthWeeks,
+            (weeks) => `${weeks} weeks`
+          )}
+
+          <Text style={styles.sectionTitle}>Deload</Text>
+          {renderOptions(
+            DELOAD_EVERY_OPTIONS,
+            deloadEvery,
+            setDeloadEvery,
+            (every) => (every === 0 ? 'None' : `Every ${every}th week`)
+          )}
+
+          {/* Progression */}
+          <Text style={styles.sectionTitle}>Weekly Load Increase</Text>
+          {renderOptions(
+            LOAD_INCREASE_OPTIONS,
+            loadIncrease,
+            setLoadIncrease,
+            (percent) => (percent === 0 ? 'None' : `+${percent}%`)
+          )}
+
+          <Text style={styles.sectionTitle}>Extra Sets</Text>
+          {renderOptions(
+            VOLUME_INCREASE_OPTIONS,
+            volumeIncreaseEvery,
+            setVolumeIncreaseEvery,
+            (every) => (every === 0 ? 'None' : `+1 every ${every} weeks`)
+          )}
+
+          {/* Preview */}
+          <View style={styles.weekPreview}>
+            {weeks.map((week) => (
+              <View
+                key={week}
+                style={[
+                  styles.weekChip,
+                  isDeloadWeek({ deload_every: deloadEvery }, week) &&
+                    styles.deloadChip,
+                ]}
+              >
+                <Text style={styles.weekChipText}>{week}</Text>
+              </View>
+            ))}
+          </View>
+
+          {/* Info */}
+          <View style={styles.infoSection}>
+            <Text style={styles.infoText}>
+              Week 1 uses your templates as saved. Each following week adds the
+              load increase to working weights; deload weeks halve the sets at
+              90% of the load and don&apos;t count toward progression.
+            </Text>
+          </View>
+        </ScrollView>
+      </LinearGradient>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0F0F23',
+  },
+  background: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1A1A2E',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#1A1A2E',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    textAlign: 'center',
+  },
+  saveButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#6B46C1',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 30,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    marginBottom: 16,
+  },
+  nameInput: {
+    backgroundColor: '#1A1A2E',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    color: '#FFFFFF',
+    marginBottom: 30,
+  },
+  addDayButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#6B46C1',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  addDayText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    marginLeft: 4,
+  },
+  card: {
+    backgroundColor: '#1A1A2E',
+    borderRadius: 16,
+    paddingHorizontal: 16,
+    marginBottom: 30,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+  },
+  rowLabel: {
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+  dayInfo: {
+    flex: 1,
+  },
+  dayNumber: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#94A3B8',
+    marginBottom: 2,
+  },
+  warningText: {
+    fontSize: 12,
+    color: '#EF4444',
+    marginTop: 2,
+  },
+  removeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#EF4444' + '20',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  hintText: {
+    fontSize: 14,
+    color: '#64748B',
+    paddingVertical: 16,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 30,
+  },
+  optionPill: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#1A1A2E',
+    borderWidth: 1,
+    borderColor: '#374151',
+  },
+  optionPillActive: {
+    backgroundColor: '#6B46C1',
+    borderColor: '#6B46C1',
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#94A3B8',
+  },
+  optionTextActive: {
+    color: '#FFFFFF',
+  },
+  weekPreview: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 16,
+  },
+  weekChip: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: '#6B46C1' + '40',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  deloadChip: {
+    backgroundColor: '#10B981' + '40',
+  },
+  weekChipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  infoSection: {
+    alignItems: 'center',
+    marginBottom: 40,
+  },
+  infoText: {
+    fontSize: 14,
+    color: '#64748B',
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+});
@@ -0,0 +1,266 @@
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import {
+  ArrowLeft,
+  CalendarDays,
+  ChevronRight,
+  Plus,
+} from 'lucide-react-native';
+import { useRouter, useFocusEffect } from 'expo-router';
+import { useCallback } from 'react';
+import { useTrainingPrograms } from '@/hooks/useTrainingPrograms';
+import { TrainingProgramRecord } from '@/lib/supabase';
+import { formatProgramPosition } from '@/lib/programs';
+
+// "8 weeks • 3 days/week • deload every 4th week"
+const describeProgram = (program: TrainingProgramRecord): string =>
+  [
+    `${program.length_weeks} weeks`,
+    `${program.days.length} days/week`,
+    program.deload_every > 0
+      ? `deload every ${program.deload_every}th week`
+      : 'no deloads',
+  ].join(' • ');
+
+export default function ProgramsScreen() {
+  const router = useRouter();
+  const { programs, loadPrograms, startProgram, stopProgram, deleteProgram } =
+    useTrainingPrograms();
+
+  // Pick up programs saved in the editor
+  useFocusEffect(
+    useCallback(() => {
+      loadPrograms();
+    }, [])
+  );
+
+  const editProgram = (program?: TrainingProgramRecord) => {
+    router.push(
+      program
+        ? {
+            pathname: '/programs/edit',
+            params: { programId: program.client_id },
+          }
+        : '/programs/edit'
+    );
+  };
+
+  const confirmStartProgram = (program: TrainingProgramRecord) => {
+    const current = programs.find((p) => p.is_active);
+    const message =
+      current && current.client_id !== program.client_id
+        ? `This replaces ${current.name}, which will stop where it is.`
+        : 'You will start from week 1, day 1.';
+
+    Alert.alert(`Start ${program.name}?`, message, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Start', onPress: () => startProgram(program) },
+    ]);
+  };
+
+  const confirmDeleteProgram = (program: TrainingProgramRecord) => {
+    Alert.alert('Delete Program', `Delete "${program.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => deleteProgram(program),
+      },
+    ]);
+  };
+
+  const showProgramOptions = (program: TrainingProgramRecord) => {
+    Alert.alert(program.name, describeProgram(program), [
+      program.is_active && !program.completed_at
+        ? { text: 'Stop Program', onPress: () => stopProgram(program) }
+        : {
+            text: program.is_active ? 'Restart Program' : 'Start Program',
+            onPress: () => confirmStartProgram(program),
+          },
+      { text: 'Edit', onPress: () => editProgram(program) },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => confirmDeleteProgram(program),
+      },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const renderProgram = (program: TrainingProgramRecord) => (
+    <TouchableOpacity
+      key={program.client_id}
+      style={[styles.programCard, program.is_active && styles.activeCard]}
+      onPress={() => showProgramOptions(program)}
+    >
+      <View style={styles.programIcon}>
+        <CalendarDays size={20} color="#6B46C1" />
+      </View>
+      <View style={styles.programInfo}>
+        <Text style={styles.programName}>{program.name}</Text>
+        <Text style={styles.programDetails}>{describeProgram(program)}</Text>
+        {program.is_active && (
+          <Text style={styles.programPosition}>
+            {program.completed_at
+              ? 'Completed'
+              : `In progress: ${formatProgramPosition(program)}`}
+          </Text>
+        )}
+      </View>
+      <ChevronRight size={18} color="#64748B" />
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <LinearGradient
+        colors={['#0F0F23', '#1A1A2E', '#0F0F23']}
+        style={styles.background}
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => router.back()}
+          >
+            <ArrowLeft size={24} color="#FFFFFF" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Programs</Text>
+          <TouchableOpacity
+            style={styles.addButton}
+            onPress={() => editProgram()}
+          >
+            <Plus size={20} color="#FFFFFF" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          {programs.length === 0 ? (
+            <View style={styles.emptyState}>
+              <CalendarDays size={48} color="#64748B" />
+              <Text style={styles.emptyStateText}>No programs yet</Text>
+              <Text style={styles.emptyStateSubtext}>
+                Build a week from your templates and the program repeats it,
+                adding load and sets week to week with deloads on schedule.
+              </Text>
+            </View>
+          ) : (
+            programs.map(renderProgram)
+          )}
+        </ScrollView>
+      </LinearGradient>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0F0F23',
+  },
+  background: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1A1A2E',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#1A1A2E',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    textAlign: 'center',
+  },
+  addButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#6B46C1',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 30,
+  },
+  programCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    marginBottom: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#1A1A2E',
+    backgroundColor: '#1A1A2E',
+  },
+  activeCard: {
+    borderColor: '#6B46C1',
+  },
+  programIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#6B46C1' + '20',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  programInfo: {
+    flex: 1,
+  },
+  programName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    marginBottom: 4,
+  },
+  programDetails: {
+    fontSize: 13,
+    color: '#94A3B8',
+  },
+  programPosition: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#A78BFA',
+    marginTop: 4,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  emptyStateText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyStateSubtext: {
+    fontSize: 14,
+    color: '#94A3B8',
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+});
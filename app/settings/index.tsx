@@ -27,12 +27,13 @@ import {
   Download,
   Trash2,
   Star,
+  Weight,
 } from 'lucide-react-native';
 import { useRouter } from 'expo-router';
-import { useState, useEffect } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import { useSettings } from '@/hooks/useSettings';
 import { supabase } from '@/lib/supabase';
+import { WEIGHT_UNIT_LABELS } from '@/lib/units';
 
 interface SettingsData {
   notifications: boolean;
@@ -274,6 +275,37 @@ export default function SettingsScreen() {
                   {settings.defaultRestTime}s
                 </Text>
               )}
+              {renderSettingItem(
+                Timer,
+                'Fatigue-Adaptive Rest',
+                'Rest longer when a muscle group is highly fatigued',
+                'switch',
+                settings.adaptiveRest,
+                undefined,
+                (value) => updateSetting('adaptiveRest', value)
+              )}
+              {renderSettingItem(
+                Weight,
+                'Weight Units',
+                WEIGHT_UNIT_LABELS[settings.weightUnit],
+                'custom',
+                undefined,
+                () =>
+                  updateSetting(
+                    'weightUnit',
+                    settings.weightUnit === 'kg' ? 'lb' : 'kg'
+                  ),
+                undefined,
+                <Text style={styles.customValue}>{settings.weightUnit}</Text>
+              )}
+              {renderSettingItem(
+                Weight,
+                'Bar & Plates',
+                'Bar weights and the plates you own, for the plate calculator',
+                'navigation',
+                undefined,
+                () => router.push('/settings/plates' as any)
+              )}
               {renderSettingItem(
                 Bell,
                 'Workout Reminders',
@@ -0,0 +1,269 @@
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import { ArrowLeft, Minus, Plus, Save } from 'lucide-react-native';
+import { useRouter } from 'expo-router';
+import { useState, useEffect } from 'react';
+import { useSettings } from '@/hooks/useSettings';
+import { PLATE_SIZES, PlateCount, getBarWeight } from '@/lib/plates';
+import { WEIGHT_INCREMENTS, fromKg, toKg } from '@/lib/units';
+
+const MAX_PAIRS = 10;
+
+export default function PlatesScreen() {
+  const router = useRouter();
+  const { settings, updateSettings, loading } = useSettings();
+  const unit = settings.weightUnit;
+
+  const [barWeight, setBarWeight] = useState(0);
+  const [ezBarWeight, setEzBarWeight] = useState(0);
+  const [pairs, setPairs] = useState<Record<number, number>>({});
+
+  // Bar weights are edited in the user's unit; plates are whatever size
+  // they are marked in, so the inventory is kept per unit
+  const savedBarWeight = fromKg(getBarWeight('barbell', unit, settings), unit);
+  const savedEzBarWeight = fromKg(
+    getBarWeight('e-z curl bar', unit, settings),
+    unit
+  );
+  const savedPairs = Object.fromEntries(
+    settings.plateInventory[unit].map((plate) => [plate.weight, plate.pairs])
+  );
+
+  // Settings load asynchronously; start from them once they're in
+  useEffect(() => {
+    if (loading) return;
+    setBarWeight(savedBarWeight);
+    setEzBarWeight(savedEzBarWeight);
+    setPairs(savedPairs);
+  }, [loading, unit]);
+
+  const hasChanges =
+    !loading &&
+    (barWeight !== savedBarWeight ||
+      ezBarWeight !== savedEzBarWeight ||
+      PLATE_SIZES[unit].some(
+        (size) => (pairs[size] || 0) !== (savedPairs[size] || 0)
+      ));
+
+  const handleSave = async () => {
+    const inventory: PlateCount[] = PLATE_SIZES[unit]
+      .filter((size) => (pairs[size] || 0) > 0)
+      .map((size) => ({ weight: size, pairs: pairs[size] }));
+
+    try {
+      await updateSettings({
+        barWeight: toKg(barWeight, unit),
+        ezBarWeight: toKg(ezBarWeight, unit),
+        plateInventory: { ...settings.plateInventory, [unit]: inventory },
+      });
+      Alert.alert('Success', 'Bar and plates updated successfully!', [
+        { text: 'OK', onPress: () => router.back() },
+      ]);
+    } catch {
+      Alert.alert('Error', 'Failed to update plates. Please try again.');
+    }
+  };
+
+  const adjustPairs = (size: number, increment: number) => {
+    setPairs((prev) => ({
+      ...prev,
+      [size]: Math.max(0, Math.min(MAX_PAIRS, (prev[size] || 0) + increment)),
+    }));
+  };
+
+  const renderAdjuster = (
+    label: string,
+    value: string,
+    onDecrease: () => void,
+    onIncrease: () => void
+  ) => (
+    <View key={label} style={styles.row}>
+      <Text style={styles.rowLabel}>{label}</Text>
+      <View style={styles.adjuster}>
+        <TouchableOpacity style={styles.adjustButton} onPress={onDecrease}>
+          <Minus size={16} color="#6B46C1" />
+        </TouchableOpacity>
+        <Text style={styles.rowValue}>{value}</Text>
+        <TouchableOpacity style={styles.adjustButton} onPress={onIncrease}>
+          <Plus size={16} color="#6B46C1" />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const step = WEIGHT_INCREMENTS[unit];
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <LinearGradient
+        colors={['#0F0F23', '#1A1A2E', '#0F0F23']}
+        style={styles.background}
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => router.back()}
+          >
+            <ArrowLeft size={24} color="#FFFFFF" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Bar & Plates</Text>
+          <TouchableOpacity
+            style={[styles.saveButton, hasChanges && styles.saveButtonActive]}
+            onPress={handleSave}
+            disabled={!hasChanges}
+          >
+            <Save size={20} color={hasChanges ? '#FFFFFF' : '#64748B'} />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          <Text style={styles.sectionTitle}>Bars</Text>
+          <View style={styles.card}>
+            {renderAdjuster(
+              'Barbell',
+              `${barWeight} ${unit}`,
+              () => setBarWeight(Math.max(step, barWeight - step)),
+              () => setBarWeight(barWeight + step)
+            )}
+            {renderAdjuster(
+              'EZ curl bar',
+              `${ezBarWeight} ${unit}`,
+              () => setEzBarWeight(Math.max(step, ezBarWeight - step)),
+              () => setEzBarWeight(ezBarWeight + step)
+            )}
+          </View>
+
+          <Text style={styles.sectionTitle}>Plates ({unit} pairs)</Text>
+          <View style={styles.card}>
+            {PLATE_SIZES[unit].map((size) =>
+              renderAdjuster(
+                `${size} ${unit}`,
+                `${pairs[size] || 0}`,
+                () => adjustPairs(size, -1),
+                () => adjustPairs(size, 1)
+              )
+            )}
+          </View>
+
+          {/* Info */}
+          <View style={styles.infoSection}>
+            <Text style={styles.infoText}>
+              The plate calculator loads barbell sets from these plates, one of
+              each pair per side. Switching weight units uses a separate plate
+              set.
+            </Text>
+          </View>
+        </ScrollView>
+      </LinearGradient>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0F0F23',
+  },
+  background: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1A1A2E',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#1A1A2E',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    textAlign: 'center',
+  },
+  saveButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#1A1A2E',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  saveButtonActive: {
+    backgroundColor: '#6B46C1',
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 30,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    marginBottom: 16,
+  },
+  card: {
+    backgroundColor: '#1A1A2E',
+    borderRadius: 16,
+    paddingHorizontal: 16,
+    marginBottom: 30,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+  },
+  rowLabel: {
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+  adjuster: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  adjustButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#6B46C1' + '20',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  rowValue: {
+    minWidth: 72,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    textAlign: 'center',
+  },
+  infoSection: {
+    alignItems: 'center',
+    marginBottom: 40,
+  },
+  infoText: {
+    fontSize: 14,
+    color: '#64748B',
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+});
@@ -0,0 +1,528 @@
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import { ArrowLeft, Save, Trash2, X, RefreshCw } from 'lucide-react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useAuth } from '@/hooks/useAuth';
+import { useSettings } from '@/hooks/useSettings';
+import {
+  useSupabaseWorkouts,
+  workoutSetFromRecord,
+} from '@/hooks/useSupabaseWorkouts';
+import { WorkoutSet } from '@/types/workout';
+import { SET_TYPE_BADGES, SET_TYPE_COLORS, getSetType } from '@/lib/sets';
+import {
+  getTrackingMode,
+  tracksReps,
+  tracksTime,
+  tracksDistance,
+} from '@/lib/tracking';
+import { WeightUnit, fromKg, toKg } from '@/lib/units';
+
+type EditableField = 'weight' | 'reps' | 'duration' | 'distance';
+
+const FIELD_LABELS: Record<Exclude<EditableField, 'weight'>, string> = {
+  reps: 'reps',
+  duration: 'sec',
+  distance: 'm',
+};
+
+// Sets are edited as text so partially typed numbers ("42.") survive; the
+// weight is shown in the user's unit
+interface EditableSet {
+  set: WorkoutSet;
+  values: Record<EditableField, string>;
+}
+
+const toEditableSet = (set: WorkoutSet, unit: WeightUnit): EditableSet => ({
+  set,
+  values: {
+    weight: set.weight ? fromKg(set.weight, unit).toString() : '',
+    reps: set.reps?.toString() || '',
+    duration: set.duration?.toString() || '',
+    distance: set.distance?.toString() || '',
+  },
+});
+
+const parseField = (value: string): number | undefined => {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) || parsed <= 0 ? undefined : parsed;
+};
+
+const fromEditableSet = (
+  { set, values }: EditableSet,
+  unit: WeightUnit
+): WorkoutSet => {
+  const weight = parseField(values.weight);
+  return {
+    ...set,
+    weight: weight ? toKg(weight, unit) : undefined,
+    reps: parseField(values.reps),
+    duration: parseField(values.duration),
+    distance: parseField(values.distance),
+  };
+};
+
+export default function WorkoutDetailScreen() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { user, loadProfile } = useAuth();
+  const { settings, loading: settingsLoading } = useSettings();
+  const { workouts, loadWorkoutSets, updateWorkout, deleteWorkout } =
+    useSupabaseWorkouts();
+
+  const workout = workouts.find((w) => w.id === id);
+  // Optimistic rows keep their client id until the sync queue delivers them
+  const isSyncing = !!workout && workout.id === workout.client_id;
+
+  const [sets, setSets] = useState<EditableSet[]>([]);
+  const [notes, setNotes] = useState('');
+  const [loadingSets, setLoadingSets] = useState(true);
+  const [hasChanges, setHasChanges] = useState(false);
+  const [setsChanged, setSetsChanged] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!workout || isSyncing || settingsLoading) return;
+
+    setNotes(workout.notes || '');
+    setLoadingSets(true);
+    loadWorkoutSets(workout).then(({ data }) => {
+      setSets(
+        data.map((record) =>
+          toEditableSet(workoutSetFromRecord(record), settings.weightUnit)
+        )
+      );
+      setLoadingSets(false);
+    });
+  }, [workout?.id, isSyncing, settingsLoading]);
+
+  const getFieldsForSet = (set: WorkoutSet): EditableField[] => {
+    const exercise = (workout?.exercises || []).find(
+      (ex) => ex.id === set.exerciseId
+    );
+    const mode = getTrackingMode({
+      category: exercise?.category || 'strength',
+      name: exercise?.name,
+      trackingMode: exercise?.trackingMode,
+    });
+
+    const fields: EditableField[] = [];
+    if (mode === 'reps' || mode === 'weight_distance' || set.weight) {
+      fields.push('weight');
+    }
+    if (tracksReps(mode)) fields.push('reps');
+    if (tracksTime(mode)) fields.push('duration');
+    if (tracksDistance(mode)) fields.push('distance');
+    return fields;
+  };
+
+  const getExerciseName = (exerciseId: string) =>
+    (workout?.exercises || []).find((ex) => ex.id === exerciseId)?.name ||
+    exerciseId;
+
+  const updateField = (setId: string, field: EditableField, value: string) => {
+    setSets((prev) =>
+      prev.map((editable) =>
+        editable.set.id === setId
+          ? { ...editable, values: { ...editable.values, [field]: value } }
+          : editable
+      )
+    );
+    setHasChanges(true);
+    setSetsChanged(true);
+  };
+
+  const removeSet = (setId: string) => {
+    setSets((prev) => prev.filter((editable) => editable.set.id !== setId));
+    setHasChanges(true);
+    setSetsChanged(true);
+  };
+
+  const handleSave = async () => {
+    if (!workout || !user || isSaving) return;
+
+    setIsSaving(true);
+    // Untouched sets aren't sent, so a notes edit leaves set count and XP as
+    // they are
+    const { error } = await updateWorkout(workout, {
+      sets: setsChanged
+        ? sets.map((editable) => fromEditableSet(editable, settings.weightUnit))
+        : undefined,
+      notes,
+    });
+    setIsSaving(false);
+
+    if (error) {
+      Alert.alert('Error', 'Failed to update workout. Please try again.');
+      return;
+    }
+
+    // XP, level and streaks are recomputed on the server
+    await loadProfile(user.id);
+    router.back();
+  };
+
+  const handleDelete = () => {
+    if (!workout || !user) return;
+
+    Alert.alert(
+      'Delete Workout',
+      `This removes the workout and its ${workout.xp_gained} XP, and recalculates your streak and personal records.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const { error } = await deleteWorkout(workout);
+            if (error) {
+              Alert.alert(
+                'Error',
+                'Failed to delete workout. Please try again.'
+              );
+              return;
+            }
+            await loadProfile(user.id);
+            router.back();
+          },
+        },
+      ]
+    );
+  };
+
+  // Group sets under their exercise, in the order they were logged
+  const exerciseOrder = Array.from(
+    new Set(sets.map((editable) => editable.set.exerciseId))
+  );
+
+  const renderSetRow = (editable: EditableSet, index: number) => {
+    const setType = getSetType(editable.set);
+
+    return (
+      <View key={editable.set.id} style={styles.setRow}>
+        <View
+          style={[
+            styles.setBadge,
+            { backgroundColor: SET_TYPE_COLORS[setType] + '30' },
+          ]}
+        >
+          <Text
+            style={[styles.setBadgeText, { color: SET_TYPE_COLORS[setType] }]}
+          >
+            {SET_TYPE_BADGES[setType] || index + 1}
+          </Text>
+        </View>
+        {getFieldsForSet(editable.set).map((field) => (
+          <View key={field} style={styles.fieldGroup}>
+            <TextInput
+              style={styles.fieldInput}
+              value={editable.values[field]}
+              onChangeText={(value) =>
+                updateField(editable.set.id, field, value)
+              }
+              placeholder="0"
+              placeholderTextColor="#64748B"
+              keyboardType="numeric"
+            />
+            <Text style={styles.fieldLabel}>
+              {field === 'weight' ? settings.weightUnit : FIELD_LABELS[field]}
+            </Text>
+          </View>
+        ))}
+        <TouchableOpacity
+          style={styles.removeSetButton}
+          onPress={() => removeSet(editable.set.id)}
+        >
+          <X size={16} color="#EF4444" />
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <LinearGradient
+        colors={['#0F0F23', '#1A1A2E', '#0F0F23']}
+        style={styles.background}
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => router.back()}
+          >
+            <ArrowLeft size={24} color="#FFFFFF" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Workout</Text>
+          <TouchableOpacity
+            style={[styles.saveButton, hasChanges && styles.saveButtonActive]}
+            onPress={handleSave}
+            disabled={!hasChanges || isSaving}
+          >
+            <Save size={20} color={hasChanges ? '#FFFFFF' : '#64748B'} />
+          </TouchableOpacity>
+        </View>
+
+        {!workout ? (
+          <View style={styles.centered}>
+            <ActivityIndicator color="#6B46C1" />
+          </View>
+        ) : (
+          <ScrollView
+            style={styles.content}
+            showsVerticalScrollIndicator={false}
+          >
+            <Text style={styles.workoutDate}>
+              {new Date(workout.date).toLocaleDateString(undefined, {
+                weekday: 'long',
+                month: 'long',
+                day: 'numeric',
+              })}
+            </Text>
+            <Text style={styles.workoutMeta}>
+              {workout.duration} min • {workout.total_sets} sets •{' '}
+              {workout.xp_gained} XP
+            </Text>
+
+            {isSyncing ? (
+              <View style={styles.syncingNotice}>
+                <RefreshCw size={16} color="#F59E0B" />
+                <Text style={styles.syncingText}>
+                  This workout hasn&apos;t finished syncing yet. You can edit it
+                  once it&apos;s uploaded.
+                </Text>
+              </View>
+            ) : loadingSets ? (
+              <ActivityIndicator color="#6B46C1" style={styles.loader} />
+            ) : (
+              <>
+                {exerciseOrder.map((exerciseId) => (
+                  <View key={exerciseId} style={styles.exerciseCard}>
+                    <Text style={styles.exerciseName}>
+                      {getExerciseName(exerciseId)}
+                    </Text>
+                    {sets
+                      .filter(
+                        (editable) => editable.set.exerciseId === exerciseId
+                      )
+                      .map(renderSetRow)}
+                  </View>
+                ))}
+                {sets.length === 0 && (
+                  <Text style={styles.emptyText}>
+                    No sets were logged for this workout.
+                  </Text>
+                )}
+
+                <Text style={styles.notesLabel}>Notes</Text>
+                <TextInput
+                  style={styles.notesInput}
+                  value={notes}
+                  onChangeText={(value) => {
+                    setNotes(value);
+                    setHasChanges(true);
+                  }}
+                  placeholder="How did it go?"
+                  placeholderTextColor="#64748B"
+                  multiline
+                />
+              </>
+            )}
+
+            <TouchableOpacity
+              style={styles.deleteButton}
+              onPress={handleDelete}
+              disabled={isSyncing}
+            >
+              <Trash2 size={18} color="#EF4444" />
+              <Text style={styles.deleteButtonText}>Delete Workout</Text>
+            </TouchableOpacity>
+          </ScrollView>
+        )}
+      </LinearGradient>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0F0F23',
+  },
+  background: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1A1A2E',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#1A1A2E',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    textAlign: 'center',
+  },
+  saveButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#1A1A2E',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  saveButtonActive: {
+    backgroundColor: '#6B46C1',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  workoutDate: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+    marginBottom: 4,
+  },
+  workoutMeta: {
+    fontSize: 14,
+    color: '#94A3B8',
+    marginBottom: 20,
+  },
+  syncingNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    padding: 14,
+    borderRadius: 12,
+    backgroundColor: 'rgba(245, 158, 11, 0.15)',
+    marginBottom: 20,
+  },
+  syncingText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#F59E0B',
+  },
+  loader: {
+    marginVertical: 40,
+  },
+  exerciseCard: {
+    padding: 16,
+    borderRadius: 16,
+    backgroundColor: '#1A1A2E',
+    marginBottom: 16,
+  },
+  exerciseName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    marginBottom: 12,
+  },
+  setRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginBottom: 10,
+  },
+  setBadge: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  setBadgeText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  fieldGroup: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  fieldInput: {
+    flex: 1,
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+    backgroundColor: '#0F0F23',
+    color: '#FFFFFF',
+    fontSize: 15,
+    textAlign: 'center',
+  },
+  fieldLabel: {
+    fontSize: 12,
+    color: '#64748B',
+  },
+  removeSetButton: {
+    padding: 6,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#64748B',
+    marginBottom: 20,
+  },
+  notesLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  notesInput: {
+    minHeight: 80,
+    padding: 14,
+    borderRadius: 12,
+    backgroundColor: '#1A1A2E',
+    color: '#FFFFFF',
+    fontSize: 15,
+    textAlignVertical: 'top',
+  },
+  deleteButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 30,
+    marginBottom: 40,
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#EF4444',
+  },
+  deleteButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#EF4444',
+  },
+});
@@ -7,6 +7,7 @@ import {
   TouchableOpacity,
   Alert,
   Image,
+  TextInput,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { LinearGradient } from 'expo-linear-gradient';
@@ -18,40 +19,105 @@ import {
   Zap,
   MessageCircle,
   Activity,
+  RotateCcw,
+  ChevronUp,
+  ChevronDown,
+  Timer,
 } from 'lucide-react-native';
 import {
   Exercise,
   ActiveWorkout,
   WorkoutSet,
   CompletedWorkout,
+  LoggedSetInput,
+  ProgramDayRef,
 } from '@/types/workout';
 import { exerciseLibrary } from '@/data/exercises';
 import SetTracker from '@/components/SetTracker';
 import RestTimerModal from '@/components/RestTimerModal';
 import WorkoutSummary from '@/components/WorkoutSummary';
 import BoltChat from '@/components/BoltChat';
+import ExercisePickerModal from '@/components/ExercisePickerModal';
+import IntervalTimer from '@/components/IntervalTimer';
 import { useSupabaseWorkouts } from '@/hooks/useSupabaseWorkouts';
 import {
   useSupabaseGamification,
   calculateWorkoutXP,
 } from '@/hooks/useSupabaseGamification';
 import { useAuth } from '@/hooks/useAuth';
-import { FatigueCalculator } from '@/lib/fatigue';
+import { useSettings } from '@/hooks/useSettings';
+import { useTrainingPrograms } from '@/hooks/useTrainingPrograms';
+import {
+  saveActiveWorkout,
+  loadActiveWorkout,
+  clearActiveWorkout,
+} from '@/hooks/useActiveWorkoutStorage';
+import { FatigueCalculator, getSetFatigueFactors } from '@/lib/fatigue';
+import {
+  getGroupIndices,
+  getGroupType,
+  getNextIndexInRound,
+  getNextIndexAfterRest,
+  GROUP_TYPE_LABELS,
+} from '@/lib/supersets';
+import {
+  getLiveSetTiming,
+  getSessionPace,
+  getSetType,
+  getWorkingSets,
+  isWarmupSet,
+  SET_TYPE_BADGES,
+  SET_TYPE_COLORS,
+  SET_TYPE_LABELS,
+} from '@/lib/sets';
+import {
+  formatSetResult,
+  getTrackingMode,
+  getXPSetCount,
+  tracksReps,
+} from '@/lib/tracking';
+import { fromKg, formatWeight } from '@/lib/units';
+import { suggestNextSet } from '@/lib/progression';
+import { NewPersonalRecord, findPersonalRecords } from '@/lib/personalRecords';
+import {
+  moveExercise,
+  getInsertIndexAfter,
+  getAlternativeExercises,
+  getUniqueExerciseId,
+} from '@/lib/workoutQueue';
+import { IntervalConfig, INTERVAL_RPE } from '@/lib/intervals';
+import { getPrescribedRest, getFatigueAdjustedRest } from '@/lib/rest';
+import { estimateWorkoutDuration } from '@/lib/templates';
+import { buildWarmupRamp, needsWarmupRamp } from '@/lib/warmups';
+import { WorkoutSetRecord } from '@/lib/supabase';
+import { countMuscleSets } from '@/lib/volume';
 import FatigueDisplay from '@/components/FatigueDisplay';
+import BodyHeatmap from '@/components/BodyHeatmap';
+
+// Placeholder load for the quick "Log Set" button: an empty Olympic bar
+const EMPTY_BAR_WEIGHT = 20; // kg
 
 // Extended Exercise interface for AI-generated workouts
 interface GeneratedExercise extends Exercise {
   generatedSets?: number;
   generatedReps?: number;
-  generatedWeight?: number;
+  generatedWeight?: number; // kg
 }
 
 export default function ActiveWorkoutScreen() {
   const router = useRouter();
   const params = useLocalSearchParams();
-  const { saveWorkout } = useSupabaseWorkouts();
+  const {
+    personalRecords,
+    saveWorkout,
+    savePersonalRecord,
+    getExerciseHistory,
+    getLastExerciseNote,
+  } = useSupabaseWorkouts();
   const { completeWorkout } = useSupabaseGamification();
+  const { completeProgramDay } = useTrainingPrograms();
   const { loadProfile, user } = useAuth();
+  const { settings } = useSettings();
 
   const [activeWorkout, setActiveWorkout] = useState<ActiveWorkout | null>(
     null
@@ -60,23 +126,43 @@ export default function ActiveWorkoutScreen() {
     useState<GeneratedExercise | null>(null);
   const [currentSetNumber, setCurrentSetNumber] = useState(1);
   const [showRestTimer, setShowRestTimer] = useState(false);
+  const [restDuration, setRestDuration] = useState<number | undefined>(); // in seconds
+  const [restEndsAt, setRestEndsAt] = useState<number | null>(null);
+  const [restNote, setRestNote] = useState<string | undefined>(); // why rest was lengthened
+  const [pendingAdvance, setPendingAdvance] = useState(false); // rest ran out while the app was closed, or none was prescribed
   const [showSummary, setShowSummary] = useState(false);
   const [completedWorkout, setCompletedWorkout] =
     useState<CompletedWorkout | null>(null);
+  const [newRecords, setNewRecords] = useState<NewPersonalRecord[]>([]);
   const [generatedWorkoutData, setGeneratedWorkoutData] = useState<any>(null); // Store original generated workout data
   const [showFullOverview, setShowFullOverview] = useState(false); // State for full overview visibility
   const [showBoltChat, setShowBoltChat] = useState(false);
   const [fatigueCalculator, setFatigueCalculator] =
     useState<FatigueCalculator | null>(null);
   const [showFatigue, setShowFatigue] = useState(false);
+  const [showIntervalTimer, setShowIntervalTimer] = useState(false);
+  const [skippedWarmupIds, setSkippedWarmupIds] = useState<string[]>([]);
+  const [exercisePicker, setExercisePicker] = useState<'add' | 'swap' | null>(
+    null
+  );
+  // Sets logged for each exercise in earlier workouts, for progression
+  const [exerciseHistory, setExerciseHistory] = useState<
+    Record<string, WorkoutSetRecord[]>
+  >({});
+  // Most recent note from an earlier session, by exercise id
+  const [lastNotes, setLastNotes] = useState<
+    Record<string, { note: string; date: string } | null>
+  >({});
 
   useEffect(() => {
-    if (params.exerciseId) {
+    if (params.resume) {
+      resumeWorkout();
+    } else if (params.exerciseId) {
       const exercise = exerciseLibrary.find(
         (ex) => ex.id === params.exerciseId
       );
       if (exercise) {
-        startWorkout([exercise]);
+        confirmStartWorkout([exercise]);
       }
     } else if (params.workoutData) {
       // Handle AI-generated workout
@@ -108,12 +194,15 @@ export default function ActiveWorkoutScreen() {
           setup: [],
           execution: [],
         },
+        groupId: ex.groupId,
+        restTime: ex.restTime,
+        restAfterExercise: ex.restAfterExercise,
         // Store the generated parameters for this exercise
         generatedSets: ex.sets,
         generatedReps: ex.reps,
         generatedWeight: ex.weight,
       }));
-      startWorkout(exercises);
+      confirmStartWorkout(exercises);
     } else if (params.customWorkoutData) {
       // Handle custom workout
       const customWorkout = JSON.parse(params.customWorkoutData as string);
@@ -137,17 +226,165 @@ export default function ActiveWorkoutScreen() {
             setup: [],
             execution: [],
           },
+          groupId: ex.groupId,
+          restTime: ex.restTime,
+          restAfterExercise: ex.restAfterExercise,
+          generatedSets: ex.sets,
+          generatedReps: ex.reps,
+          generatedWeight: ex.weight,
         };
       });
-      startWorkout(exercises);
+      confirmStartWorkout(exercises, customWorkout.programDay);
+    }
+  }, [
+    params.resume,
+    params.exerciseId,
+    params.workoutData,
+    params.customWorkoutData,
+  ]);
+
+  // Persist after every change so a crash or navigating away loses nothing
+  useEffect(() => {
+    if (!activeWorkout) return;
+    saveActiveWorkout({
+      workout: activeWorkout,
+      currentSetNumber,
+      fatigue: fatigueCalculator?.toSnapshot() ?? null,
+      restEndsAt,
+      generatedWorkoutData,
+    });
+  }, [activeWorkout, currentSetNumber, restEndsAt]);
+
+  useEffect(() => {
+    if (pendingAdvance && activeWorkout) {
+      setPendingAdvance(false);
+      advanceAfterRest();
+    }
+  }, [pendingAdvance, activeWorkout]);
+
+  // Fetch earlier sessions of each exercise once, when it comes up
+  useEffect(() => {
+    if (!currentExercise || !user || exerciseHistory[currentExercise.id]) {
+      return;
+    }
+    if (!tracksReps(getTrackingMode(currentExercise))) return;
+
+    const exercise = currentExercise;
+    getExerciseHistory(exercise.id, 50, exercise.name).then(({ data }) => {
+      setExerciseHistory((prev) => ({ ...prev, [exercise.id]: data }));
+    });
+  }, [currentExercise?.id, user]);
+
+  useEffect(() => {
+    if (!currentExercise || !user || currentExercise.id in lastNotes) return;
+
+    const exercise = currentExercise;
+    getLastExerciseNote(exercise.name).then(({ data }) => {
+      setLastNotes((prev) => ({ ...prev, [exercise.id]: data }));
+    });
+  }, [currentExercise?.id, user]);
+
+  const resumeWorkout = async () => {
+    const saved = await loadActiveWorkout();
+    if (!saved) {
+      router.replace('/(tabs)');
+      return;
+    }
+
+    // Rest that ran out while the app was closed ended on schedule
+    const restEnded =
+      saved.restEndsAt !== null && saved.restEndsAt <= Date.now();
+    setActiveWorkout(
+      restEnded
+        ? { ...saved.workout, restEndedAt: saved.restEndsAt ?? undefined }
+        : saved.workout
+    );
+    setCurrentExercise(
+      saved.workout.exercises[saved.workout.currentExerciseIndex]
+    );
+    setCurrentSetNumber(saved.currentSetNumber);
+    setFatigueCalculator(
+      saved.fatigue
+        ? FatigueCalculator.fromSnapshot(saved.fatigue)
+        : new FatigueCalculator()
+    );
+    setGeneratedWorkoutData(saved.generatedWorkoutData ?? null);
+
+    if (saved.restEndsAt) {
+      const secondsLeft = Math.ceil((saved.restEndsAt - Date.now()) / 1000);
+      if (secondsLeft > 0) {
+        startRest(secondsLeft);
+      } else {
+        setPendingAdvance(true);
+      }
     }
-  }, [params.exerciseId, params.workoutData, params.customWorkoutData]);
+  };
+
+  const startRest = (
+    seconds: number = settings.defaultRestTime,
+    note?: string
+  ) => {
+    const now = Date.now();
+    setRestDuration(seconds);
+    setRestNote(note);
+    setRestEndsAt(now + seconds * 1000);
+    setShowRestTimer(true);
+    setActiveWorkout((prev) =>
+      prev ? { ...prev, restStartedAt: now, restEndedAt: undefined } : null
+    );
+  };
+
+  // Rest as the workout prescribes it, stretched when the muscles just
+  // worked are highly fatigued and adaptive rest is on
+  const startPrescribedRest = (
+    exercise: GeneratedExercise,
+    exerciseFinished: boolean
+  ) => {
+    const prescribed = getPrescribedRest(
+      exercise,
+      exerciseFinished,
+      settings.defaultRestTime
+    );
+    if (prescribed <= 0) {
+      // No rest wanted: move on once the set is in state
+      setPendingAdvance(true);
+      return;
+    }
+
+    const fatigue =
+      fatigueCalculator?.getExerciseFatigue(exercise).primaryFatigue;
+    const seconds =
+      settings.adaptiveRest && fatigue !== undefined
+        ? getFatigueAdjustedRest(prescribed, fatigue)
+        : prescribed;
+    const extra = seconds - prescribed;
+    startRest(
+      seconds,
+      extra > 0
+        ? `+${extra}s for ${exercise.muscleGroup.toLowerCase()} fatigue`
+        : undefined
+    );
+  };
 
-  const startWorkout = (exercises: GeneratedExercise[]) => {
+  const endRest = () => {
+    setShowRestTimer(false);
+    setRestEndsAt(null);
+    setActiveWorkout((prev) =>
+      prev && prev.restEndedAt === undefined
+        ? { ...prev, restEndedAt: Date.now() }
+        : prev
+    );
+  };
+
+  const startWorkout = (
+    exercises: GeneratedExercise[],
+    programDay?: ProgramDayRef
+  ) => {
     const workout: ActiveWorkout = {
       id: Date.now().toString(),
       startTime: new Date(),
       exercises,
+      programDay,
       sets: [],
       currentExerciseIndex: 0,
       currentSetIndex: 0,
@@ -163,47 +400,62 @@ export default function ActiveWorkoutScreen() {
     setCurrentExercise(exercises[0]);
   };
 
-  const completeSet = (weight: number, reps: number) => {
+  // Starting over would overwrite a saved workout that was never finished,
+  // so ask first
+  const confirmStartWorkout = async (
+    exercises: GeneratedExercise[],
+    programDay?: ProgramDayRef
+  ) => {
+    const saved = await loadActiveWorkout();
+    if (!saved) {
+      startWorkout(exercises, programDay);
+      return;
+    }
+
+    Alert.alert(
+      'Unfinished Workout',
+      `You have ${saved.workout.sets.length} sets logged in a workout you haven't finished. Starting a new one discards it.`,
+      [
+        { text: 'Resume It', onPress: () => resumeWorkout() },
+        {
+          text: 'Start New',
+          style: 'destructive',
+          onPress: () => startWorkout(exercises, programDay),
+        },
+      ]
+    );
+  };
+
+  // Add a completed set to the session's fatigue
+  const updateSetFatigue = (
+    newSet: WorkoutSet,
+    exercise: GeneratedExercise,
+    defaultRpe?: number,
+    restTime?: number // the set's own rest when missing
+  ) => {
+    if (!fatigueCalculator) return;
+
+    fatigueCalculator.updateFatigue(
+      getSetFatigueFactors(newSet, exercise, defaultRpe, restTime)
+    );
+  };
+
+  const completeSet = (loggedSet: LoggedSetInput) => {
     if (!activeWorkout || !currentExercise) return;
 
+    const setType = loggedSet.setType || 'working';
+    const finishedAt = Date.now();
     const newSet: WorkoutSet = {
-      id: Date.now().toString(),
+      ...loggedSet,
+      ...getLiveSetTiming(loggedSet, activeWorkout, finishedAt),
+      id: finishedAt.toString(),
       exerciseId: currentExercise.id,
-      weight,
-      reps,
+      setType,
       completed: true,
     };
 
     const updatedSets = [...activeWorkout.sets, newSet];
-
-    // Calculate fatigue for the completed set
-    if (fatigueCalculator && currentExercise) {
-      const exerciseVolume = weight * reps;
-      const exerciseDuration = 60; // Assume 60 seconds per set
-      const restTime = 0; // Will be calculated based on previous exercise time
-
-      // Calculate intensity (weight relative to a theoretical max)
-      const estimatedMax = weight * (1 + reps / 30); // Epley formula approximation
-      const intensity = Math.min(weight / estimatedMax, 1.0);
-
-      fatigueCalculator.updateFatigue({
-        exerciseIntensity: intensity,
-        exerciseVolume: exerciseVolume,
-        exerciseDuration: exerciseDuration,
-        restTime: restTime,
-        muscleGroup: currentExercise.muscleGroup,
-        exerciseDifficulty: currentExercise.difficulty,
-      });
-    }
-
-    // Count completed sets for current exercise
-    const completedSetsForCurrentExercise = updatedSets.filter(
-      (set) => set.exerciseId === currentExercise.id && set.completed
-    ).length;
-
-    // Get recommended sets for current exercise (from AI generation or default to 3)
-    const recommendedSets =
-      (currentExercise as GeneratedExercise).generatedSets || 3;
+    updateSetFatigue(newSet, currentExercise);
 
     const currentIndex = activeWorkout.currentExerciseIndex;
 
@@ -213,123 +465,351 @@ export default function ActiveWorkoutScreen() {
       currentExerciseIndex: currentIndex, // Keep tracking index
     });
 
-    // Check if we've completed all recommended sets for this exercise
-    if (completedSetsForCurrentExercise >= recommendedSets) {
-      // Show rest timer before moving to next exercise
-      setShowRestTimer(true);
-    } else {
+    if (setType === 'warmup') {
+      // Warm-ups don't use up a planned set or a superset round
+      startRest();
+      return;
+    }
+
+    // In a superset/circuit, go straight to the next exercise in the round;
+    // rest only comes once the round is over
+    const nextInRound = getNextIndexInRound(
+      activeWorkout.exercises,
+      currentIndex,
+      (index) => isExerciseCompleteInSets(index, updatedSets)
+    );
+
+    if (nextInRound !== null) {
+      goToExercise(nextInRound, updatedSets);
+      return;
+    }
+
+    const exerciseFinished = isExerciseCompleteInSets(
+      currentIndex,
+      updatedSets
+    );
+    if (!exerciseFinished) {
       // Start rest period for next set of same exercise
       setCurrentSetNumber(currentSetNumber + 1);
-      setShowRestTimer(true);
     }
+    startPrescribedRest(currentExercise, exerciseFinished);
   };
 
-  const skipRest = () => {
-    setShowRestTimer(false);
-    // Check if we need to advance to next exercise
-    if (activeWorkout && currentExercise) {
-      const currentIndex = activeWorkout.currentExerciseIndex;
-      const completedSetsForCurrentExercise = activeWorkout.sets.filter(
-        (set) => set.exerciseId === currentExercise.id && set.completed
-      ).length;
-      const recommendedSets =
-        (currentExercise as GeneratedExercise).generatedSets || 3;
-
-      if (completedSetsForCurrentExercise >= recommendedSets) {
-        // Move to next exercise
-        const nextIndex = currentIndex + 1;
-        if (nextIndex < activeWorkout.exercises.length) {
-          const nextExercise = activeWorkout.exercises[
-            nextIndex
-          ] as GeneratedExercise;
-          setCurrentExercise(nextExercise);
-          setCurrentSetNumber(1);
-
-          // Update the current exercise index
-          setActiveWorkout((prev) =>
-            prev
-              ? {
-                  ...prev,
-                  currentExerciseIndex: nextIndex,
-                }
-              : null
-          );
-        } else {
-          // All exercises completed
-          finishWorkout();
-        }
-      }
+  const isExerciseCompleteInSets = (
+    index: number,
+    sets: WorkoutSet[],
+    workout: ActiveWorkout | null = activeWorkout
+  ) => {
+    if (!workout) return true;
+    const exercise = workout.exercises[index] as GeneratedExercise;
+    if (workout.skippedExerciseIds?.includes(exercise.id)) return true;
+    const completedSets = getWorkingSets(sets).filter(
+      (set) => set.exerciseId === exercise.id && set.completed
+    ).length;
+    return completedSets >= getRecommendedSetsForExercise(exercise);
+  };
+
+  const goToExercise = (
+    index: number,
+    sets: WorkoutSet[],
+    workout: ActiveWorkout | null = activeWorkout
+  ) => {
+    if (!workout) return;
+    const exercise = workout.exercises[index] as GeneratedExercise;
+    const completedSets = getWorkingSets(sets).filter(
+      (set) => set.exerciseId === exercise.id && set.completed
+    ).length;
+
+    setCurrentExercise(exercise);
+    setCurrentSetNumber(completedSets + 1);
+
+    // Update the current exercise index
+    setActiveWorkout((prev) =>
+      prev
+        ? {
+            ...prev,
+            currentExerciseIndex: index,
+          }
+        : null
+    );
+  };
+
+  // Once rest is over, start the next round of the current group or move on
+  const advanceAfterRest = () => {
+    if (!activeWorkout || !currentExercise) return;
+
+    const nextIndex = getNextIndexAfterRest(
+      activeWorkout.exercises,
+      activeWorkout.currentExerciseIndex,
+      (index) => isExerciseCompleteInSets(index, activeWorkout.sets)
+    );
+
+    if (nextIndex === -1) {
+      // All exercises completed
+      finishWorkout();
+    } else if (nextIndex !== activeWorkout.currentExerciseIndex) {
+      goToExercise(nextIndex, activeWorkout.sets);
     }
   };
 
-  const completeRest = () => {
-    setShowRestTimer(false);
-    // Check if we need to advance to next exercise
-    if (activeWorkout && currentExercise) {
-      const currentIndex = activeWorkout.currentExerciseIndex;
-      const completedSetsForCurrentExercise = activeWorkout.sets.filter(
-        (set) => set.exerciseId === currentExercise.id && set.completed
-      ).length;
-      const recommendedSets =
-        (currentExercise as GeneratedExercise).generatedSets || 3;
-
-      if (completedSetsForCurrentExercise >= recommendedSets) {
-        // Move to next exercise
-        const nextIndex = currentIndex + 1;
-        if (nextIndex < activeWorkout.exercises.length) {
-          const nextExercise = activeWorkout.exercises[
-            nextIndex
-          ] as GeneratedExercise;
-          setCurrentExercise(nextExercise);
-          setCurrentSetNumber(1);
-
-          // Update the current exercise index
-          setActiveWorkout((prev) =>
-            prev
-              ? {
-                  ...prev,
-                  currentExerciseIndex: nextIndex,
-                }
-              : null
-          );
-        } else {
-          // All exercises completed
-          finishWorkout();
-        }
-      }
+  // Queue edits keep whichever exercise is current selected, wherever it ends
+  // up; logged sets and fatigue belong to sets, so neither needs touching
+  const updateQueue = (
+    exercises: GeneratedExercise[],
+    skippedExerciseIds = activeWorkout?.skippedExerciseIds
+  ): ActiveWorkout | null => {
+    if (!activeWorkout || !currentExercise) return null;
+    const updated: ActiveWorkout = {
+      ...activeWorkout,
+      exercises,
+      skippedExerciseIds,
+      currentExerciseIndex: Math.max(
+        0,
+        exercises.findIndex((ex) => ex.id === currentExercise.id)
+      ),
+    };
+    setActiveWorkout(updated);
+    return updated;
+  };
+
+  const moveExerciseInQueue = (index: number, direction: -1 | 1) => {
+    if (!activeWorkout) return;
+    updateQueue(moveExercise(activeWorkout.exercises, index, direction));
+  };
+
+  // Picking an exercise, skipped or not, means doing it now
+  const jumpToExercise = (index: number) => {
+    if (!activeWorkout) return;
+    const exercise = activeWorkout.exercises[index];
+    const updated = updateQueue(
+      activeWorkout.exercises,
+      activeWorkout.skippedExerciseIds?.filter((id) => id !== exercise.id)
+    );
+    goToExercise(index, activeWorkout.sets, updated);
+  };
+
+  const skipCurrentExercise = () => {
+    if (!activeWorkout || !currentExercise) return;
+    const updated = updateQueue(activeWorkout.exercises, [
+      ...(activeWorkout.skippedExerciseIds || []),
+      currentExercise.id,
+    ]);
+    if (!updated) return;
+
+    endRest();
+    const nextIndex = getNextIndexAfterRest(
+      updated.exercises,
+      updated.currentExerciseIndex,
+      (index) => isExerciseCompleteInSets(index, updated.sets, updated)
+    );
+    if (nextIndex === -1) {
+      finishWorkout(updated);
+    } else {
+      goToExercise(nextIndex, updated.sets, updated);
     }
   };
 
-  const finishWorkout = () => {
+  const toQueuedExercise = (
+    exercise: Exercise,
+    overrides: Partial<GeneratedExercise>
+  ): GeneratedExercise => ({
+    ...exercise,
+    id: getUniqueExerciseId(exercise.id, activeWorkout?.exercises || []),
+    generatedSets: exercise.sets,
+    generatedReps: exercise.reps,
+    generatedWeight: exercise.weight,
+    ...overrides,
+  });
+
+  // Added exercises come up next, after the current superset if there is one
+  const addExercise = (exercise: Exercise) => {
     if (!activeWorkout) return;
+    const exercises = [...activeWorkout.exercises];
+    exercises.splice(
+      getInsertIndexAfter(exercises, activeWorkout.currentExerciseIndex),
+      0,
+      toQueuedExercise(exercise, { groupId: undefined })
+    );
+    updateQueue(exercises);
+    setExercisePicker(null);
+  };
+
+  // The replacement takes over the sets still to do. If the current exercise
+  // already has sets logged it stays in the record, marked as skipped
+  const swapCurrentExercise = (replacement: Exercise) => {
+    if (!activeWorkout || !currentExercise) return;
+    const index = activeWorkout.currentExerciseIndex;
+    const hasLoggedSets = activeWorkout.sets.some(
+      (set) => set.exerciseId === currentExercise.id
+    );
+    const swapped = toQueuedExercise(replacement, {
+      groupId: currentExercise.groupId,
+      generatedSets: Math.max(
+        1,
+        getRecommendedSetsForExercise(currentExercise) -
+          getCompletedSetsForExercise(currentExercise.id)
+      ),
+      generatedReps: currentExercise.generatedReps ?? replacement.reps,
+      generatedWeight: undefined,
+      restTime: currentExercise.restTime,
+      restAfterExercise: currentExercise.restAfterExercise,
+    });
+
+    const exercises = [...activeWorkout.exercises];
+    if (hasLoggedSets) {
+      exercises.splice(index + 1, 0, swapped);
+    } else {
+      exercises[index] = swapped;
+    }
+    const updated: ActiveWorkout = {
+      ...activeWorkout,
+      exercises,
+      skippedExerciseIds: hasLoggedSets
+        ? [...(activeWorkout.skippedExerciseIds || []), currentExercise.id]
+        : activeWorkout.skippedExerciseIds,
+    };
+    setActiveWorkout(updated);
+    goToExercise(exercises.indexOf(swapped), updated.sets, updated);
+    setExercisePicker(null);
+  };
+
+  // Rounds arrive from the interval timer while it runs, several at once if
+  // the app was in the background, so sets are appended to the latest state
+  const logIntervalRound = (
+    loggedSet: LoggedSetInput,
+    config: IntervalConfig
+  ) => {
+    if (!currentExercise) return;
+    const exerciseId = currentExercise.id;
+    const newSet: WorkoutSet = {
+      ...loggedSet,
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+      exerciseId,
+      completed: true,
+    };
+    updateSetFatigue(
+      newSet,
+      currentExercise,
+      INTERVAL_RPE[config.mode],
+      config.restSeconds
+    );
+    setActiveWorkout((prev) =>
+      prev ? { ...prev, sets: [...prev.sets, newSet] } : null
+    );
+  };
+
+  // However many rounds were logged become the exercise's sets; with none
+  // logged the exercise counts as skipped
+  const finishIntervals = () => {
+    setShowIntervalTimer(false);
+    if (!activeWorkout || !currentExercise) return;
+
+    const rounds = getCompletedSetsForExercise(currentExercise.id);
+    const updated: ActiveWorkout = {
+      ...activeWorkout,
+      exercises: activeWorkout.exercises.map((exercise) =>
+        exercise.id === currentExercise.id
+          ? { ...exercise, generatedSets: rounds }
+          : exercise
+      ),
+      skippedExerciseIds:
+        rounds > 0
+          ? activeWorkout.skippedExerciseIds
+          : [...(activeWorkout.skippedExerciseIds || []), currentExercise.id],
+    };
+    setActiveWorkout(updated);
+
+    const nextIndex = getNextIndexAfterRest(
+      updated.exercises,
+      updated.currentExerciseIndex,
+      (index) => isExerciseCompleteInSets(index, updated.sets, updated)
+    );
+    if (nextIndex === -1) {
+      finishWorkout(updated);
+    } else {
+      goToExercise(nextIndex, updated.sets, updated);
+    }
+  };
+
+  const updateExerciseNote = (exerciseId: string, note: string) => {
+    setActiveWorkout((prev) =>
+      prev
+        ? {
+            ...prev,
+            exerciseNotes: { ...prev.exerciseNotes, [exerciseId]: note },
+          }
+        : null
+    );
+  };
+
+  const handleExerciseOptions = () => {
+    Alert.alert('Edit Workout', undefined, [
+      { text: 'Add Exercise', onPress: () => setExercisePicker('add') },
+      {
+        text: 'Skip Exercise',
+        style: 'destructive',
+        onPress: skipCurrentExercise,
+      },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const skipRest = () => {
+    endRest();
+    advanceAfterRest();
+  };
+
+  const completeRest = () => {
+    endRest();
+    advanceAfterRest();
+  };
+
+  const finishWorkout = (finished: ActiveWorkout | null = activeWorkout) => {
+    if (!finished) return;
 
     const endTime = new Date();
     const duration = Math.round(
-      (endTime.getTime() - activeWorkout.startTime.getTime()) / (1000 * 60)
+      (endTime.getTime() - finished.startTime.getTime()) / (1000 * 60)
+    );
+    // Warm-ups are logged but don't count as sets done
+    const totalSets = getWorkingSets(finished.sets).length;
+
+    // Skipped exercises only stay in the record if something was logged
+    const exercises = finished.exercises.filter(
+      (exercise) =>
+        !finished.skippedExerciseIds?.includes(exercise.id) ||
+        finished.sets.some((set) => set.exerciseId === exercise.id)
     );
-    const totalSets = activeWorkout.sets.length;
 
-    // Use centralized XP calculation
+    // Use centralized XP calculation; warm-up sets don't earn XP and long
+    // timed or distance sets count as several
     const xpGained = calculateWorkoutXP(
-      totalSets,
+      getXPSetCount(getWorkingSets(finished.sets)),
       duration,
-      activeWorkout.exercises.length
+      exercises.length
     );
 
     const workout: CompletedWorkout = {
-      id: activeWorkout.id,
-      date: activeWorkout.startTime,
+      id: finished.id,
+      date: finished.startTime,
       duration,
-      exercises: activeWorkout.exercises,
+      exercises,
+      sets: finished.sets,
       totalSets,
       xpGained,
+      exerciseNotes: finished.exerciseNotes,
     };
 
     setCompletedWorkout(workout);
+    setNewRecords(
+      workout.exercises.flatMap((exercise) =>
+        findPersonalRecords(workout.sets, exercise, personalRecords)
+      )
+    );
     setShowSummary(true);
   };
 
-  const handleSaveWorkout = async () => {
+  const handleSaveWorkout = async (notes?: string) => {
     if (completedWorkout) {
       try {
         console.log('Saving workout and awarding XP...');
@@ -338,18 +818,37 @@ export default function ActiveWorkoutScreen() {
         // Save to Supabase
         await saveWorkout({
           duration: completedWorkout.duration,
-          exercises: completedWorkout.exercises,
+          // Exercise notes travel with each exercise so the next session can
+          // find them
+          exercises: completedWorkout.exercises.map((exercise) => ({
+            ...exercise,
+            notes: completedWorkout.exerciseNotes?.[exercise.id],
+          })),
+          sets: completedWorkout.sets,
           total_sets: completedWorkout.totalSets,
           xp_gained: completedWorkout.xpGained, // Make sure this matches the UI
+          notes,
         });
+        // The save is queued, so relaunching mustn't offer to resume (and
+        // save again) the same workout
+        await clearActiveWorkout();
+
+        if (activeWorkout?.programDay) {
+          await completeProgramDay(activeWorkout.programDay);
+        }
 
         // Update gamification stats and await completion
         const result = await completeWorkout(
           completedWorkout.exercises.map((ex) => ex.id),
           completedWorkout.duration,
-          completedWorkout.totalSets
+          getXPSetCount(getWorkingSets(completedWorkout.sets))
         );
 
+        // Records are weight/reps based; timed and cardio sets don't qualify
+        for (const record of newRecords) {
+          await savePersonalRecord(record);
+        }
+
         console.log('Workout saved and XP awarded:', result);
         console.log(
           'XP from UI:',
@@ -381,22 +880,33 @@ export default function ActiveWorkoutScreen() {
   const handleEndWorkout = () => {
     Alert.alert('End Workout', 'Are you sure you want to end this workout?', [
       { text: 'Cancel', style: 'cancel' },
-      { text: 'End Workout', style: 'destructive', onPress: finishWorkout },
+      {
+        text: 'End Workout',
+        style: 'destructive',
+        onPress: () => finishWorkout(),
+      },
     ]);
   };
 
+  // The last working set pre-fills the next one; a warm-up's lighter load
+  // would carry over to the first working set otherwise
   const getPreviousSet = (): WorkoutSet | undefined => {
     if (!activeWorkout || !currentExercise) return undefined;
 
-    const exerciseSets = activeWorkout.sets.filter(
+    const exerciseSets = getWorkingSets(activeWorkout.sets).filter(
       (set) => set.exerciseId === currentExercise.id
     );
     return exerciseSets[exerciseSets.length - 1];
   };
 
+  const getLoggedSetsForExercise = (exerciseId: string): WorkoutSet[] => {
+    if (!activeWorkout) return [];
+    return activeWorkout.sets.filter((set) => set.exerciseId === exerciseId);
+  };
+
   const getCompletedSetsForExercise = (exerciseId: string): number => {
     if (!activeWorkout) return 0;
-    return activeWorkout.sets.filter(
+    return getWorkingSets(activeWorkout.sets).filter(
       (set) => set.exerciseId === exerciseId && set.completed
     ).length;
   };
@@ -407,6 +917,39 @@ export default function ActiveWorkoutScreen() {
     return exercise.generatedSets || 3;
   };
 
+  const getGroupLabel = (index: number): string | null => {
+    if (!activeWorkout) return null;
+    const groupType = getGroupType(
+      getGroupIndices(activeWorkout.exercises, index).length
+    );
+    return groupType ? GROUP_TYPE_LABELS[groupType] : null;
+  };
+
+  // Round progress for the superset/circuit the current exercise belongs to
+  const getCurrentGroupInfo = () => {
+    if (!activeWorkout) return null;
+    const label = getGroupLabel(activeWorkout.currentExerciseIndex);
+    if (!label) return null;
+
+    const group = getGroupIndices(
+      activeWorkout.exercises,
+      activeWorkout.currentExerciseIndex
+    ).map((i) => activeWorkout.exercises[i] as GeneratedExercise);
+    const totalRounds = Math.max(
+      ...group.map((exercise) => getRecommendedSetsForExercise(exercise))
+    );
+    const roundsDone = Math.min(
+      ...group.map((exercise) => getCompletedSetsForExercise(exercise.id))
+    );
+
+    return {
+      label,
+      round: Math.min(roundsDone + 1, totalRounds),
+      totalRounds,
+      names: group.map((exercise) => exercise.name),
+    };
+  };
+
   const isExerciseCompleted = (exercise: GeneratedExercise): boolean => {
     const completed = getCompletedSetsForExercise(exercise.id);
     const recommended = getRecommendedSetsForExercise(exercise);
@@ -432,6 +975,36 @@ export default function ActiveWorkoutScreen() {
     return `${minutes}:${seconds.toString().padStart(2, '0')}`;
   };
 
+  // Time the sets still planned should take at the pace of the session so
+  // far, falling back to the prescribed rest until some has been measured
+  const getMinutesLeft = () => {
+    if (!activeWorkout) return 0;
+
+    const pace = getSessionPace(activeWorkout.sets);
+    const remaining = (activeWorkout.exercises as GeneratedExercise[])
+      .filter(
+        (exercise) => !activeWorkout.skippedExerciseIds?.includes(exercise.id)
+      )
+      .map((exercise) => ({
+        sets: Math.max(
+          0,
+          getRecommendedSetsForExercise(exercise) -
+            getCompletedSetsForExercise(exercise.id)
+        ),
+        restTime:
+          pace.restSeconds ??
+          getPrescribedRest(exercise, false, settings.defaultRestTime),
+        restAfterExercise: getPrescribedRest(
+          exercise,
+          true,
+          settings.defaultRestTime
+        ),
+      }))
+      .filter((exercise) => exercise.sets > 0);
+
+    return estimateWorkoutDuration(remaining, pace.setSeconds);
+  };
+
   const handleWorkoutModified = (modifiedWorkout: any) => {
     // Update the active workout with modified exercises
     if (activeWorkout) {
@@ -452,8 +1025,14 @@ export default function ActiveWorkoutScreen() {
     return (
       <WorkoutSummary
         workout={completedWorkout}
-        onClose={() => router.replace('/(tabs)')} // Navigate to home instead of back
+        onClose={() => {
+          // The workout is finished either way, so there's nothing to resume
+          clearActiveWorkout();
+          router.replace('/(tabs)'); // Navigate to home instead of back
+        }}
         onSaveWorkout={handleSaveWorkout}
+        weightUnit={settings.weightUnit}
+        personalRecords={newRecords}
       />
     );
   }
@@ -468,6 +1047,37 @@ export default function ActiveWorkoutScreen() {
     );
   }
 
+  const groupInfo = getCurrentGroupInfo();
+  const trackingMode = getTrackingMode(currentExercise);
+  // HIIT exercises are logged round by round from the interval timer
+  const isIntervalExercise = currentExercise.category === 'hiit';
+  const progression = exerciseHistory[currentExercise.id]
+    ? suggestNextSet(
+        exerciseHistory[currentExercise.id],
+        currentExercise,
+        settings.weightUnit,
+        currentExercise.generatedReps || currentExercise.reps
+      )
+    : undefined;
+
+  // Ramp sets still to do; any warm-ups already logged count against it
+  const warmupRamp =
+    !skippedWarmupIds.includes(currentExercise.id) &&
+    needsWarmupRamp(
+      currentExercise,
+      activeWorkout.exercises,
+      activeWorkout.sets
+    )
+      ? buildWarmupRamp(
+          currentExercise,
+          progression?.weight ?? currentExercise.generatedWeight ?? 0,
+          settings.weightUnit
+        ).slice(
+          getLoggedSetsForExercise(currentExercise.id).filter(isWarmupSet)
+            .length
+        )
+      : [];
+
   return (
     <SafeAreaView style={styles.container}>
       <LinearGradient
@@ -486,7 +1096,9 @@ export default function ActiveWorkoutScreen() {
             <Text style={styles.headerTitle}>
               {currentExercise?.name || 'Workout'}
             </Text>
-            <Text style={styles.headerSubtitle}>{getWorkoutDuration()}</Text>
+            <Text style={styles.headerSubtitle}>
+              {getWorkoutDuration()} · ~{getMinutesLeft()} min left
+            </Text>
           </View>
           <TouchableOpacity style={styles.endButton} onPress={handleEndWorkout}>
             <Text style={styles.endButtonText}>End</Text>
@@ -538,79 +1150,424 @@ export default function ActiveWorkoutScreen() {
               <Text style={styles.actionButtonText}>History</Text>
             </TouchableOpacity>
 
-            <TouchableOpacity style={styles.actionButton}>
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => setExercisePicker('swap')}
+            >
               <RotateCcw size={16} color="#FFFFFF" />
               <Text style={styles.actionButtonText}>Replace</Text>
             </TouchableOpacity>
 
-            <TouchableOpacity style={styles.actionButton}>
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={handleExerciseOptions}
+            >
               <Text style={styles.actionButtonText}>⋯</Text>
             </TouchableOpacity>
           </View>
 
+          {/* Muscle Map */}
+          <TouchableOpacity
+            style={styles.muscleMapToggle}
+            onPress={() => setShowFatigue(!showFatigue)}
+          >
+            <Text style={styles.muscleMapToggleText}>Muscle Map</Text>
+            {showFatigue ? (
+              <ChevronUp size={18} color="#94A3B8" />
+            ) : (
+              <ChevronDown size={18} color="#94A3B8" />
+            )}
+          </TouchableOpacity>
+          {showFatigue && (
+            <View style={styles.muscleMap}>
+              <BodyHeatmap
+                fatigue={Object.fromEntries(
+                  (fatigueCalculator?.getAllFatigueLevels() || []).map(
+                    (fatigue) => [fatigue.muscle, fatigue.fatigueLevel]
+                  )
+                )}
+                volume={countMuscleSets(
+                  activeWorkout.sets,
+                  activeWorkout.exercises
+                )}
+                volumeLabel="this session"
+              />
+            </View>
+          )}
+
           {/* Sets Logging Section */}
           {currentExercise && (
             <View style={styles.setsSection}>
               <Text style={styles.setsTitle}>Log Sets</Text>
 
-              {/* Generate sets based on recommended sets */}
-              {Array.from(
-                {
-                  length:
-                    (currentExercise as GeneratedExercise).generatedSets || 3,
-                },
-                (_, index) => {
-                  const setNumber = index + 1;
-                  const isCompleted =
-                    getCompletedSetsForExercise(currentExercise.id) >=
-                    setNumber;
-                  const isCurrentSet = setNumber === currentSetNumber;
+              {lastNotes[currentExercise.id] && (
+                <View style={styles.lastNoteBanner}>
+                  <Text style={styles.lastNoteLabel}>
+                    Note from{' '}
+                    {new Date(
+                      lastNotes[currentExercise.id]!.date
+                    ).toLocaleDateString()}
+                  </Text>
+                  <Text style={styles.lastNoteText}>
+                    {lastNotes[currentExercise.id]!.note}
+                  </Text>
+                </View>
+              )}
 
-                  return (
-                    <View key={setNumber} style={styles.setRow}>
+              <TextInput
+                style={styles.exerciseNoteInput}
+                value={activeWorkout.exerciseNotes?.[currentExercise.id] || ''}
+                onChangeText={(text) =>
+                  updateExerciseNote(currentExercise.id, text)
+                }
+                placeholder="Exercise note, e.g. seat at notch 4"
+                placeholderTextColor="#64748B"
+                maxLength={200}
+              />
+
+              {groupInfo && (
+                <View style={styles.groupBanner}>
+                  <Text style={styles.groupBannerTitle}>
+                    {groupInfo.label} • Round {groupInfo.round} of{' '}
+                    {groupInfo.totalRounds}
+                  </Text>
+                  <Text style={styles.groupBannerText}>
+                    {groupInfo.names.join(' → ')}
+                  </Text>
+                </View>
+              )}
+
+              {isIntervalExercise && (
+                <View style={styles.intervalCard}>
+                  <View style={styles.intervalHeader}>
+                    <Timer size={20} color="#6B46C1" />
+                    <Text style={styles.intervalTitle}>Interval Training</Text>
+                  </View>
+                  <Text style={styles.intervalText}>
+                    EMOM, AMRAP, Tabata or your own work and rest. Every round
+                    you finish is logged as a set.
+                  </Text>
+
+                  {getWorkingSets(
+                    getLoggedSetsForExercise(currentExercise.id)
+                  ).map((set, index) => (
+                    <View key={set.id} style={styles.intervalRoundRow}>
+                      <Text style={styles.intervalRoundLabel}>
+                        Round {index + 1}
+                      </Text>
+                      <Text style={styles.intervalRoundValue}>
+                        {formatSetResult(set, settings.weightUnit)}
+                      </Text>
+                    </View>
+                  ))}
+
+                  <TouchableOpacity
+                    style={styles.intervalButton}
+                    onPress={() => setShowIntervalTimer(true)}
+                  >
+                    <Text style={styles.intervalButtonText}>
+                      {getCompletedSetsForExercise(currentExercise.id) > 0
+                        ? 'Start More Intervals'
+                        : 'Start Intervals'}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+
+              {/* Warm-up sets are logged on top of the planned sets */}
+              {!isIntervalExercise &&
+                getLoggedSetsForExercise(currentExercise.id)
+                  .filter(isWarmupSet)
+                  .map((set) => (
+                    <View
+                      key={set.id}
+                      style={[styles.setRow, styles.warmupSetRow]}
+                    >
                       <View style={styles.setHeader}>
-                        {isCompleted ? (
-                          <View style={styles.completedSetIndicator}>
-                            <Text style={styles.completedSetText}>✓</Text>
-                          </View>
+                        <View
+                          style={[
+                            styles.setTypeIndicator,
+                            { backgroundColor: SET_TYPE_COLORS.warmup },
+                          ]}
+                        >
+                          <Text style={styles.completedSetText}>
+                            {SET_TYPE_BADGES.warmup}
+                          </Text>
+                        </View>
+                      </View>
+
+                      <View style={styles.setInputs}>
+                        {tracksReps(trackingMode) ? (
+                          <>
+                            <View style={styles.inputGroup}>
+                              <Text style={styles.inputLabel}>Reps</Text>
+                              <Text style={styles.warmupSetValue}>
+                                {set.reps}
+                              </Text>
+                            </View>
+                            <View style={styles.inputGroup}>
+                              <Text style={styles.inputLabel}>
+                                Weight ({settings.weightUnit})
+                              </Text>
+                              <Text style={styles.warmupSetValue}>
+                                {fromKg(set.weight || 0, settings.weightUnit)}
+                              </Text>
+                            </View>
+                          </>
                         ) : (
-                          <View style={styles.setNumberIndicator}>
-                            <Text style={styles.setNumberText}>
-                              {setNumber}
+                          <View style={styles.inputGroup}>
+                            <Text style={styles.inputLabel}>Result</Text>
+                            <Text style={styles.warmupSetValue}>
+                              {formatSetResult(set, settings.weightUnit)}
                             </Text>
                           </View>
                         )}
+                        <View style={styles.inputGroup}>
+                          <Text
+                            style={[
+                              styles.setTypeLabel,
+                              { color: SET_TYPE_COLORS.warmup },
+                            ]}
+                          >
+                            {SET_TYPE_LABELS.warmup}
+                          </Text>
+                        </View>
+                      </View>
+                    </View>
+                  ))}
+
+              {/* Suggested ramp up to the first heavy lift for a muscle group */}
+              {!isIntervalExercise && warmupRamp.length > 0 && (
+                <View style={styles.warmupRamp}>
+                  <View style={styles.warmupRampHeader}>
+                    <Text style={styles.warmupRampTitle}>Warm-up Ramp</Text>
+                    <TouchableOpacity
+                      onPress={() =>
+                        setSkippedWarmupIds((prev) => [
+                          ...prev,
+                          currentExercise.id,
+                        ])
+                      }
+                    >
+                      <Text style={styles.warmupRampSkip}>Skip</Text>
+                    </TouchableOpacity>
+                  </View>
+
+                  {warmupRamp.map((step, index) => (
+                    <View
+                      key={`${step.weight}-${step.reps}`}
+                      style={[styles.setRow, styles.warmupSetRow]}
+                    >
+                      <View style={styles.setHeader}>
+                        <View
+                          style={[
+                            styles.setTypeIndicator,
+                            { backgroundColor: SET_TYPE_COLORS.warmup },
+                          ]}
+                        >
+                          <Text style={styles.completedSetText}>
+                            {SET_TYPE_BADGES.warmup}
+                          </Text>
+                        </View>
                       </View>
 
                       <View style={styles.setInputs}>
                         <View style={styles.inputGroup}>
                           <Text style={styles.inputLabel}>Reps</Text>
-                          <Text style={styles.inputValue}>
-                            {(currentExercise as GeneratedExercise)
-                              .generatedReps || 10}
-                          </Text>
-                          {setNumber === 2 && (
-                            <Text style={styles.inputSubtext}>Per Side</Text>
-                          )}
+                          <Text style={styles.warmupSetValue}>{step.reps}</Text>
                         </View>
-
                         <View style={styles.inputGroup}>
-                          <Text style={styles.inputLabel}>Weight (lb)</Text>
-                          <Text style={styles.inputValue}>
-                            {(currentExercise as GeneratedExercise)
-                              .generatedWeight || 45}
+                          <Text style={styles.inputLabel}>
+                            Weight ({settings.weightUnit})
                           </Text>
-                          {setNumber === 2 && (
-                            <Text style={styles.inputSubtext}>
-                              Bar + Plates
-                            </Text>
+                          <Text style={styles.warmupSetValue}>
+                            {fromKg(step.weight, settings.weightUnit)}
+                          </Text>
+                        </View>
+                        <View style={styles.inputGroup}>
+                          {index === 0 && (
+                            <TouchableOpacity
+                              style={styles.warmupLogButton}
+                              onPress={() =>
+                                completeSet({
+                                  weight: step.weight,
+                                  reps: step.reps,
+                                  setType: 'warmup',
+                                })
+                              }
+                            >
+                              <Text style={styles.warmupLogButtonText}>
+                                Log
+                              </Text>
+                            </TouchableOpacity>
                           )}
                         </View>
                       </View>
                     </View>
-                  );
-                }
+                  ))}
+                </View>
               )}
+
+              {/* Generate sets based on recommended sets */}
+              {!isIntervalExercise &&
+                Array.from(
+                  {
+                    length:
+                      (currentExercise as GeneratedExercise).generatedSets || 3,
+                  },
+                  (_, index) => {
+                    const setNumber = index + 1;
+                    const isCompleted =
+                      getCompletedSetsForExercise(currentExercise.id) >=
+                      setNumber;
+                    const isCurrentSet = setNumber === currentSetNumber;
+                    const loggedSets = getLoggedSetsForExercise(
+                      currentExercise.id
+                    );
+                    const loggedSet = getWorkingSets(loggedSets)[index];
+                    const loggedSetType = loggedSet
+                      ? getSetType(loggedSet)
+                      : 'working';
+
+                    if (isCurrentSet && !isCompleted) {
+                      return (
+                        <SetTracker
+                          key={`${currentExercise.id}-${setNumber}-${loggedSets.length}`}
+                          setNumber={setNumber}
+                          onCompleteSet={completeSet}
+                          previousSet={getPreviousSet()}
+                          exerciseType={currentExercise.category}
+                          trackingMode={trackingMode}
+                          exerciseData={currentExercise}
+                          generatedSets={currentExercise.generatedSets}
+                          generatedReps={currentExercise.generatedReps}
+                          generatedWeight={currentExercise.generatedWeight}
+                          progression={progression}
+                          weightUnit={settings.weightUnit}
+                        />
+                      );
+                    }
+
+                    return (
+                      <View key={setNumber} style={styles.setRow}>
+                        <View style={styles.setHeader}>
+                          {isCompleted && loggedSetType !== 'working' ? (
+                            <View
+                              style={[
+                                styles.setTypeIndicator,
+                                {
+                                  backgroundColor:
+                                    SET_TYPE_COLORS[loggedSetType],
+                                },
+                              ]}
+                            >
+                              <Text style={styles.completedSetText}>
+                                {SET_TYPE_BADGES[loggedSetType]}
+                              </Text>
+                            </View>
+                          ) : isCompleted ? (
+                            <View style={styles.completedSetIndicator}>
+                              <Text style={styles.completedSetText}>✓</Text>
+                            </View>
+                          ) : (
+                            <View style={styles.setNumberIndicator}>
+                              <Text style={styles.setNumberText}>
+                                {setNumber}
+                              </Text>
+                            </View>
+                          )}
+                        </View>
+
+                        <View style={styles.setInputs}>
+                          {tracksReps(trackingMode) ? (
+                            <>
+                              <View style={styles.inputGroup}>
+                                <Text style={styles.inputLabel}>Reps</Text>
+                                <Text style={styles.inputValue}>
+                                  {loggedSet?.reps ??
+                                    ((currentExercise as GeneratedExercise)
+                                      .generatedReps ||
+                                      10)}
+                                </Text>
+                                {setNumber === 2 && (
+                                  <Text style={styles.inputSubtext}>
+                                    Per Side
+                                  </Text>
+                                )}
+                              </View>
+
+                              <View style={styles.inputGroup}>
+                                <Text style={styles.inputLabel}>
+                                  Weight ({settings.weightUnit})
+                                </Text>
+                                <Text style={styles.inputValue}>
+                                  {fromKg(
+                                    loggedSet?.weight ??
+                                      ((currentExercise as GeneratedExercise)
+                                        .generatedWeight ||
+                                        EMPTY_BAR_WEIGHT),
+                                    settings.weightUnit
+                                  )}
+                                </Text>
+                                {setNumber === 2 && (
+                                  <Text style={styles.inputSubtext}>
+                                    Bar + Plates
+                                  </Text>
+                                )}
+                              </View>
+                            </>
+                          ) : (
+                            <View style={styles.inputGroup}>
+                              <Text style={styles.inputLabel}>Result</Text>
+                              <Text style={styles.inputValue}>
+                                {loggedSet
+                                  ? formatSetResult(
+                                      loggedSet,
+                                      settings.weightUnit
+                                    )
+                                  : '—'}
+                              </Text>
+                            </View>
+                          )}
+
+                          {loggedSet?.rpe !== undefined && (
+                            <View style={styles.inputGroup}>
+                              <Text style={styles.inputLabel}>RPE</Text>
+                              <Text style={styles.inputValue}>
+                                {loggedSet.rpe}
+                              </Text>
+                            </View>
+                          )}
+
+                          {loggedSet?.note && (
+                            <View style={styles.inputGroup}>
+                              <Text style={styles.inputLabel}>Note</Text>
+                              <Text
+                                style={styles.setNoteText}
+                                numberOfLines={2}
+                              >
+                                {loggedSet.note}
+                              </Text>
+                            </View>
+                          )}
+
+                          {loggedSetType !== 'working' && (
+                            <View style={styles.inputGroup}>
+                              <Text
+                                style={[
+                                  styles.setTypeLabel,
+                                  { color: SET_TYPE_COLORS[loggedSetType] },
+                                ]}
+                              >
+                                {SET_TYPE_LABELS[loggedSetType]}
+                              </Text>
+                            </View>
+                          )}
+                        </View>
+                      </View>
+                    );
+                  }
+                )}
             </View>
           )}
 
@@ -664,13 +1621,16 @@ export default function ActiveWorkoutScreen() {
                               reps
                               {(exercise as GeneratedExercise)
                                 .generatedWeight &&
-                                ` • ${
+                                ` • ${formatWeight(
                                   (exercise as GeneratedExercise)
-                                    .generatedWeight
-                                } lb`}
+                                    .generatedWeight || 0,
+                                  settings.weightUnit
+                                )}`}
                             </Text>
                             <Text style={styles.nextExerciseMuscle}>
                               {exercise.muscleGroup}
+                              {getGroupLabel(actualIndex) &&
+                                ` • ${getGroupLabel(actualIndex)}`}
                             </Text>
                           </View>
                           <View style={styles.nextExerciseStatus}>
@@ -738,15 +1698,19 @@ export default function ActiveWorkoutScreen() {
                       const isCompleted = isExerciseCompleted(
                         exercise as GeneratedExercise
                       );
+                      const isSkipped =
+                        activeWorkout.skippedExerciseIds?.includes(exercise.id);
 
                       return (
-                        <View
+                        <TouchableOpacity
                           key={exercise.id}
                           style={[
                             styles.overviewExerciseItem,
                             isCurrent && styles.currentOverviewItem,
                             isCompleted && styles.completedOverviewItem,
                           ]}
+                          disabled={isCurrent}
+                          onPress={() => jumpToExercise(index)}
                         >
                           <View style={styles.overviewExerciseNumber}>
                             <Text
@@ -777,8 +1741,37 @@ export default function ActiveWorkoutScreen() {
                               ]}
                             >
                               {exercise.muscleGroup}
+                              {isSkipped && ' • Skipped'}
                             </Text>
                           </View>
+                          <View style={styles.reorderButtons}>
+                            <TouchableOpacity
+                              style={styles.reorderButton}
+                              disabled={index === 0}
+                              onPress={() => moveExerciseInQueue(index, -1)}
+                            >
+                              <ChevronUp
+                                size={16}
+                                color={index === 0 ? '#334155' : '#94A3B8'}
+                              />
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                              style={styles.reorderButton}
+                              disabled={
+                                index === activeWorkout.exercises.length - 1
+                              }
+                              onPress={() => moveExerciseInQueue(index, 1)}
+                            >
+                              <ChevronDown
+                                size={16}
+                                color={
+                                  index === activeWorkout.exercises.length - 1
+                                    ? '#334155'
+                                    : '#94A3B8'
+                                }
+                              />
+                            </TouchableOpacity>
+                          </View>
                           <View style={styles.overviewExerciseProgress}>
                             <Text
                               style={[
@@ -796,7 +1789,7 @@ export default function ActiveWorkoutScreen() {
                               <Text style={styles.currentIndicator}>●</Text>
                             )}
                           </View>
-                        </View>
+                        </TouchableOpacity>
                       );
                     })}
                   </LinearGradient>
@@ -824,7 +1817,7 @@ export default function ActiveWorkoutScreen() {
                   <View style={styles.progressStat}>
                     <Target size={20} color="#10B981" />
                     <Text style={styles.progressValue}>
-                      {activeWorkout.sets.length}
+                      {getWorkingSets(activeWorkout.sets).length}
                     </Text>
                     <Text style={styles.progressLabel}>Sets</Text>
                   </View>
@@ -846,17 +1839,24 @@ export default function ActiveWorkoutScreen() {
               <Text style={styles.logAllButtonText}>Log All Sets</Text>
             </TouchableOpacity>
 
-            <TouchableOpacity
-              style={styles.logSetButton}
-              onPress={() =>
-                completeSet(
-                  (currentExercise as GeneratedExercise).generatedWeight || 45,
-                  (currentExercise as GeneratedExercise).generatedReps || 10
-                )
-              }
-            >
-              <Text style={styles.logSetButtonText}>Log Set</Text>
-            </TouchableOpacity>
+            {/* Timed, distance and loaded-carry sets need the set tracker */}
+            {tracksReps(trackingMode) && (
+              <TouchableOpacity
+                style={styles.logSetButton}
+                onPress={() =>
+                  completeSet({
+                    weight:
+                      (currentExercise as GeneratedExercise).generatedWeight ||
+                      EMPTY_BAR_WEIGHT,
+                    reps:
+                      (currentExercise as GeneratedExercise).generatedReps ||
+                      10,
+                  })
+                }
+              >
+                <Text style={styles.logSetButtonText}>Log Set</Text>
+              </TouchableOpacity>
+            )}
           </View>
         </ScrollView>
 
@@ -881,12 +1881,47 @@ export default function ActiveWorkoutScreen() {
           onWorkoutModified={handleWorkoutModified}
         />
 
+        <ExercisePickerModal
+          visible={exercisePicker !== null}
+          title={
+            exercisePicker === 'swap' ? 'Replace Exercise' : 'Add Exercise'
+          }
+          subtitle={
+            exercisePicker === 'swap'
+              ? `Alternatives to ${currentExercise.name}`
+              : 'Comes up after the current exercise'
+          }
+          exercises={
+            exercisePicker === 'swap'
+              ? getAlternativeExercises(
+                  currentExercise,
+                  exerciseLibrary,
+                  activeWorkout.exercises
+                )
+              : exerciseLibrary
+          }
+          onSelect={
+            exercisePicker === 'swap' ? swapCurrentExercise : addExercise
+          }
+          onClose={() => setExercisePicker(null)}
+        />
+
+        <IntervalTimer
+          visible={showIntervalTimer}
+          exerciseName={currentExercise.name}
+          onLogRound={logIntervalRound}
+          onFinish={finishIntervals}
+          onClose={() => setShowIntervalTimer(false)}
+        />
+
         {/* Rest Timer Modal */}
         <RestTimerModal
           visible={showRestTimer}
+          duration={restDuration}
+          note={restNote}
           onComplete={completeRest}
           onSkip={skipRest}
-          onClose={() => setShowRestTimer(false)}
+          onClose={endRest}
         />
       </LinearGradient>
     </SafeAreaView>
@@ -1035,9 +2070,130 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '500',
   },
+  muscleMapToggle: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 4,
+    marginBottom: 12,
+  },
+  muscleMapToggleText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  muscleMap: {
+    marginBottom: 24,
+  },
+  reorderButtons: {
+    marginHorizontal: 8,
+  },
+  reorderButton: {
+    padding: 2,
+  },
   setsSection: {
     marginBottom: 20,
   },
+  groupBanner: {
+    backgroundColor: 'rgba(107, 70, 193, 0.2)',
+    borderWidth: 1,
+    borderColor: '#6B46C1',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  groupBannerTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    marginBottom: 4,
+  },
+  groupBannerText: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: '#A855F7',
+  },
+  intervalCard: {
+    backgroundColor: '#1A1A2E',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  intervalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  intervalTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  intervalText: {
+    fontSize: 14,
+    color: '#94A3B8',
+    marginBottom: 12,
+  },
+  intervalRoundRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#0F0F23',
+  },
+  intervalRoundLabel: {
+    fontSize: 14,
+    color: '#94A3B8',
+  },
+  intervalRoundValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  intervalButton: {
+    backgroundColor: '#6B46C1',
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  intervalButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  lastNoteBanner: {
+    backgroundColor: 'rgba(245, 158, 11, 0.12)',
+    borderWidth: 1,
+    borderColor: '#F59E0B',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  lastNoteLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#F59E0B',
+    marginBottom: 4,
+  },
+  lastNoteText: {
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+  exerciseNoteInput: {
+    height: 44,
+    backgroundColor: '#1A1A2E',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    fontSize: 14,
+    color: '#FFFFFF',
+    marginBottom: 16,
+  },
+  setNoteText: {
+    fontSize: 13,
+    color: '#94A3B8',
+  },
   setsTitle: {
     fontSize: 18,
     fontWeight: '600',
@@ -1081,6 +2237,55 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: 'bold',
   },
+  setTypeIndicator: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  setTypeLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  warmupSetRow: {
+    opacity: 0.7,
+    paddingVertical: 10,
+  },
+  warmupRamp: {
+    marginBottom: 4,
+  },
+  warmupRampHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  warmupRampTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: SET_TYPE_COLORS.warmup,
+  },
+  warmupRampSkip: {
+    fontSize: 14,
+    color: '#64748B',
+  },
+  warmupLogButton: {
+    backgroundColor: SET_TYPE_COLORS.warmup,
+    borderRadius: 8,
+    paddingVertical: 6,
+    alignItems: 'center',
+  },
+  warmupLogButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  warmupSetValue: {
+    color: '#94A3B8',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   setInputs: {
     flex: 1,
     flexDirection: 'row',
@@ -18,49 +18,128 @@ import {
   Dumbbell,
   Timer,
   Target,
+  Link2,
+  Unlink2,
+  Play,
 } from 'lucide-react-native';
-import { useRouter } from 'expo-router';
-import { useState } from 'react';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useState, useEffect } from 'react';
 import { exerciseLibrary } from '@/data/exercises';
-import { Exercise } from '@/types/workout';
-
-interface CustomExercise {
-  id: string;
-  exercise: Exercise;
-  sets: number;
-  reps: number;
-  weight: number;
-  restTime: number;
-}
+import { CustomExercise, Exercise } from '@/types/workout';
+import { useSettings } from '@/hooks/useSettings';
+import FatiguePreview from '@/components/FatiguePreview';
+import { useWorkoutTemplates } from '@/hooks/useWorkoutTemplates';
+import { fromKg, toKg } from '@/lib/units';
+import { GeneratedWorkout } from '@/lib/gemini';
+import {
+  DEFAULT_TEMPLATE_REPS,
+  DEFAULT_TEMPLATE_REST,
+  DEFAULT_TEMPLATE_REST_AFTER,
+  DEFAULT_TEMPLATE_SETS,
+  buildCustomWorkoutData,
+  estimateWorkoutDuration,
+  fromGeneratedWorkout,
+  fromTemplateExercises,
+} from '@/lib/templates';
 
-interface CustomWorkout {
-  name: string;
-  exercises: CustomExercise[];
-  estimatedDuration: number;
-}
+// Drop group ids that no longer tie at least two exercises together
+const cleanUpGroups = (exercises: CustomExercise[]): CustomExercise[] =>
+  exercises.map((ex) =>
+    ex.groupId &&
+    exercises.filter((other) => other.groupId === ex.groupId).length < 2
+      ? { ...ex, groupId: undefined }
+      : ex
+  );
 
 export default function CustomWorkoutScreen() {
   const router = useRouter();
+  const params = useLocalSearchParams<{
+    templateId?: string;
+    generatedWorkout?: string;
+  }>();
+  const { settings } = useSettings();
+  const { templates, getTemplate, saveTemplate } = useWorkoutTemplates();
   const [workoutName, setWorkoutName] = useState('');
   const [exercises, setExercises] = useState<CustomExercise[]>([]);
   const [showExerciseLibrary, setShowExerciseLibrary] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [isPrefilled, setIsPrefilled] = useState(false);
+  // Weights as typed, by exercise id, so "62." survives until the next digit
+  const [weightText, setWeightText] = useState<Record<string, string>>({});
+  const isEditingTemplate = !!params.templateId;
+
+  // Start from the template being edited (once it has loaded) or from an
+  // AI-generated workout
+  useEffect(() => {
+    if (isPrefilled) return;
+
+    if (params.templateId) {
+      const template = getTemplate(params.templateId);
+      if (!template) return;
+      setWorkoutName(template.name);
+      setExercises(fromTemplateExercises(template.exercises));
+      setIsPrefilled(true);
+    } else if (params.generatedWorkout) {
+      const workout: GeneratedWorkout = JSON.parse(params.generatedWorkout);
+      setWorkoutName(workout.name);
+      setExercises(fromGeneratedWorkout(workout));
+      setIsPrefilled(true);
+    }
+  }, [templates, params.templateId, params.generatedWorkout]);
 
   const addExercise = (exercise: Exercise) => {
     const newExercise: CustomExercise = {
       id: Date.now().toString() + exercise.id,
       exercise,
-      sets: 3,
-      reps: 10,
+      sets: DEFAULT_TEMPLATE_SETS,
+      reps: DEFAULT_TEMPLATE_REPS,
       weight: 0,
-      restTime: 60,
+      restTime: DEFAULT_TEMPLATE_REST,
+      restAfterExercise: DEFAULT_TEMPLATE_REST_AFTER,
     };
     setExercises([...exercises, newExercise]);
     setShowExerciseLibrary(false);
   };
 
   const removeExercise = (exerciseId: string) => {
-    setExercises(exercises.filter((ex) => ex.id !== exerciseId));
+    setExercises(cleanUpGroups(exercises.filter((ex) => ex.id !== exerciseId)));
+  };
+
+  const isLinkedToPrevious = (index: number) =>
+    index > 0 &&
+    !!exercises[index].groupId &&
+    exercises[index].groupId === exercises[index - 1].groupId;
+
+  // Join an exercise (and anything already grouped after it) to the previous
+  // exercise's superset, or split the group at this point
+  const toggleLinkWithPrevious = (index: number) => {
+    const current = exercises[index];
+    const previous = exercises[index - 1];
+
+    if (isLinkedToPrevious(index)) {
+      const newGroupId = Date.now().toString();
+      setExercises(
+        cleanUpGroups(
+          exercises.map((ex, i) =>
+            i >= index && ex.groupId === current.groupId
+              ? { ...ex, groupId: newGroupId }
+              : ex
+          )
+        )
+      );
+      return;
+    }
+
+    const groupId = previous.groupId || Date.now().toString();
+    setExercises(
+      exercises.map((ex, i) =>
+        i === index - 1 ||
+        i === index ||
+        (current.groupId && ex.groupId === current.groupId)
+          ? { ...ex, groupId }
+          : ex
+      )
+    );
   };
 
   const updateExercise = (
@@ -75,42 +154,51 @@ export default function CustomWorkoutScreen() {
     );
   };
 
-  const calculateDuration = () => {
-    const totalSets = exercises.reduce((sum, ex) => sum + ex.sets, 0);
-    const totalRestTime = exercises.reduce(
-      (sum, ex) => sum + ex.sets * ex.restTime,
-      0
-    );
-    const workingTime = totalSets * 45; // Assume 45 seconds per set
-    return Math.round((totalRestTime + workingTime) / 60); // Convert to minutes
-  };
-
-  const saveWorkout = () => {
+  const validateWorkout = () => {
     if (!workoutName.trim()) {
       Alert.alert('Error', 'Please enter a workout name');
-      return;
+      return false;
     }
 
     if (exercises.length === 0) {
       Alert.alert('Error', 'Please add at least one exercise');
-      return;
+      return false;
     }
 
-    const workout: CustomWorkout = {
-      name: workoutName,
-      exercises,
-      estimatedDuration: calculateDuration(),
-    };
+    return true;
+  };
+
+  const saveWorkout = () => {
+    if (!validateWorkout()) return;
 
     // Navigate to active workout with custom workout data
     router.push({
       pathname: '/workout/active',
       params: {
-        customWorkoutData: JSON.stringify(workout),
+        customWorkoutData: buildCustomWorkoutData(workoutName, exercises),
       },
     });
   };
 
+  const saveAsTemplate = async () => {
+    if (!validateWorkout()) return;
+
+    const { error } = await saveTemplate(
+      {
+        name: workoutName,
+        exercises,
+        source: params.generatedWorkout ? 'ai' : undefined,
+      },
+      params.templateId
+    );
+    if (error) {
+      Alert.alert('Error', 'Failed to save template. Please try again.');
+      return;
+    }
+
+    router.back();
+  };
+
   const filteredExercises = exerciseLibrary.filter(
     (exercise) =>
       exercise.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -146,6 +234,31 @@ export default function CustomWorkoutScreen() {
     index: number
   ) => (
     <View key={customExercise.id} style={styles.exerciseCard}>
+      {index > 0 && (
+        <TouchableOpacity
+          style={[
+            styles.linkButton,
+            isLinkedToPrevious(index) && styles.linkButtonActive,
+          ]}
+          onPress={() => toggleLinkWithPrevious(index)}
+        >
+          {isLinkedToPrevious(index) ? (
+            <Link2 size={14} color="#FFFFFF" />
+          ) : (
+            <Unlink2 size={14} color="#64748B" />
+          )}
+          <Text
+            style={[
+              styles.linkButtonText,
+              isLinkedToPrevious(index) && styles.linkButtonTextActive,
+            ]}
+          >
+            {isLinkedToPrevious(index)
+              ? 'Superset with previous'
+              : 'Link as superset'}
+          </Text>
+        </TouchableOpacity>
+      )}
       <LinearGradient
         colors={['#1A1A2E', '#0F0F23']}
         style={styles.exerciseGradient}
@@ -192,21 +305,38 @@ export default function CustomWorkoutScreen() {
           </View>
 
           <View style={styles.inputGroup}>
-            <Text style={styles.inputLabel}>Weight (lbs)</Text>
+            <Text style={styles.inputLabel}>
+              Weight ({settings.weightUnit})
+            </Text>
             <TextInput
               style={styles.numberInput}
-              value={customExercise.weight.toString()}
-              onChangeText={(text) =>
-                updateExercise(customExercise.id, 'weight', parseInt(text) || 0)
+              value={
+                weightText[customExercise.id] ??
+                fromKg(customExercise.weight, settings.weightUnit).toString()
               }
+              onChangeText={(text) => {
+                // Only allow numbers and decimal point
+                const numericValue = text.replace(/[^0-9.]/g, '');
+                setWeightText((prev) => ({
+                  ...prev,
+                  [customExercise.id]: numericValue,
+                }));
+                updateExercise(
+                  customExercise.id,
+                  'weight',
+                  toKg(parseFloat(numericValue) || 0, settings.weightUnit)
+                );
+              }}
               keyboardType="numeric"
               placeholder="0"
               placeholderTextColor="#64748B"
             />
           </View>
+        </View>
 
+        <View style={[styles.exerciseInputs, styles.restInputs]}>
           <View style={styles.inputGroup}>
-            <Text style={styles.inputLabel}>Rest (sec)</Text>
+            <Text style={styles.inputLabel}>Rest between sets (sec)</Text>
             <TextInput
               style={styles.numberInput}
               value={customExercise.restTime.toString()}
@@ -222,6 +352,24 @@ export default function CustomWorkoutScreen() {
               placeholderTextColor="#64748B"
             />
           </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>Rest after exercise (sec)</Text>
+            <TextInput
+              style={styles.numberInput}
+              value={customExercise.restAfterExercise.toString()}
+              onChangeText={(text) =>
+                updateExercise(
+                  customExercise.id,
+                  'restAfterExercise',
+                  parseInt(text) || 0
+                )
+              }
+              keyboardType="numeric"
+              placeholder="90"
+              placeholderTextColor="#64748B"
+            />
+          </View>
         </View>
       </LinearGradient>
     </View>
@@ -286,10 +434,12 @@ export default function CustomWorkoutScreen() {
           >
             <ArrowLeft size={24} color="#FFFFFF" />
           </TouchableOpacity>
-          <Text style={styles.headerTitle}>Custom Workout</Text>
+          <Text style={styles.headerTitle}>
+            {isEditingTemplate ? 'Edit Template' : 'Custom Workout'}
+          </Text>
           <TouchableOpacity
             style={styles.saveHeaderButton}
-            onPress={saveWorkout}
+            onPress={saveAsTemplate}
           >
             <Save size={20} color="#6B46C1" />
           </TouchableOpacity>
@@ -337,13 +487,17 @@ export default function CustomWorkoutScreen() {
                     <View style={styles.summaryItem}>
                       <Timer size={20} color="#F59E0B" />
                       <Text style={styles.summaryValue}>
-                        {calculateDuration()}
+                        {estimateWorkoutDuration(exercises)}
                       </Text>
                       <Text style={styles.summaryLabel}>Est. Minutes</Text>
                     </View>
                   </View>
                 </LinearGradient>
               </View>
+              <FatiguePreview
+                plan={exercises}
+                defaultRest={settings.defaultRestTime}
+              />
             </View>
           )}
 
@@ -375,7 +529,7 @@ export default function CustomWorkoutScreen() {
             )}
           </View>
 
-          {/* Save Button */}
+          {/* Save Buttons */}
           {exercises.length > 0 && (
             <View style={styles.section}>
               <TouchableOpacity style={styles.saveButton} onPress={saveWorkout}>
@@ -383,10 +537,19 @@ export default function CustomWorkoutScreen() {
                   colors={['#6B46C1', '#8B5CF6']}
                   style={styles.saveButtonGradient}
                 >
-                  <Save size={20} color="#FFFFFF" />
+                  <Play size={20} color="#FFFFFF" />
                   <Text style={styles.saveButtonText}>Start Workout</Text>
                 </LinearGradient>
               </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.templateButton}
+                onPress={saveAsTemplate}
+              >
+                <Save size={20} color="#6B46C1" />
+                <Text style={styles.templateButtonText}>
+                  {isEditingTemplate ? 'Save Changes' : 'Save as Template'}
+                </Text>
+              </TouchableOpacity>
             </View>
           )}
         </ScrollView>
@@ -524,6 +687,30 @@ const styles = StyleSheet.create({
   exerciseCard: {
     marginBottom: 16,
   },
+  linkButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#1A1A2E',
+    marginBottom: 8,
+  },
+  linkButtonActive: {
+    backgroundColor: '#6B46C1',
+    borderColor: '#6B46C1',
+  },
+  linkButtonText: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: '#64748B',
+  },
+  linkButtonTextActive: {
+    color: '#FFFFFF',
+  },
   exerciseGradient: {
     borderRadius: 16,
     padding: 20,
@@ -553,6 +740,9 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     justifyContent: 'space-between',
   },
+  restInputs: {
+    marginTop: 12,
+  },
   inputGroup: {
     flex: 1,
     marginHorizontal: 4,
@@ -589,6 +779,22 @@ const styles = StyleSheet.create({
     color: '#FFFFFF',
     marginLeft: 8,
   },
+  templateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 16,
+    marginTop: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#6B46C1',
+  },
+  templateButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6B46C1',
+    marginLeft: 8,
+  },
   searchSection: {
     paddingHorizontal: 20,
     marginBottom: 20,
@@ -0,0 +1,450 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  StyleProp,
+  ViewStyle,
+} from 'react-native';
+import Svg, { Path } from 'react-native-svg';
+import { X } from 'lucide-react-native';
+import { Muscle, MUSCLE_LABELS } from '@/lib/muscles';
+import { getFatigueColor } from '@/lib/fatigue';
+import { getReadinessColor } from '@/lib/recovery';
+import {
+  MIN_WEEKLY_SETS,
+  MAX_WEEKLY_SETS,
+  MuscleVolume,
+  getVolumeColor,
+} from '@/lib/volume';
+
+export type HeatmapMetric = 'fatigue' | 'readiness' | 'volume';
+
+interface BodyHeatmapProps {
+  fatigue?: Partial<Record<Muscle, number>>; // 0-100
+  readiness?: Partial<Record<Muscle, number>>; // 0-100, missing is 100
+  volume?: MuscleVolume;
+  volumeLabel?: string; // the period volume covers, e.g. "this week"
+  style?: StyleProp<ViewStyle>;
+}
+
+const METRIC_LABELS: Record<HeatmapMetric, string> = {
+  fatigue: 'Fatigue',
+  readiness: 'Readiness',
+  volume: 'Sets',
+};
+
+const UNTRAINED_COLOR = '#2A2A40';
+const BODY_COLOR = '#0F0F23';
+
+// Arc path for an ellipse, so every region is a Path
+const ellipse = (cx: number, cy: number, rx: number, ry: number): string =>
+  `M${cx - rx} ${cy} a${rx} ${ry} 0 1 0 ${rx * 2} 0 a${rx} ${ry} 0 1 0 ${
+    -rx * 2
+  } 0 Z`;
+
+// Both views share a 200 × 380 outline
+const BODY_OUTLINE = [
+  ellipse(100, 26, 16, 19),
+  'M92 42 H108 V58 H92 Z',
+  'M70 60 Q100 52 130 60 L128 110 Q126 140 122 166 H78 Q74 140 72 110 Z',
+  ellipse(58, 100, 11, 32),
+  ellipse(142, 100, 11, 32),
+  ellipse(50, 160, 9, 30),
+  ellipse(150, 160, 9, 30),
+  ellipse(46, 198, 7, 10),
+  ellipse(154, 198, 7, 10),
+  'M78 160 H122 L126 190 H74 Z',
+  ellipse(86, 230, 15, 46),
+  ellipse(114, 230, 15, 46),
+  ellipse(84, 318, 11, 40),
+  ellipse(116, 318, 11, 40),
+  ellipse(84, 366, 10, 6),
+  ellipse(116, 366, 10, 6),
+];
+
+type MuscleRegions = [Muscle, string[]][];
+
+// Later regions draw over earlier ones
+const FRONT_REGIONS: MuscleRegions = [
+  ['neck', ['M94 44 H106 L108 56 H92 Z']],
+  ['traps', ['M92 56 L74 62 L92 62 Z', 'M108 56 L126 62 L108 62 Z']],
+  ['shoulders', [ellipse(62, 72, 11, 12), ellipse(138, 72, 11, 12)]],
+  [
+    'chest',
+    [
+      'M98 64 L76 66 Q70 84 78 96 Q90 102 98 96 Z',
+      'M102 64 L124 66 Q130 84 122 96 Q110 102 102 96 Z',
+    ],
+  ],
+  ['biceps', [ellipse(58, 106, 8, 20), ellipse(142, 106, 8, 20)]],
+  ['forearms', [ellipse(50, 156, 7, 24), ellipse(150, 156, 7, 24)]],
+  [
+    'abs',
+    [
+      'M88 102 H112 L110 156 Q100 162 90 156 Z',
+      'M78 104 L86 104 L88 152 L80 146 Z',
+      'M122 104 L114 104 L112 152 L120 146 Z',
+    ],
+  ],
+  [
+    'abductors',
+    [
+      'M74 166 L82 170 L78 194 L72 184 Z',
+      'M126 166 L118 170 L122 194 L128 184 Z',
+    ],
+  ],
+  [
+    'quads',
+    [
+      'M76 196 Q72 236 80 270 H94 Q98 236 94 196 Q86 190 76 196 Z',
+      'M124 196 Q128 236 120 270 H106 Q102 236 106 196 Q114 190 124 196 Z',
+    ],
+  ],
+  [
+    'adductors',
+    [
+      'M94 176 L100 180 L98 222 L94 206 Z',
+      'M106 176 L100 180 L102 222 L106 206 Z',
+    ],
+  ],
+  ['calves', [ellipse(80, 312, 6, 26), ellipse(120, 312, 6, 26)]],
+];
+
+const BACK_REGIONS: MuscleRegions = [
+  ['neck', ['M94 40 H106 V50 H94 Z']],
+  ['traps', ['M100 46 L126 62 L110 70 L100 96 L90 70 L74 62 Z']],
+  ['shoulders', [ellipse(62, 72, 11, 12), ellipse(138, 72, 11, 12)]],
+  [
+    'middle-back',
+    [
+      'M84 74 L92 72 L100 100 L92 108 L84 96 Z',
+      'M116 74 L108 72 L100 100 L108 108 L116 96 Z',
+    ],
+  ],
+  [
+    'lats',
+    [
+      'M74 80 L84 98 L92 110 L94 140 L82 132 Q72 108 74 80 Z',
+      'M126 80 L116 98 L108 110 L106 140 L118 132 Q128 108 126 80 Z',
+    ],
+  ],
+  ['lower-back', ['M92 114 H108 L110 158 H90 Z']],
+  ['triceps', [ellipse(58, 104, 8, 20), ellipse(142, 104, 8, 20)]],
+  ['forearms', [ellipse(50, 156, 7, 24), ellipse(150, 156, 7, 24)]],
+  [
+    'abductors',
+    [
+      'M76 162 L88 164 L84 176 L74 172 Z',
+      'M124 162 L112 164 L116 176 L126 172 Z',
+    ],
+  ],
+  ['glutes', [ellipse(88, 186, 13, 15), ellipse(112, 186, 13, 15)]],
+  [
+    'hamstrings',
+    [
+      'M76 204 Q72 240 80 268 H94 Q98 236 96 204 Z',
+      'M124 204 Q128 240 120 268 H106 Q102 236 104 204 Z',
+    ],
+  ],
+  ['calves', [ellipse(84, 306, 10, 26), ellipse(116, 306, 10, 26)]],
+];
+
+// Front and back body diagrams with each muscle colored by the chosen
+// metric; tapping a muscle lists the exercises that worked it
+export default function BodyHeatmap({
+  fatigue,
+  readiness,
+  volume,
+  volumeLabel = 'this week',
+  style,
+}: BodyHeatmapProps) {
+  const metrics = (
+    ['readiness', 'fatigue', 'volume'] as HeatmapMetric[]
+  ).filter(
+    (metric) =>
+      (metric === 'fatigue' && fatigue) ||
+      (metric === 'readiness' && readiness) ||
+      (metric === 'volume' && volume)
+  );
+  const [metric, setMetric] = useState<HeatmapMetric>(metrics[0] || 'volume');
+  const [selectedMuscle, setSelectedMuscle] = useState<Muscle | null>(null);
+
+  const getValue = (muscle: Muscle): number => {
+    if (metric === 'fatigue') return fatigue?.[muscle] ?? 0;
+    if (metric === 'readiness') return readiness?.[muscle] ?? 100;
+    return volume?.sets[muscle] ?? 0;
+  };
+
+  const getColor = (muscle: Muscle): string => {
+    const value = getValue(muscle);
+    if (metric === 'fatigue') {
+      return value < 1 ? UNTRAINED_COLOR : getFatigueColor(value);
+    }
+    if (metric === 'readiness') return getReadinessColor(value);
+    return value > 0 ? getVolumeColor(value) : UNTRAINED_COLOR;
+  };
+
+  const formatValue = (muscle: Muscle): string => {
+    const value = getValue(muscle);
+    if (metric === 'fatigue') return `${Math.round(value)}% fatigued`;
+    if (metric === 'readiness') return `${Math.round(value)}% ready`;
+    const sets = Math.round(value * 10) / 10;
+    return `${sets} ${sets === 1 ? 'set' : 'sets'} ${volumeLabel}`;
+  };
+
+  const legend: { color: string; label: string }[] =
+    metric === 'fatigue'
+      ? [
+          { color: getFatigueColor(0), label: 'Fresh' },
+          { color: getFatigueColor(30), label: 'Moderate' },
+          { color: getFatigueColor(60), label: 'High' },
+          { color: getFatigueColor(80), label: 'Critical' },
+        ]
+      : metric === 'readiness'
+      ? [
+          { color: getReadinessColor(100), label: 'Ready' },
+          { color: getReadinessColor(60), label: 'Recovering' },
+          { color: getReadinessColor(0), label: 'Fatigued' },
+        ]
+      : [
+          { color: UNTRAINED_COLOR, label: 'None' },
+          { color: getVolumeColor(1), label: `<${MIN_WEEKLY_SETS / 2}` },
+          {
+            color: getVolumeColor(MIN_WEEKLY_SETS / 2),
+            label: `<${MIN_WEEKLY_SETS}`,
+          },
+          {
+            color: getVolumeColor(MIN_WEEKLY_SETS),
+            label: `${MIN_WEEKLY_SETS}-${MAX_WEEKLY_SETS}`,
+          },
+          {
+            color: getVolumeColor(MAX_WEEKLY_SETS + 1),
+            label: `>${MAX_WEEKLY_SETS}`,
+          },
+        ];
+
+  const renderBody = (regions: MuscleRegions, label: string) => (
+    <View style={styles.bodyView}>
+      <Svg viewBox="0 0 200 380" style={styles.body}>
+        {BODY_OUTLINE.map((d, index) => (
+          <Path key={`outline-${index}`} d={d} fill={BODY_COLOR} />
+        ))}
+        {regions.map(([muscle, paths]) =>
+          paths.map((d, index) => (
+            <Path
+              key={`${muscle}-${index}`}
+              d={d}
+              fill={getColor(muscle)}
+              stroke={muscle === selectedMuscle ? '#FFFFFF' : '#0F0F23'}
+              strokeWidth={muscle === selectedMuscle ? 2 : 1}
+              onPress={() =>
+                setSelectedMuscle(muscle === selectedMuscle ? null : muscle)
+              }
+            />
+          ))
+        )}
+      </Svg>
+      <Text style={styles.bodyLabel}>{label}</Text>
+    </View>
+  );
+
+  const selectedExercises = selectedMuscle
+    ? volume?.exercises[selectedMuscle] || []
+    : [];
+
+  return (
+    <View style={[styles.container, style]}>
+      {metrics.length > 1 && (
+        <View style={styles.metricTabs}>
+          {metrics.map((option) => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.metricTab, metric === option && styles.activeTab]}
+              onPress={() => setMetric(option)}
+            >
+              <Text
+                style={[
+                  styles.metricTabText,
+                  metric === option && styles.activeTabText,
+                ]}
+              >
+                {METRIC_LABELS[option]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      <View style={styles.bodies}>
+        {renderBody(FRONT_REGIONS, 'Front')}
+        {renderBody(BACK_REGIONS, 'Back')}
+      </View>
+
+      <View style={styles.legend}>
+        {legend.map((item) => (
+          <View key={item.label} style={styles.legendItem}>
+            <View
+              style={[styles.legendSwatch, { backgroundColor: item.color }]}
+            />
+            <Text style={styles.legendText}>{item.label}</Text>
+          </View>
+        ))}
+      </View>
+
+      {selectedMuscle ? (
+        <View style={styles.details}>
+          <View style={styles.detailsHeader}>
+            <Text style={styles.detailsTitle}>
+              {MUSCLE_LABELS[selectedMuscle]}
+            </Text>
+            <Text
+              style={[styles.detailsValue, { color: getColor(selectedMuscle) }]}
+            >
+              {formatValue(selectedMuscle)}
+            </Text>
+            <TouchableOpacity onPress={() => setSelectedMuscle(null)}>
+              <X size={16} color="#64748B" />
+            </TouchableOpacity>
+          </View>
+          {selectedExercises.length > 0 ? (
+            selectedExercises.map((exercise) => (
+              <View key={exercise.name} style={styles.exerciseRow}>
+                <Text style={styles.exerciseName}>{exercise.name}</Text>
+                <Text style={styles.exerciseSets}>
+                  {exercise.sets} {exercise.sets === 1 ? 'set' : 'sets'}
+                </Text>
+              </View>
+            ))
+          ) : (
+            <Text style={styles.emptyText}>
+              No exercises hit this muscle {volumeLabel}
+            </Text>
+          )}
+        </View>
+      ) : (
+        <Text style={styles.hintText}>
+          Tap a muscle to see the exercises that worked it
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#1A1A2E',
+    borderRadius: 16,
+    padding: 16,
+  },
+  metricTabs: {
+    flexDirection: 'row',
+    backgroundColor: '#0F0F23',
+    borderRadius: 12,
+    padding: 4,
+    marginBottom: 12,
+  },
+  metricTab: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  activeTab: {
+    backgroundColor: '#6B46C1',
+  },
+  metricTabText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#94A3B8',
+  },
+  activeTabText: {
+    color: '#FFFFFF',
+  },
+  bodies: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+  },
+  bodyView: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  body: {
+    width: '100%',
+    aspectRatio: 200 / 380,
+  },
+  bodyLabel: {
+    fontSize: 12,
+    color: '#64748B',
+    marginTop: 4,
+  },
+  legend: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginTop: 12,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  legendSwatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  legendText: {
+    fontSize: 12,
+    color: '#94A3B8',
+  },
+  details: {
+    marginTop: 16,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#0F0F23',
+  },
+  detailsHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  detailsTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  detailsValue: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  exerciseRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  exerciseName: {
+    flex: 1,
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+  exerciseSets: {
+    fontSize: 13,
+    color: '#94A3B8',
+    marginLeft: 12,
+  },
+  emptyText: {
+    fontSize: 13,
+    color: '#64748B',
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#64748B',
+    textAlign: 'center',
+    marginTop: 12,
+  },
+});
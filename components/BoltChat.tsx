@@ -25,7 +25,9 @@ import {
   AlertCircle,
 } from 'lucide-react-native';
 import { useAuth } from '@/hooks/useAuth';
+import { useSettings } from '@/hooks/useSettings';
 import { geminiWorkoutGenerator } from '@/lib/gemini';
+import { formatWeight } from '@/lib/units';
 
 interface ChatMessage {
   id: string;
@@ -50,6 +52,7 @@ export default function BoltChat({
   onWorkoutModified,
 }: BoltChatProps) {
   const { profile, loadOnboardingData, user } = useAuth();
+  const { settings } = useSettings();
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [inputText, setInputText] = useState('');
   const [isTyping, setIsTyping] = useState(false);
@@ -146,6 +149,7 @@ export default function BoltChat({
           userProfile: profile,
           currentWorkout,
           onboardingData,
+          weightUnit: settings.weightUnit,
         };
 
         const chatHistory = messages.slice(-5); // Last 5 messages for context
@@ -252,6 +256,7 @@ export default function BoltChat({
         userProfile: profile,
         currentWorkout,
         onboardingData,
+        weightUnit: settings.weightUnit,
       };
 
       const modifiedWorkout = await geminiWorkoutGenerator.modifyWorkout(
@@ -310,9 +315,10 @@ export default function BoltChat({
         }
         if (originalExercise.weight !== modExercise.weight) {
           changes.push(
-            `🔄 ${modExercise.name}: ${originalExercise.weight || 0} → ${
-              modExercise.weight || 0
-            } lbs`
+            `🔄 ${modExercise.name}: ${formatWeight(
+              originalExercise.weight || 0,
+              settings.weightUnit
+            )} → ${formatWeight(modExercise.weight || 0, settings.weightUnit)}`
           );
         }
       }
@@ -19,12 +19,14 @@ import {
   MoreHorizontal,
 } from 'lucide-react-native';
 import { Exercise } from '@/types/workout';
+import { WeightUnit, formatWeight } from '@/lib/units';
 
 interface ExerciseCardProps {
   exercise: Exercise;
   onStart: (exercise: Exercise) => void;
   onShowDetails?: (exercise: Exercise) => void;
   showFullDetails?: boolean;
+  weightUnit?: WeightUnit;
 }
 
 const getMuscleGroupIcon = (muscleGroup: string) => {
@@ -108,6 +110,7 @@ export default function ExerciseCard({
   onStart,
   onShowDetails,
   showFullDetails = false,
+  weightUnit = 'kg',
 }: ExerciseCardProps) {
   const [imageError, setImageError] = useState(false);
   const categoryColor = getCategoryColor(exercise.category);
@@ -169,7 +172,7 @@ export default function ExerciseCard({
           <Text style={styles.exerciseName}>{exercise.name}</Text>
           <Text style={styles.exerciseDetails}>
             {exercise.sets || 3} sets • {exercise.reps || 8} reps •{' '}
-            {exercise.weight || 0} lb
+            {formatWeight(exercise.weight || 0, weightUnit)}
           </Text>
         </View>
 
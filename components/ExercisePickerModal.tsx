@@ -0,0 +1,200 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  Modal,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Dumbbell, Search, X } from 'lucide-react-native';
+import { Exercise } from '@/types/workout';
+
+interface ExercisePickerModalProps {
+  visible: boolean;
+  title: string;
+  subtitle?: string;
+  exercises: Exercise[];
+  onSelect: (exercise: Exercise) => void;
+  onClose: () => void;
+}
+
+export default function ExercisePickerModal({
+  visible,
+  title,
+  subtitle,
+  exercises,
+  onSelect,
+  onClose,
+}: ExercisePickerModalProps) {
+  const [searchQuery, setSearchQuery] = useState('');
+
+  useEffect(() => {
+    if (visible) setSearchQuery('');
+  }, [visible]);
+
+  const query = searchQuery.toLowerCase();
+  const filteredExercises = exercises.filter(
+    (exercise) =>
+      exercise.name.toLowerCase().includes(query) ||
+      exercise.muscleGroup.toLowerCase().includes(query) ||
+      exercise.equipment.toLowerCase().includes(query)
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="formSheet"
+    >
+      <SafeAreaView style={styles.container}>
+        <LinearGradient
+          colors={['#0F0F23', '#1A1A2E', '#0F0F23']}
+          style={styles.background}
+        >
+          {/* Header */}
+          <View style={styles.header}>
+            <View style={styles.headerText}>
+              <Text style={styles.headerTitle}>{title}</Text>
+              {subtitle && (
+                <Text style={styles.headerSubtitle}>{subtitle}</Text>
+              )}
+            </View>
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <X size={20} color="#94A3B8" />
+            </TouchableOpacity>
+          </View>
+
+          {/* Search */}
+          <View style={styles.searchContainer}>
+            <Search size={20} color="#6B46C1" />
+            <TextInput
+              style={styles.searchInput}
+              placeholder="Search exercises..."
+              placeholderTextColor="#64748B"
+              value={searchQuery}
+              onChangeText={setSearchQuery}
+            />
+          </View>
+
+          <ScrollView style={styles.list} showsVerticalScrollIndicator={false}>
+            {filteredExercises.length === 0 ? (
+              <Text style={styles.emptyText}>No matching exercises</Text>
+            ) : (
+              filteredExercises.map((exercise) => (
+                <TouchableOpacity
+                  key={exercise.id}
+                  style={styles.item}
+                  onPress={() => onSelect(exercise)}
+                >
+                  <View style={styles.itemIcon}>
+                    <Dumbbell size={20} color="#6B46C1" />
+                  </View>
+                  <View style={styles.itemInfo}>
+                    <Text style={styles.itemName}>{exercise.name}</Text>
+                    <Text style={styles.itemDetails}>
+                      {exercise.muscleGroup} • {exercise.equipment}
+                    </Text>
+                  </View>
+                </TouchableOpacity>
+              ))
+            )}
+          </ScrollView>
+        </LinearGradient>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0F0F23',
+  },
+  background: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1A1A2E',
+  },
+  headerText: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#94A3B8',
+    marginTop: 2,
+  },
+  closeButton: {
+    padding: 8,
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1A1A2E',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    margin: 20,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+    color: '#FFFFFF',
+    marginLeft: 12,
+  },
+  list: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#64748B',
+    textAlign: 'center',
+    marginTop: 20,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    backgroundColor: '#1A1A2E',
+  },
+  itemIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#6B46C1' + '20',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    marginBottom: 4,
+  },
+  itemDetails: {
+    fontSize: 14,
+    color: '#94A3B8',
+  },
+});
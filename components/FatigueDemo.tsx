@@ -1,10 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
-import { FatigueCalculator } from '@/lib/fatigue';
+import { FatigueCalculator, MuscleFatigue } from '@/lib/fatigue';
+import { MUSCLE_LABELS } from '@/lib/muscles';
 
 export default function FatigueDemo() {
   const [calculator, setCalculator] = useState<FatigueCalculator | null>(null);
-  const [fatigueLevels, setFatigueLevels] = useState<any[]>([]);
+  const [fatigueLevels, setFatigueLevels] = useState<MuscleFatigue[]>([]);
 
   useEffect(() => {
     const calc = new FatigueCalculator();
@@ -17,7 +18,7 @@ export default function FatigueDemo() {
     // Simulate completing a bench press set
     calculator.updateFatigue({
       exerciseIntensity: 0.8,
-      exerciseVolume: 200 * 8, // 200 lbs × 8 reps
+      exerciseVolume: 90 * 8, // 90 kg × 8 reps
       exerciseDuration: 60,
       restTime: 120,
       muscleGroup: 'Chest',
@@ -35,10 +36,10 @@ export default function FatigueDemo() {
     const restTime = 5 * 60 * 1000; // 5 minutes in milliseconds
 
     // Manually update the last exercise time to simulate rest
-    const chestFatigue = calculator['muscleFatigue'].get('Chest');
+    const chestFatigue = calculator['muscleFatigue'].get('chest');
     if (chestFatigue) {
       chestFatigue.lastExerciseTime = currentTime - restTime;
-      calculator['muscleFatigue'].set('Chest', chestFatigue);
+      calculator['muscleFatigue'].set('chest', chestFatigue);
     }
 
     setFatigueLevels(calculator.getAllFatigueLevels());
@@ -79,8 +80,10 @@ export default function FatigueDemo() {
       <View style={styles.fatigueContainer}>
         <Text style={styles.sectionTitle}>Current Fatigue Levels:</Text>
         {fatigueLevels.map((fatigue) => (
-          <View key={fatigue.muscleGroup} style={styles.fatigueItem}>
-            <Text style={styles.muscleName}>{fatigue.muscleGroup}</Text>
+          <View key={fatigue.muscle} style={styles.fatigueItem}>
+            <Text style={styles.muscleName}>
+              {MUSCLE_LABELS[fatigue.muscle]}
+            </Text>
             <Text style={styles.fatigueLevel}>
               {Math.round(fatigue.fatigueLevel)}%
             </Text>
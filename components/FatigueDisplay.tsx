@@ -2,11 +2,13 @@ import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Activity, AlertTriangle, TrendingUp, Zap } from 'lucide-react-native';
-import { MuscleFatigue } from '@/lib/fatigue';
+import { MuscleFatigue, getFatigueColor } from '@/lib/fatigue';
+import { MUSCLE_LABELS, getExerciseMuscles } from '@/lib/muscles';
 
 interface FatigueDisplayProps {
   fatigueLevels: MuscleFatigue[];
   currentExercise?: {
+    id?: string;
     muscleGroup: string;
     targetMuscles?: string[];
   };
@@ -22,13 +24,6 @@ export default function FatigueDisplay({
   currentExercise,
   recommendations,
 }: FatigueDisplayProps) {
-  const getFatigueColor = (level: number) => {
-    if (level < 30) return '#10B981'; // Green
-    if (level < 60) return '#F59E0B'; // Yellow
-    if (level < 80) return '#F97316'; // Orange
-    return '#EF4444'; // Red
-  };
-
   const getFatigueStatus = (level: number) => {
     if (level < 30) return 'Fresh';
     if (level < 60) return 'Moderate';
@@ -43,8 +38,12 @@ export default function FatigueDisplay({
     return <Zap size={16} color="#EF4444" />;
   };
 
-  const currentExerciseFatigue = currentExercise
-    ? fatigueLevels.find((f) => f.muscleGroup === currentExercise.muscleGroup)
+  // The exercise's prime mover
+  const currentMuscle = currentExercise
+    ? getExerciseMuscles(currentExercise)[0]?.muscle
+    : undefined;
+  const currentExerciseFatigue = currentMuscle
+    ? fatigueLevels.find((f) => f.muscle === currentMuscle)
     : null;
 
   return (
@@ -62,7 +61,7 @@ export default function FatigueDisplay({
             <View style={styles.fatigueHeader}>
               {getFatigueIcon(currentExerciseFatigue.fatigueLevel)}
               <Text style={styles.muscleGroup}>
-                {currentExerciseFatigue.muscleGroup}
+                {MUSCLE_LABELS[currentExerciseFatigue.muscle]}
               </Text>
               <Text
                 style={[
@@ -100,10 +99,12 @@ export default function FatigueDisplay({
         <Text style={styles.sectionTitle}>All Muscle Groups</Text>
         <View style={styles.muscleGrid}>
           {fatigueLevels.slice(0, 6).map((fatigue) => (
-            <View key={fatigue.muscleGroup} style={styles.muscleItem}>
+            <View key={fatigue.muscle} style={styles.muscleItem}>
               <View style={styles.muscleHeader}>
                 {getFatigueIcon(fatigue.fatigueLevel)}
-                <Text style={styles.muscleName}>{fatigue.muscleGroup}</Text>
+                <Text style={styles.muscleName}>
+                  {MUSCLE_LABELS[fatigue.muscle]}
+                </Text>
               </View>
               <Text
                 style={[
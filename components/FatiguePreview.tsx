@@ -0,0 +1,190 @@
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import Svg, { Line, Polyline } from 'react-native-svg';
+import { Activity, AlertTriangle } from 'lucide-react-native';
+import { Muscle, MUSCLE_LABELS } from '@/lib/muscles';
+import {
+  FATIGUE_WARNING_THRESHOLD,
+  PlannedExercise,
+  simulateWorkout,
+} from '@/lib/fatigueSimulation';
+
+interface FatiguePreviewProps {
+  plan: PlannedExercise[];
+  defaultRest: number; // seconds, for exercises without their own rest
+  style?: StyleProp<ViewStyle>;
+}
+
+// Lines drawn for the muscles that get most fatigued
+const LINE_COLORS = ['#EF4444', '#F59E0B', '#3B82F6'];
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 100;
+
+// Projected fatigue of the hardest-hit muscles over a planned workout, with
+// a warning for each muscle it would push past the threshold
+export default function FatiguePreview({
+  plan,
+  defaultRest,
+  style,
+}: FatiguePreviewProps) {
+  const simulation = useMemo(
+    () => simulateWorkout(plan, defaultRest),
+    [plan, defaultRest]
+  );
+  if (simulation.projections.length === 0) return null;
+
+  const topMuscles = (Object.keys(simulation.peaks) as Muscle[])
+    .sort((a, b) => (simulation.peaks[b] || 0) - (simulation.peaks[a] || 0))
+    .slice(0, LINE_COLORS.length);
+
+  // Every line starts fresh at minute 0
+  const duration = Math.max(simulation.durationMinutes, 1);
+  const toPoint = (minute: number, fatigue: number) =>
+    `${(minute / duration) * CHART_WIDTH},${
+      CHART_HEIGHT - (fatigue / 100) * CHART_HEIGHT
+    }`;
+  const getPoints = (muscle: Muscle) =>
+    [
+      toPoint(0, 0),
+      ...simulation.projections.map((projection) =>
+        toPoint(projection.minute, projection.fatigue[muscle] || 0)
+      ),
+    ].join(' ');
+  const thresholdY =
+    CHART_HEIGHT - (FATIGUE_WARNING_THRESHOLD / 100) * CHART_HEIGHT;
+
+  return (
+    <View style={[styles.card, style]}>
+      <View style={styles.header}>
+        <Activity size={18} color="#A78BFA" />
+        <Text style={styles.title}>Projected Fatigue</Text>
+        <Text style={styles.duration}>~{simulation.durationMinutes} min</Text>
+      </View>
+
+      <Svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        preserveAspectRatio="none"
+        style={styles.chart}
+      >
+        <Line
+          x1={0}
+          y1={thresholdY}
+          x2={CHART_WIDTH}
+          y2={thresholdY}
+          stroke="#64748B"
+          strokeWidth={1}
+          strokeDasharray="4 4"
+        />
+        {topMuscles.map((muscle, index) => (
+          <Polyline
+            key={muscle}
+            points={getPoints(muscle)}
+            fill="none"
+            stroke={LINE_COLORS[index]}
+            strokeWidth={2}
+          />
+        ))}
+      </Svg>
+
+      <View style={styles.legend}>
+        {topMuscles.map((muscle, index) => (
+          <View key={muscle} style={styles.legendItem}>
+            <View
+              style={[
+                styles.legendSwatch,
+                { backgroundColor: LINE_COLORS[index] },
+              ]}
+            />
+            <Text style={styles.legendText}>
+              {`${MUSCLE_LABELS[muscle]} ${Math.round(
+                simulation.peaks[muscle] || 0
+              )}%`}
+            </Text>
+          </View>
+        ))}
+      </View>
+
+      {simulation.warnings.length > 0 ? (
+        simulation.warnings.map((warning) => (
+          <View key={warning.muscle} style={styles.warning}>
+            <AlertTriangle size={14} color="#F97316" />
+            <Text style={styles.warningText}>
+              {MUSCLE_LABELS[warning.muscle]} would reach{' '}
+              {Math.round(warning.fatigue)}% fatigue during{' '}
+              {warning.exerciseName} (~{Math.round(warning.minute)} min in)
+            </Text>
+          </View>
+        ))
+      ) : (
+        <Text style={styles.okText}>
+          No muscle goes past {FATIGUE_WARNING_THRESHOLD}% fatigue
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    padding: 16,
+    borderRadius: 16,
+    backgroundColor: '#1A1A2E',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  title: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  duration: {
+    fontSize: 13,
+    color: '#94A3B8',
+  },
+  chart: {
+    width: '100%',
+    height: CHART_HEIGHT,
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginTop: 12,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  legendSwatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  legendText: {
+    fontSize: 12,
+    color: '#94A3B8',
+  },
+  warning: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+    marginTop: 10,
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#F97316',
+  },
+  okText: {
+    fontSize: 13,
+    color: '#10B981',
+    marginTop: 10,
+  },
+});
@@ -0,0 +1,672 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  Modal,
+  AppState,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import * as Haptics from 'expo-haptics';
+import { useAudioPlayer } from 'expo-audio';
+import { Minus, Pause, Play, Plus, Square, X } from 'lucide-react-native';
+import { LoggedSetInput } from '@/types/workout';
+import {
+  IntervalConfig,
+  IntervalMode,
+  IntervalPhaseType,
+  INTERVAL_MODES,
+  INTERVAL_MODE_LABELS,
+  INTERVAL_MODE_DESCRIPTIONS,
+  DEFAULT_INTERVAL_CONFIGS,
+  PREPARE_SECONDS,
+  COUNTDOWN_CUE_SECONDS,
+  buildIntervalPhases,
+  getIntervalTotalSeconds,
+  getIntervalPosition,
+  buildRoundSet,
+} from '@/lib/intervals';
+import { formatDuration } from '@/lib/tracking';
+import { useNotifications } from '@/hooks/useNotifications';
+import { useSettings } from '@/hooks/useSettings';
+
+interface IntervalTimerProps {
+  visible: boolean;
+  exerciseName: string;
+  onLogRound: (set: LoggedSetInput, config: IntervalConfig) => void;
+  onFinish: (config: IntervalConfig) => void;
+  onClose: () => void;
+}
+
+type Stage = 'setup' | 'running' | 'done';
+
+const PHASE_LABELS: Record<IntervalPhaseType, string> = {
+  prepare: 'Get Ready',
+  work: 'Work',
+  rest: 'Rest',
+};
+
+const PHASE_COLORS: Record<IntervalPhaseType, string> = {
+  prepare: '#F59E0B',
+  work: '#EF4444',
+  rest: '#10B981',
+};
+
+export default function IntervalTimer({
+  visible,
+  exerciseName,
+  onLogRound,
+  onFinish,
+  onClose,
+}: IntervalTimerProps) {
+  const { settings } = useSettings();
+  const { scheduleIntervalPhaseNotification, cancelIntervalNotifications } =
+    useNotifications();
+
+  const [stage, setStage] = useState<Stage>('setup');
+  const [config, setConfig] = useState<IntervalConfig>(
+    DEFAULT_INTERVAL_CONFIGS.tabata
+  );
+  const [repsPerRound, setRepsPerRound] = useState('');
+  const [startedAt, setStartedAt] = useState(0);
+  const [pausedAt, setPausedAt] = useState<number | null>(null);
+  const [pausedTotal, setPausedTotal] = useState(0); // ms spent paused
+  const [now, setNow] = useState(Date.now());
+  const [roundsLogged, setRoundsLogged] = useState(0);
+  const [lastRoundAt, setLastRoundAt] = useState(0); // AMRAP work seconds
+
+  const lastIndexRef = useRef(0);
+  const lastCueRef = useRef<number | null>(null);
+
+  const countdownSound = useAudioPlayer(
+    require('@/assets/sounds/countdown.wav')
+  );
+  const phaseSound = useAudioPlayer(require('@/assets/sounds/phase.wav'));
+
+  const phases = buildIntervalPhases(config);
+  const totalSeconds = getIntervalTotalSeconds(phases);
+  const elapsed =
+    stage === 'running'
+      ? Math.max(0, ((pausedAt ?? now) - startedAt - pausedTotal) / 1000)
+      : 0;
+  const position = getIntervalPosition(phases, elapsed);
+  const isPaused = pausedAt !== null;
+  const isAmrap = config.mode === 'amrap';
+  const reps = parseInt(repsPerRound) || undefined;
+
+  useEffect(() => {
+    if (visible) {
+      setStage('setup');
+      setPausedAt(null);
+      setRoundsLogged(0);
+    }
+  }, [visible]);
+
+  useEffect(() => {
+    if (stage !== 'running' || isPaused) return;
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [stage, isPaused]);
+
+  // A beep and a buzz, each behind its own setting
+  const cue = (type: 'countdown' | 'phase' | 'finish') => {
+    if (settings.soundEffects) {
+      const sound = type === 'countdown' ? countdownSound : phaseSound;
+      sound.seekTo(0);
+      sound.play();
+    }
+
+    if (!settings.vibration) return;
+    if (type === 'countdown') {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    } else {
+      Haptics.notificationAsync(
+        type === 'finish'
+          ? Haptics.NotificationFeedbackType.Success
+          : Haptics.NotificationFeedbackType.Warning
+      );
+    }
+  };
+
+  const logRound = (durationSeconds: number) => {
+    onLogRound(buildRoundSet(config, durationSeconds, reps), config);
+    setRoundsLogged((count) => count + 1);
+  };
+
+  // Phase changes. Several phases can pass between ticks if the app was in
+  // the background, so every work phase passed is logged, not just the last
+  useEffect(() => {
+    if (stage !== 'running') return;
+    const previousIndex = lastIndexRef.current;
+    if (position.index === previousIndex) return;
+    lastIndexRef.current = position.index;
+
+    if (!isAmrap) {
+      phases
+        .slice(previousIndex, position.index)
+        .filter((phase) => phase.type === 'work')
+        .forEach((phase) => logRound(phase.duration));
+    }
+
+    if (position.finished) {
+      cue('finish');
+      cancelIntervalNotifications();
+      setStage('done');
+    } else {
+      cue('phase');
+    }
+  }, [stage, position.index]);
+
+  useEffect(() => {
+    if (stage !== 'running' || isPaused || position.finished) return;
+    if (
+      position.remaining <= COUNTDOWN_CUE_SECONDS &&
+      position.remaining !== lastCueRef.current
+    ) {
+      lastCueRef.current = position.remaining;
+      cue('countdown');
+    }
+  }, [stage, isPaused, position.remaining]);
+
+  // Haptics stop while the app is in the background, so announce the next
+  // phase change with a notification instead
+  useEffect(() => {
+    if (stage !== 'running' || isPaused) return;
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        cancelIntervalNotifications();
+        return;
+      }
+      const next = phases[position.index + 1];
+      scheduleIntervalPhaseNotification(
+        position.remaining,
+        next ? PHASE_LABELS[next.type] : 'Intervals complete',
+        next
+          ? `${exerciseName} • Round ${next.round}`
+          : `${exerciseName} is done. Nice work!`
+      );
+    });
+    return () => subscription.remove();
+  }, [stage, isPaused, position.index, position.remaining]);
+
+  const selectMode = (mode: IntervalMode) => {
+    setConfig(DEFAULT_INTERVAL_CONFIGS[mode]);
+  };
+
+  const adjustConfig = (
+    field: 'workSeconds' | 'restSeconds' | 'rounds',
+    delta: number,
+    min: number
+  ) => {
+    setConfig((prev) => ({
+      ...prev,
+      [field]: Math.max(min, prev[field] + delta),
+    }));
+  };
+
+  const handleStart = () => {
+    lastIndexRef.current = 0;
+    lastCueRef.current = null;
+    setStartedAt(Date.now());
+    setNow(Date.now());
+    setPausedAt(null);
+    setPausedTotal(0);
+    setRoundsLogged(0);
+    setLastRoundAt(0);
+    setStage('running');
+  };
+
+  const handlePauseResume = () => {
+    if (pausedAt === null) {
+      setPausedAt(Date.now());
+      cancelIntervalNotifications();
+    } else {
+      setPausedTotal((total) => total + Date.now() - pausedAt);
+      setNow(Date.now());
+      setPausedAt(null);
+    }
+  };
+
+  // AMRAP rounds are logged as they are finished, timed from the last one
+  const handleRoundDone = () => {
+    const workSeconds = elapsed - PREPARE_SECONDS;
+    logRound(workSeconds - lastRoundAt);
+    setLastRoundAt(workSeconds);
+    cue('phase');
+  };
+
+  const handleEnd = () => {
+    cancelIntervalNotifications();
+    setStage('done');
+  };
+
+  const renderStepper = (
+    label: string,
+    value: string,
+    onDecrease: () => void,
+    onIncrease: () => void
+  ) => (
+    <View style={styles.stepperRow}>
+      <Text style={styles.stepperLabel}>{label}</Text>
+      <View style={styles.stepper}>
+        <TouchableOpacity style={styles.stepperButton} onPress={onDecrease}>
+          <Minus size={16} color="#FFFFFF" />
+        </TouchableOpacity>
+        <Text style={styles.stepperValue}>{value}</Text>
+        <TouchableOpacity style={styles.stepperButton} onPress={onIncrease}>
+          <Plus size={16} color="#FFFFFF" />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const workStep = isAmrap ? 60 : config.mode === 'emom' ? 15 : 5;
+  const phaseColor = position.phase
+    ? PHASE_COLORS[position.phase.type]
+    : '#10B981';
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="fullScreen"
+    >
+      <SafeAreaView style={styles.container}>
+        <LinearGradient
+          colors={['#0F0F23', '#1A1A2E', '#0F0F23']}
+          style={styles.background}
+        >
+          {/* Header */}
+          <View style={styles.header}>
+            <View style={styles.headerText}>
+              <Text style={styles.headerTitle}>
+                {INTERVAL_MODE_LABELS[config.mode]} Intervals
+              </Text>
+              <Text style={styles.headerSubtitle}>{exerciseName}</Text>
+            </View>
+            {stage === 'setup' && (
+              <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+                <X size={20} color="#94A3B8" />
+              </TouchableOpacity>
+            )}
+          </View>
+
+          {stage === 'setup' && (
+            <ScrollView
+              style={styles.content}
+              showsVerticalScrollIndicator={false}
+            >
+              <View style={styles.modeGrid}>
+                {INTERVAL_MODES.map((mode) => (
+                  <TouchableOpacity
+                    key={mode}
+                    style={[
+                      styles.modeButton,
+                      config.mode === mode && styles.selectedModeButton,
+                    ]}
+                    onPress={() => selectMode(mode)}
+                  >
+                    <Text
+                      style={[
+                        styles.modeButtonText,
+                        config.mode === mode && styles.selectedModeButtonText,
+                      ]}
+                    >
+                      {INTERVAL_MODE_LABELS[mode]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <Text style={styles.modeDescription}>
+                {INTERVAL_MODE_DESCRIPTIONS[config.mode]}
+              </Text>
+
+              <View style={styles.settingsCard}>
+                {renderStepper(
+                  isAmrap
+                    ? 'Time cap'
+                    : config.mode === 'emom'
+                    ? 'Every'
+                    : 'Work',
+                  formatDuration(config.workSeconds),
+                  () => adjustConfig('workSeconds', -workStep, workStep),
+                  () => adjustConfig('workSeconds', workStep, workStep)
+                )}
+                {config.mode !== 'emom' &&
+                  !isAmrap &&
+                  renderStepper(
+                    'Rest',
+                    formatDuration(config.restSeconds),
+                    () => adjustConfig('restSeconds', -5, 0),
+                    () => adjustConfig('restSeconds', 5, 0)
+                  )}
+                {!isAmrap &&
+                  renderStepper(
+                    'Rounds',
+                    config.rounds.toString(),
+                    () => adjustConfig('rounds', -1, 1),
+                    () => adjustConfig('rounds', 1, 1)
+                  )}
+
+                <View style={styles.stepperRow}>
+                  <Text style={styles.stepperLabel}>Reps per round</Text>
+                  <TextInput
+                    style={styles.repsInput}
+                    value={repsPerRound}
+                    onChangeText={setRepsPerRound}
+                    keyboardType="numeric"
+                    placeholder="Optional"
+                    placeholderTextColor="#64748B"
+                  />
+                </View>
+              </View>
+
+              <Text style={styles.totalText}>
+                Total {formatDuration(totalSeconds - PREPARE_SECONDS)}
+              </Text>
+
+              <TouchableOpacity
+                style={styles.primaryButton}
+                onPress={handleStart}
+              >
+                <LinearGradient
+                  colors={['#6B46C1', '#8B5CF6']}
+                  style={styles.primaryButtonGradient}
+                >
+                  <Play size={20} color="#FFFFFF" />
+                  <Text style={styles.primaryButtonText}>Start</Text>
+                </LinearGradient>
+              </TouchableOpacity>
+            </ScrollView>
+          )}
+
+          {stage === 'running' && position.phase && (
+            <View style={styles.runningContent}>
+              <Text style={[styles.phaseLabel, { color: phaseColor }]}>
+                {PHASE_LABELS[position.phase.type]}
+              </Text>
+              <Text style={[styles.phaseTime, { color: phaseColor }]}>
+                {formatDuration(position.remaining)}
+              </Text>
+              <Text style={styles.roundText}>
+                {isAmrap
+                  ? `Round ${roundsLogged + 1}`
+                  : `Round ${Math.max(1, position.phase.round)} of ${
+                      config.rounds
+                    }`}
+              </Text>
+              <Text style={styles.totalText}>
+                {formatDuration(Math.ceil(totalSeconds - elapsed))} left •{' '}
+                {roundsLogged} {roundsLogged === 1 ? 'round' : 'rounds'} logged
+              </Text>
+
+              {isAmrap && (
+                <TouchableOpacity
+                  style={[
+                    styles.roundButton,
+                    (position.phase.type !== 'work' || isPaused) &&
+                      styles.disabledButton,
+                  ]}
+                  onPress={handleRoundDone}
+                  disabled={position.phase.type !== 'work' || isPaused}
+                >
+                  <Text style={styles.roundButtonText}>Round Done</Text>
+                </TouchableOpacity>
+              )}
+
+              <View style={styles.controls}>
+                <TouchableOpacity
+                  style={styles.controlButton}
+                  onPress={handleEnd}
+                >
+                  <Square size={20} color="#EF4444" />
+                  <Text style={styles.controlButtonText}>End</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.controlButton}
+                  onPress={handlePauseResume}
+                >
+                  {isPaused ? (
+                    <Play size={20} color="#FFFFFF" />
+                  ) : (
+                    <Pause size={20} color="#FFFFFF" />
+                  )}
+                  <Text style={styles.controlButtonText}>
+                    {isPaused ? 'Resume' : 'Pause'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+
+          {stage === 'done' && (
+            <View style={styles.runningContent}>
+              <Text style={styles.doneTitle}>Intervals Complete</Text>
+              <Text style={styles.roundText}>
+                {roundsLogged} {roundsLogged === 1 ? 'round' : 'rounds'} logged
+              </Text>
+              <TouchableOpacity
+                style={styles.primaryButton}
+                onPress={() => onFinish(config)}
+              >
+                <LinearGradient
+                  colors={['#6B46C1', '#8B5CF6']}
+                  style={styles.primaryButtonGradient}
+                >
+                  <Text style={styles.primaryButtonText}>Continue Workout</Text>
+                </LinearGradient>
+              </TouchableOpacity>
+            </View>
+          )}
+        </LinearGradient>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0F0F23',
+  },
+  background: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1A1A2E',
+  },
+  headerText: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#94A3B8',
+    marginTop: 2,
+  },
+  closeButton: {
+    padding: 8,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  modeGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  modeButton: {
+    flexGrow: 1,
+    minWidth: '45%',
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: '#1A1A2E',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#1A1A2E',
+  },
+  selectedModeButton: {
+    borderColor: '#6B46C1',
+    backgroundColor: '#6B46C1' + '20',
+  },
+  modeButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#94A3B8',
+  },
+  selectedModeButtonText: {
+    color: '#FFFFFF',
+  },
+  modeDescription: {
+    fontSize: 14,
+    color: '#94A3B8',
+    marginTop: 12,
+    marginBottom: 20,
+  },
+  settingsCard: {
+    backgroundColor: '#1A1A2E',
+    borderRadius: 12,
+    padding: 16,
+    gap: 16,
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  stepperLabel: {
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#6B46C1',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperValue: {
+    minWidth: 64,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    textAlign: 'center',
+  },
+  repsInput: {
+    minWidth: 96,
+    fontSize: 16,
+    color: '#FFFFFF',
+    textAlign: 'center',
+    backgroundColor: '#0F0F23',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  totalText: {
+    fontSize: 14,
+    color: '#64748B',
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  primaryButton: {
+    borderRadius: 12,
+    overflow: 'hidden',
+    marginTop: 24,
+    alignSelf: 'stretch',
+  },
+  primaryButtonGradient: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 16,
+    gap: 8,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  runningContent: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  phaseLabel: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    textTransform: 'uppercase',
+    letterSpacing: 2,
+  },
+  phaseTime: {
+    fontSize: 96,
+    fontWeight: 'bold',
+    marginVertical: 8,
+  },
+  roundText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  roundButton: {
+    alignSelf: 'stretch',
+    marginTop: 32,
+    paddingVertical: 20,
+    borderRadius: 12,
+    backgroundColor: '#EF4444',
+    alignItems: 'center',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  roundButtonText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  controls: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 32,
+  },
+  controlButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: '#1A1A2E',
+  },
+  controlButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  doneTitle: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+    marginBottom: 8,
+  },
+});
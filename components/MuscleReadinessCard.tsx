@@ -0,0 +1,110 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { BatteryCharging } from 'lucide-react-native';
+import { MUSCLE_LABELS } from '@/lib/muscles';
+import {
+  MuscleReadiness,
+  READY_THRESHOLD,
+  formatReadyIn,
+  getReadinessColor,
+} from '@/lib/recovery';
+
+interface MuscleReadinessCardProps {
+  readiness: MuscleReadiness[];
+}
+
+// Muscles still recovering from recent sessions; hidden once everything is
+// ready to train
+export default function MuscleReadinessCard({
+  readiness,
+}: MuscleReadinessCardProps) {
+  const recovering = readiness.filter(
+    (muscle) => muscle.readiness < READY_THRESHOLD
+  );
+  if (recovering.length === 0) return null;
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <BatteryCharging size={18} color="#A78BFA" />
+        <Text style={styles.title}>Recovering</Text>
+      </View>
+      {recovering.map((muscle) => {
+        const color = getReadinessColor(muscle.readiness);
+        return (
+          <View key={muscle.muscle} style={styles.row}>
+            <Text style={styles.muscleName}>
+              {MUSCLE_LABELS[muscle.muscle]}
+            </Text>
+            <View style={styles.bar}>
+              <View
+                style={[
+                  styles.barFill,
+                  { width: `${muscle.readiness}%`, backgroundColor: color },
+                ]}
+              />
+            </View>
+            <Text style={[styles.readiness, { color }]}>
+              {Math.round(muscle.readiness)}%
+            </Text>
+            <Text style={styles.readyIn}>{formatReadyIn(muscle.readyAt)}</Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginHorizontal: 20,
+    marginBottom: 20,
+    padding: 16,
+    borderRadius: 16,
+    backgroundColor: '#1A1A2E',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  muscleName: {
+    width: 80,
+    fontSize: 13,
+    color: '#FFFFFF',
+  },
+  bar: {
+    flex: 1,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#0F0F23',
+    overflow: 'hidden',
+  },
+  barFill: {
+    height: '100%',
+    borderRadius: 3,
+  },
+  readiness: {
+    width: 44,
+    fontSize: 13,
+    fontWeight: '600',
+    textAlign: 'right',
+  },
+  readyIn: {
+    width: 90,
+    fontSize: 12,
+    color: '#94A3B8',
+    textAlign: 'right',
+  },
+});
@@ -0,0 +1,150 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useSettings } from '@/hooks/useSettings';
+import { calculatePlateLoad, getBarWeight } from '@/lib/plates';
+import { WeightUnit, formatWeight } from '@/lib/units';
+
+interface PlateCalculatorProps {
+  targetWeight: number; // kg
+  equipment: string;
+  weightUnit: WeightUnit;
+  onUseWeight?: (weight: number) => void; // kg; offered when the target can't be loaded
+}
+
+// Heavier plates get bigger chips, like the real thing
+const getPlateSize = (weight: number, unit: WeightUnit) => {
+  const relative = Math.min(1, weight / (unit === 'kg' ? 25 : 55));
+  return 20 + Math.round(relative * 24);
+};
+
+export default function PlateCalculator({
+  targetWeight,
+  equipment,
+  weightUnit,
+  onUseWeight,
+}: PlateCalculatorProps) {
+  const { settings } = useSettings();
+  const barWeight = getBarWeight(equipment, weightUnit, settings);
+  const load = calculatePlateLoad(
+    targetWeight,
+    barWeight,
+    settings.plateInventory[weightUnit],
+    weightUnit
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Plates per side</Text>
+        <Text style={styles.barText}>
+          Bar {formatWeight(barWeight, weightUnit)}
+        </Text>
+      </View>
+
+      {load.platesPerSide.length === 0 ? (
+        <Text style={styles.emptyText}>Empty bar</Text>
+      ) : (
+        <View style={styles.plates}>
+          {load.platesPerSide.map((plate, index) => {
+            const size = getPlateSize(plate, weightUnit);
+            return (
+              <View
+                key={index}
+                style={[
+                  styles.plate,
+                  { height: size, minWidth: size, borderRadius: size / 2 },
+                ]}
+              >
+                <Text style={styles.plateText}>{plate}</Text>
+              </View>
+            );
+          })}
+        </View>
+      )}
+
+      {!load.exact && targetWeight > 0 && (
+        <View style={styles.closestRow}>
+          <Text style={styles.closestText}>
+            Can&apos;t load {formatWeight(targetWeight, weightUnit)} exactly.
+            Closest: {formatWeight(load.total, weightUnit)}
+          </Text>
+          {onUseWeight && (
+            <TouchableOpacity
+              style={styles.useButton}
+              onPress={() => onUseWeight(load.total)}
+            >
+              <Text style={styles.useButtonText}>Use</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#0F0F23',
+    borderRadius: 12,
+    padding: 12,
+    marginTop: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#94A3B8',
+  },
+  barText: {
+    fontSize: 12,
+    color: '#64748B',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+  plates: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 6,
+  },
+  plate: {
+    backgroundColor: '#6B46C1',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 6,
+  },
+  plateText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  closestRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  closestText: {
+    flex: 1,
+    fontSize: 12,
+    color: '#F59E0B',
+  },
+  useButton: {
+    backgroundColor: '#F59E0B' + '20',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    marginLeft: 8,
+  },
+  useButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#F59E0B',
+  },
+});
@@ -17,6 +17,7 @@ import { useSettings } from '@/hooks/useSettings';
 interface RestTimerModalProps {
   visible: boolean;
   duration?: number; // in seconds, optional - will use settings default
+  note?: string; // e.g. why the rest was lengthened
   onComplete: () => void;
   onSkip: () => void;
   onClose: () => void;
@@ -27,6 +28,7 @@ const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 export default function RestTimerModal({
   visible,
   duration,
+  note,
   onComplete,
   onSkip,
   onClose,
@@ -138,6 +140,7 @@ export default function RestTimerModal({
               <Clock size={24} color="#6B46C1" />
               <Text style={styles.title}>Rest Timer</Text>
             </View>
+            {note && <Text style={styles.note}>{note}</Text>}
 
             {/* Circular Progress */}
             <View style={styles.timerContainer}>
@@ -308,6 +311,13 @@ const styles = StyleSheet.create({
     color: '#FFFFFF',
     marginLeft: 12,
   },
+  note: {
+    fontSize: 14,
+    color: '#F59E0B',
+    textAlign: 'center',
+    marginTop: -20,
+    marginBottom: 24,
+  },
   timerContainer: {
     marginBottom: 32,
   },
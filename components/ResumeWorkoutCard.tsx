@@ -0,0 +1,86 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Play, X } from 'lucide-react-native';
+import { PersistedActiveWorkout } from '@/hooks/useActiveWorkoutStorage';
+
+interface ResumeWorkoutCardProps {
+  savedWorkout: PersistedActiveWorkout;
+  onResume: () => void;
+  onDiscard: () => void;
+}
+
+export default function ResumeWorkoutCard({
+  savedWorkout,
+  onResume,
+  onDiscard,
+}: ResumeWorkoutCardProps) {
+  const { workout } = savedWorkout;
+  const currentExercise = workout.exercises[workout.currentExerciseIndex];
+  const minutesAgo = Math.round(
+    (Date.now() - workout.startTime.getTime()) / (1000 * 60)
+  );
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.info}>
+        <Text style={styles.title}>Workout in progress</Text>
+        <Text style={styles.details}>
+          {currentExercise?.name || 'Workout'} • {workout.sets.length} sets
+          logged • started {minutesAgo} min ago
+        </Text>
+      </View>
+      <TouchableOpacity style={styles.discardButton} onPress={onDiscard}>
+        <X size={18} color="#94A3B8" />
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.resumeButton} onPress={onResume}>
+        <Play size={16} color="#FFFFFF" />
+        <Text style={styles.resumeButtonText}>Resume workout</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 20,
+    marginBottom: 20,
+    padding: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#6B46C1',
+    backgroundColor: 'rgba(107, 70, 193, 0.15)',
+  },
+  info: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    marginBottom: 4,
+  },
+  details: {
+    fontSize: 13,
+    color: '#94A3B8',
+  },
+  discardButton: {
+    padding: 8,
+    marginRight: 8,
+  },
+  resumeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 20,
+    backgroundColor: '#6B46C1',
+  },
+  resumeButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
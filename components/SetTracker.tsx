@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -7,48 +7,186 @@ import {
   TouchableOpacity,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
-import { Check, Plus, Minus } from 'lucide-react-native';
-import { WorkoutSet } from '@/types/workout';
+import {
+  Check,
+  Plus,
+  Minus,
+  Play,
+  Pause,
+  RotateCcw,
+} from 'lucide-react-native';
+import {
+  LoggedSetInput,
+  SetType,
+  TrackingMode,
+  WorkoutSet,
+} from '@/types/workout';
+import { rirToRpe } from '@/lib/fatigue';
+import { SET_TYPES, SET_TYPE_LABELS, SET_TYPE_COLORS } from '@/lib/sets';
+import {
+  formatDistance,
+  formatDuration,
+  formatSetResult,
+  getTrackingMode,
+  tracksDistance,
+  tracksReps,
+  tracksTime,
+} from '@/lib/tracking';
+import {
+  WeightUnit,
+  WEIGHT_INCREMENTS,
+  fromKg,
+  toKg,
+  formatWeight,
+} from '@/lib/units';
+import { ProgressionSuggestion, formatSessionSummary } from '@/lib/progression';
+import { usesPlates } from '@/lib/plates';
+import PlateCalculator from '@/components/PlateCalculator';
+
+const RPE_OPTIONS = [6, 7, 7.5, 8, 8.5, 9, 9.5, 10];
+const RIR_OPTIONS = [4, 3, 2, 1, 0];
 
 interface SetTrackerProps {
   setNumber: number;
-  onCompleteSet: (weight: number, reps: number) => void;
+  onCompleteSet: (set: LoggedSetInput) => void;
   previousSet?: WorkoutSet;
+  defaultSetType?: SetType;
   exerciseType: 'strength' | 'cardio' | 'flexibility' | 'hiit';
+  trackingMode?: TrackingMode; // inferred from the exercise when missing
   exerciseData?: any; // The current exercise data with equipment info
   generatedSets?: number;
   generatedReps?: number;
-  generatedWeight?: number;
+  generatedWeight?: number; // kg, like every stored weight
+  weightUnit?: WeightUnit; // unit the weight is entered and shown in
+  progression?: ProgressionSuggestion; // from earlier sessions of this exercise
 }
 
 export default function SetTracker({
   setNumber,
   onCompleteSet,
   previousSet,
+  defaultSetType = 'working',
   exerciseType,
+  trackingMode: trackingModeProp,
   exerciseData,
   generatedSets,
   generatedReps,
   generatedWeight,
+  weightUnit = 'kg',
+  progression,
 }: SetTrackerProps) {
-  // Auto-fill with generated values or previous set values
+  // Progression only fills in the first working set; later sets follow the
+  // previous one
+  const suggestion =
+    !previousSet && defaultSetType !== 'warmup' ? progression : undefined;
+
+  // Auto-fill with previous set, progression or generated values; the input
+  // holds the weight in the user's unit
   const [weight, setWeight] = useState(() => {
-    if (previousSet?.weight) return previousSet.weight.toString();
+    if (previousSet?.weight) {
+      return fromKg(previousSet.weight, weightUnit).toString();
+    }
+    if (suggestion?.weight) {
+      return fromKg(suggestion.weight, weightUnit).toString();
+    }
     if (generatedWeight && generatedWeight > 0)
-      return generatedWeight.toString();
+      return fromKg(generatedWeight, weightUnit).toString();
     return '';
   });
 
+  // Settings load asynchronously, so the unit can change after mount
+  const shownWeightUnit = useRef(weightUnit);
+  useEffect(() => {
+    if (shownWeightUnit.current === weightUnit) return;
+    const currentWeight = parseFloat(weight);
+    if (currentWeight > 0) {
+      setWeight(
+        fromKg(
+          toKg(currentWeight, shownWeightUnit.current),
+          weightUnit
+        ).toString()
+      );
+    }
+    shownWeightUnit.current = weightUnit;
+  }, [weightUnit]);
+
   const [reps, setReps] = useState(() => {
     if (previousSet?.reps) return previousSet.reps.toString();
+    if (suggestion?.reps) return suggestion.reps.toString();
     if (generatedReps) return generatedReps.toString();
     return '';
   });
 
-  const [duration, setDuration] = useState('');
+  // History loads after the tracker mounts; apply the suggestion unless the
+  // user has already started typing
+  const hasEdited = useRef(false);
+  useEffect(() => {
+    if (!suggestion || hasEdited.current) return;
+    if (suggestion.weight) {
+      setWeight(fromKg(suggestion.weight, weightUnit).toString());
+    }
+    if (suggestion.reps) setReps(suggestion.reps.toString());
+  }, [suggestion?.action, suggestion?.weight, suggestion?.reps]);
+
+  const trackingMode =
+    trackingModeProp ||
+    getTrackingMode({
+      category: exerciseType,
+      name: exerciseData?.name,
+      trackingMode: exerciseData?.trackingMode,
+    });
+
+  const [distance, setDistance] = useState(() =>
+    previousSet?.distance ? previousSet.distance.toString() : ''
+  );
+
+  // Timed sets: a stopwatch by default, or a countdown to a target time
+  const [timerMode, setTimerMode] = useState<'stopwatch' | 'countdown'>(
+    'stopwatch'
+  );
+  const [targetSeconds, setTargetSeconds] = useState(
+    previousSet?.duration || 60
+  );
+  const [elapsedSeconds, setElapsedSeconds] = useState(0);
+  const [isTimerRunning, setIsTimerRunning] = useState(false);
+  // When the timer would have started had it never been paused
+  const timerStartedAt = useRef(0);
+  const [effortMode, setEffortMode] = useState<'rpe' | 'rir'>('rpe');
+  const [rpe, setRpe] = useState<number | undefined>(undefined);
+  const [setType, setSetType] = useState<SetType>(defaultSetType);
+  const [note, setNote] = useState('');
+
+  // Elapsed time comes from the clock rather than counted ticks, which fall
+  // behind when intervals are delayed or the app is in the background
+  useEffect(() => {
+    let interval: ReturnType<typeof setInterval>;
+
+    if (isTimerRunning) {
+      interval = setInterval(() => {
+        const seconds = Math.floor(
+          (Date.now() - timerStartedAt.current) / 1000
+        );
+        if (timerMode === 'countdown' && seconds >= targetSeconds) {
+          setIsTimerRunning(false);
+          setElapsedSeconds(targetSeconds);
+        } else {
+          setElapsedSeconds(seconds);
+        }
+      }, 250);
+    }
+
+    return () => {
+      if (interval) {
+        clearInterval(interval);
+      }
+    };
+  }, [isTimerRunning, timerMode, targetSeconds]);
 
   // Check if this exercise requires weight (not bodyweight)
   const requiresWeight = () => {
+    // Loaded carries always need a weight; timed and cardio sets never do
+    if (trackingMode === 'weight_distance') return true;
+    if (!tracksReps(trackingMode)) return false;
     if (!exerciseData) return exerciseType === 'strength';
 
     // Check if equipment suggests bodyweight exercise
@@ -59,6 +197,7 @@ export default function SetTracker({
     const hasGymAccess =
       exerciseData.equipment?.toLowerCase().includes('gym') ||
       exerciseData.equipment?.toLowerCase() === 'barbell' ||
+      exerciseData.equipment?.toLowerCase() === 'e-z curl bar' ||
       exerciseData.equipment?.toLowerCase() === 'dumbbells' ||
       exerciseData.equipment?.toLowerCase() === 'kettlebells';
 
@@ -73,80 +212,201 @@ export default function SetTracker({
   const handleWeightChange = (value: string) => {
     // Only allow numbers and decimal point
     const numericValue = value.replace(/[^0-9.]/g, '');
+    hasEdited.current = true;
     setWeight(numericValue);
   };
 
   const handleRepsChange = (value: string) => {
     // Only allow whole numbers
     const numericValue = value.replace(/[^0-9]/g, '');
+    hasEdited.current = true;
     setReps(numericValue);
   };
 
   const adjustWeight = (increment: number) => {
     const currentWeight = parseFloat(weight) || 0;
     const newWeight = Math.max(0, currentWeight + increment);
+    hasEdited.current = true;
     setWeight(newWeight.toString());
   };
 
+  const applyLoadableWeight = (weightKg: number) => {
+    hasEdited.current = true;
+    setWeight(fromKg(weightKg, weightUnit).toString());
+  };
+
   const adjustReps = (increment: number) => {
     const currentReps = parseInt(reps) || 0;
     const newReps = Math.max(0, currentReps + increment);
+    hasEdited.current = true;
     setReps(newReps.toString());
   };
 
-  const handleCompleteSet = () => {
-    const weightValue = requiresWeight() ? parseFloat(weight) || 0 : 0;
-    const repsValue = parseInt(reps) || 0;
+  const handleDistanceChange = (value: string) => {
+    const numericValue = value.replace(/[^0-9.]/g, '');
+    setDistance(numericValue);
+  };
+
+  const adjustDistance = (increment: number) => {
+    const currentDistance = parseFloat(distance) || 0;
+    const newDistance = Math.max(0, currentDistance + increment);
+    setDistance(newDistance.toString());
+  };
+
+  // Nudge the target while counting down, or the recorded time otherwise
+  const adjustTime = (increment: number) => {
+    if (timerMode === 'countdown') {
+      setTargetSeconds(Math.max(5, targetSeconds + increment));
+    } else {
+      const seconds = Math.max(0, elapsedSeconds + increment);
+      timerStartedAt.current = Date.now() - seconds * 1000;
+      setElapsedSeconds(seconds);
+    }
+  };
 
-    if (repsValue <= 0) {
-      return; // Don't complete if reps are invalid
+  const toggleTimer = () => {
+    if (!isTimerRunning) {
+      timerStartedAt.current = Date.now() - elapsedSeconds * 1000;
     }
+    setIsTimerRunning(!isTimerRunning);
+  };
+
+  const toggleTimerMode = () => {
+    setIsTimerRunning(false);
+    setElapsedSeconds(0);
+    setTimerMode(timerMode === 'stopwatch' ? 'countdown' : 'stopwatch');
+  };
+
+  const resetTimer = () => {
+    setIsTimerRunning(false);
+    setElapsedSeconds(0);
+  };
+
+  const displayedSeconds =
+    timerMode === 'countdown'
+      ? Math.max(0, targetSeconds - elapsedSeconds)
+      : elapsedSeconds;
 
-    if (requiresWeight() && weightValue <= 0) {
-      return; // Don't complete if weight is required but invalid
+  const toggleEffort = (value: number) => {
+    const valueAsRpe = effortMode === 'rir' ? rirToRpe(value) : value;
+    // Tapping the selected value again clears it; effort is optional
+    setRpe(rpe === valueAsRpe ? undefined : valueAsRpe);
+  };
+
+  const isEffortSelected = (value: number) =>
+    rpe !== undefined &&
+    (effortMode === 'rir' ? rirToRpe(value) : value) === rpe;
+
+  const handleCompleteSet = () => {
+    if (!isValid()) {
+      return; // Don't complete until every tracked value is filled in
     }
 
-    onCompleteSet(weightValue, repsValue);
+    setIsTimerRunning(false);
+    onCompleteSet({
+      weight: requiresWeight() ? toKg(parseFloat(weight) || 0, weightUnit) : 0,
+      reps: tracksReps(trackingMode) ? parseInt(reps) || 0 : undefined,
+      duration: tracksTime(trackingMode) ? elapsedSeconds : undefined,
+      distance: tracksDistance(trackingMode)
+        ? parseFloat(distance) || 0
+        : undefined,
+      rpe,
+      setType,
+      note: note.trim() || undefined,
+    });
   };
 
   const isValid = () => {
-    const repsValid = parseInt(reps) > 0;
-    if (!requiresWeight()) {
-      return repsValid;
+    if (tracksReps(trackingMode) && !(parseInt(reps) > 0)) return false;
+    if (tracksTime(trackingMode) && elapsedSeconds <= 0) return false;
+    if (tracksDistance(trackingMode) && !(parseFloat(distance) > 0)) {
+      return false;
     }
-    return repsValid && parseFloat(weight) > 0;
+    if (requiresWeight() && !(parseFloat(weight) > 0)) return false;
+    return true;
   };
 
   return (
     <View style={styles.container}>
       <LinearGradient colors={['#1A1A2E', '#0F0F23']} style={styles.gradient}>
         <View style={styles.header}>
-          <Text style={styles.setTitle}>Set {setNumber}</Text>
+          <Text style={styles.setTitle}>
+            {setType === 'warmup' ? 'Warm-up Set' : `Set ${setNumber}`}
+          </Text>
           {previousSet && (
             <Text style={styles.previousSet}>
-              Previous: {requiresWeight() ? `${previousSet.weight}kg × ` : ''}
-              {previousSet.reps} reps
+              Previous: {formatSetResult(previousSet, weightUnit)}
+              {previousSet.rpe !== undefined ? ` @ RPE ${previousSet.rpe}` : ''}
             </Text>
           )}
-          {generatedReps && setNumber === 1 && (
-            <Text style={styles.recommendedSet}>
-              Recommended:{' '}
-              {requiresWeight() && generatedWeight
-                ? `${generatedWeight}kg × `
-                : ''}
-              {generatedReps} reps
+          {progression?.lastSession && (
+            <Text style={styles.previousSet}>
+              Last time:{' '}
+              {formatSessionSummary(progression.lastSession, weightUnit)}
             </Text>
           )}
+          {suggestion?.reps ? (
+            <>
+              <Text style={styles.recommendedSet}>
+                Suggested:{' '}
+                {suggestion.weight
+                  ? `${formatWeight(suggestion.weight, weightUnit)} × `
+                  : ''}
+                {suggestion.reps} reps
+              </Text>
+              <Text style={styles.progressionReason}>{suggestion.reason}</Text>
+            </>
+          ) : (
+            generatedReps &&
+            setNumber === 1 &&
+            tracksReps(trackingMode) && (
+              <Text style={styles.recommendedSet}>
+                Recommended:{' '}
+                {requiresWeight() && generatedWeight
+                  ? `${formatWeight(generatedWeight, weightUnit)} × `
+                  : ''}
+                {generatedReps} reps
+              </Text>
+            )
+          )}
+        </View>
+
+        <View style={styles.setTypeOptions}>
+          {SET_TYPES.map((type) => {
+            const isSelected = setType === type;
+            return (
+              <TouchableOpacity
+                key={type}
+                style={[
+                  styles.setTypeChip,
+                  isSelected && {
+                    backgroundColor: SET_TYPE_COLORS[type] + '20',
+                    borderColor: SET_TYPE_COLORS[type],
+                  },
+                ]}
+                onPress={() => setSetType(type)}
+              >
+                <Text
+                  style={[
+                    styles.setTypeChipText,
+                    isSelected && { color: SET_TYPE_COLORS[type] },
+                  ]}
+                >
+                  {SET_TYPE_LABELS[type]}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
         </View>
 
         <View style={styles.inputContainer}>
           {requiresWeight() && (
             <View style={styles.inputGroup}>
-              <Text style={styles.inputLabel}>Weight (kg)</Text>
+              <Text style={styles.inputLabel}>Weight ({weightUnit})</Text>
               <View style={styles.inputRow}>
                 <TouchableOpacity
                   style={styles.adjustButton}
-                  onPress={() => adjustWeight(-2.5)}
+                  onPress={() => adjustWeight(-WEIGHT_INCREMENTS[weightUnit])}
                 >
                   <Minus size={16} color="#6B46C1" />
                 </TouchableOpacity>
@@ -160,7 +420,142 @@ export default function SetTracker({
                 />
                 <TouchableOpacity
                   style={styles.adjustButton}
-                  onPress={() => adjustWeight(2.5)}
+                  onPress={() => adjustWeight(WEIGHT_INCREMENTS[weightUnit])}
+                >
+                  <Plus size={16} color="#6B46C1" />
+                </TouchableOpacity>
+              </View>
+              {usesPlates(exerciseData?.equipment) && (
+                <PlateCalculator
+                  targetWeight={toKg(parseFloat(weight) || 0, weightUnit)}
+                  equipment={exerciseData.equipment}
+                  weightUnit={weightUnit}
+                  onUseWeight={applyLoadableWeight}
+                />
+              )}
+            </View>
+          )}
+
+          {tracksReps(trackingMode) && (
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Reps</Text>
+              <View style={styles.inputRow}>
+                <TouchableOpacity
+                  style={styles.adjustButton}
+                  onPress={() => adjustReps(-1)}
+                >
+                  <Minus size={16} color="#6B46C1" />
+                </TouchableOpacity>
+                <TextInput
+                  style={styles.input}
+                  value={reps}
+                  onChangeText={handleRepsChange}
+                  placeholder="0"
+                  placeholderTextColor="#64748B"
+                  keyboardType="numeric"
+                />
+                <TouchableOpacity
+                  style={styles.adjustButton}
+                  onPress={() => adjustReps(1)}
+                >
+                  <Plus size={16} color="#6B46C1" />
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+
+          {tracksTime(trackingMode) && (
+            <View style={styles.inputGroup}>
+              <View style={styles.effortHeader}>
+                <Text style={styles.inputLabel}>
+                  {timerMode === 'countdown'
+                    ? `Countdown (${formatDuration(targetSeconds)})`
+                    : 'Time'}
+                </Text>
+                <TouchableOpacity
+                  style={styles.effortModeToggle}
+                  onPress={toggleTimerMode}
+                >
+                  <Text style={[styles.effortModeText, styles.timerModeText]}>
+                    {timerMode === 'countdown'
+                      ? 'Use stopwatch'
+                      : 'Use countdown'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+              <View style={styles.inputRow}>
+                <TouchableOpacity
+                  style={styles.adjustButton}
+                  onPress={() => adjustTime(-15)}
+                  disabled={isTimerRunning}
+                >
+                  <Minus size={16} color="#6B46C1" />
+                </TouchableOpacity>
+                <Text style={[styles.input, styles.timerDisplay]}>
+                  {formatDuration(displayedSeconds)}
+                </Text>
+                <TouchableOpacity
+                  style={styles.adjustButton}
+                  onPress={() => adjustTime(15)}
+                  disabled={isTimerRunning}
+                >
+                  <Plus size={16} color="#6B46C1" />
+                </TouchableOpacity>
+              </View>
+              <View style={styles.timerControls}>
+                <TouchableOpacity
+                  style={styles.timerButton}
+                  onPress={toggleTimer}
+                >
+                  {isTimerRunning ? (
+                    <Pause size={16} color="#FFFFFF" />
+                  ) : (
+                    <Play size={16} color="#FFFFFF" />
+                  )}
+                  <Text style={styles.timerButtonText}>
+                    {isTimerRunning
+                      ? 'Pause'
+                      : elapsedSeconds > 0
+                      ? 'Resume'
+                      : 'Start'}
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.timerButton, styles.timerResetButton]}
+                  onPress={resetTimer}
+                >
+                  <RotateCcw size={16} color="#94A3B8" />
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+
+          {tracksDistance(trackingMode) && (
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>
+                Distance (m)
+                {parseFloat(distance) >= 1000
+                  ? ` · ${formatDistance(parseFloat(distance))}`
+                  : ''}
+              </Text>
+              <View style={styles.inputRow}>
+                <TouchableOpacity
+                  style={styles.adjustButton}
+                  onPress={() => adjustDistance(-10)}
+                >
+                  <Minus size={16} color="#6B46C1" />
+                </TouchableOpacity>
+                <TextInput
+                  style={styles.input}
+                  value={distance}
+                  onChangeText={handleDistanceChange}
+                  placeholder="0"
+                  placeholderTextColor="#64748B"
+                  keyboardType="numeric"
+                />
+                <TouchableOpacity
+                  style={styles.adjustButton}
+                  onPress={() => adjustDistance(10)}
                 >
                   <Plus size={16} color="#6B46C1" />
                 </TouchableOpacity>
@@ -169,31 +564,68 @@ export default function SetTracker({
           )}
 
           <View style={styles.inputGroup}>
-            <Text style={styles.inputLabel}>
-              {exerciseType === 'strength' ? 'Reps' : 'Duration (min)'}
-            </Text>
-            <View style={styles.inputRow}>
-              <TouchableOpacity
-                style={styles.adjustButton}
-                onPress={() => adjustReps(-1)}
-              >
-                <Minus size={16} color="#6B46C1" />
-              </TouchableOpacity>
-              <TextInput
-                style={styles.input}
-                value={reps}
-                onChangeText={handleRepsChange}
-                placeholder="0"
-                placeholderTextColor="#64748B"
-                keyboardType="numeric"
-              />
-              <TouchableOpacity
-                style={styles.adjustButton}
-                onPress={() => adjustReps(1)}
-              >
-                <Plus size={16} color="#6B46C1" />
-              </TouchableOpacity>
+            <View style={styles.effortHeader}>
+              <Text style={styles.inputLabel}>
+                {effortMode === 'rpe' ? 'RPE' : 'Reps in Reserve'} (optional)
+              </Text>
+              <View style={styles.effortModeToggle}>
+                {(['rpe', 'rir'] as const).map((mode) => (
+                  <TouchableOpacity
+                    key={mode}
+                    style={[
+                      styles.effortModeButton,
+                      effortMode === mode && styles.effortModeButtonActive,
+                    ]}
+                    onPress={() => setEffortMode(mode)}
+                  >
+                    <Text
+                      style={[
+                        styles.effortModeText,
+                        effortMode === mode && styles.effortModeTextActive,
+                      ]}
+                    >
+                      {mode.toUpperCase()}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
             </View>
+            <View style={styles.effortOptions}>
+              {(effortMode === 'rpe' ? RPE_OPTIONS : RIR_OPTIONS).map(
+                (value) => (
+                  <TouchableOpacity
+                    key={value}
+                    style={[
+                      styles.effortChip,
+                      isEffortSelected(value) && styles.effortChipSelected,
+                    ]}
+                    onPress={() => toggleEffort(value)}
+                  >
+                    <Text
+                      style={[
+                        styles.effortChipText,
+                        isEffortSelected(value) &&
+                          styles.effortChipTextSelected,
+                      ]}
+                    >
+                      {effortMode === 'rir' && value === 4 ? '4+' : value}
+                    </Text>
+                  </TouchableOpacity>
+                )
+              )}
+            </View>
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>Set Note (optional)</Text>
+            <TextInput
+              style={styles.noteInput}
+              value={note}
+              onChangeText={setNote}
+              placeholder="e.g. left shoulder twinged"
+              placeholderTextColor="#64748B"
+              maxLength={200}
+            />
           </View>
         </View>
 
@@ -244,6 +676,30 @@ const styles = StyleSheet.create({
     marginTop: 4,
     fontWeight: '600',
   },
+  progressionReason: {
+    fontSize: 12,
+    color: '#64748B',
+    marginTop: 2,
+  },
+  setTypeOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 20,
+  },
+  setTypeChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#1A1A2E',
+    backgroundColor: '#0F0F23',
+  },
+  setTypeChipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#94A3B8',
+  },
   inputContainer: {
     marginBottom: 20,
   },
@@ -282,6 +738,101 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginHorizontal: 12,
   },
+  timerDisplay: {
+    lineHeight: 50,
+  },
+  timerModeText: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  timerControls: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 12,
+    marginTop: 12,
+  },
+  timerButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 20,
+    backgroundColor: '#6B46C1',
+  },
+  timerResetButton: {
+    paddingHorizontal: 12,
+    backgroundColor: '#0F0F23',
+  },
+  timerButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  noteInput: {
+    height: 44,
+    backgroundColor: '#0F0F23',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#1A1A2E',
+    paddingHorizontal: 16,
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+  effortHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  effortModeToggle: {
+    flexDirection: 'row',
+    backgroundColor: '#0F0F23',
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  effortModeButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 8,
+  },
+  effortModeButtonActive: {
+    backgroundColor: '#6B46C1',
+  },
+  effortModeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#64748B',
+  },
+  effortModeTextActive: {
+    color: '#FFFFFF',
+  },
+  effortOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  effortChip: {
+    minWidth: 40,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#1A1A2E',
+    backgroundColor: '#0F0F23',
+    alignItems: 'center',
+  },
+  effortChipSelected: {
+    backgroundColor: '#6B46C1' + '20',
+    borderColor: '#6B46C1',
+  },
+  effortChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#94A3B8',
+  },
+  effortChipTextSelected: {
+    color: '#FFFFFF',
+  },
   completeButton: {
     borderRadius: 12,
   },
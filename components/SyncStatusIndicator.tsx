@@ -0,0 +1,49 @@
+import React from 'react';
+import { Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { CloudOff, RefreshCw } from 'lucide-react-native';
+import { useSyncStatus } from '@/hooks/useSyncStatus';
+
+// Small pill shown while workouts, PRs or XP are still waiting to sync;
+// tapping it retries straight away instead of waiting for the backoff
+export default function SyncStatusIndicator() {
+  const { pendingCount, isSyncing, retryNow } = useSyncStatus();
+
+  if (pendingCount === 0) return null;
+
+  return (
+    <TouchableOpacity
+      style={styles.container}
+      onPress={retryNow}
+      disabled={isSyncing}
+    >
+      {isSyncing ? (
+        <RefreshCw size={14} color="#F59E0B" />
+      ) : (
+        <CloudOff size={14} color="#F59E0B" />
+      )}
+      <Text style={styles.text}>
+        {isSyncing ? 'Syncing' : `${pendingCount} pending sync`}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#F59E0B',
+    backgroundColor: 'rgba(245, 158, 11, 0.1)',
+  },
+  text: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#F59E0B',
+  },
+});
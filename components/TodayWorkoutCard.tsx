@@ -0,0 +1,154 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { CalendarDays, ChevronRight, Play, Trophy } from 'lucide-react-native';
+import { TrainingProgramRecord } from '@/lib/supabase';
+import { ProgramSession, formatProgramPosition } from '@/lib/programs';
+
+interface TodayWorkoutCardProps {
+  program?: TrainingProgramRecord;
+  session?: ProgramSession;
+  onStart: (session: ProgramSession) => void;
+  onManage: () => void;
+}
+
+// "+5% load • +1 set" for a progressing week
+const describeProgramWeek = (session: ProgramSession): string => {
+  const { programWeek } = session;
+  if (programWeek.isDeload) return 'Deload week: lighter and fewer sets';
+
+  const changes: string[] = [];
+  const loadChange = Math.round((programWeek.loadMultiplier - 1) * 1000) / 10;
+  if (loadChange > 0) changes.push(`+${loadChange}% load`);
+  if (programWeek.extraSets > 0) {
+    changes.push(
+      `+${programWeek.extraSets} ${
+        programWeek.extraSets === 1 ? 'set' : 'sets'
+      } per exercise`
+    );
+  }
+  return changes.length > 0 ? changes.join(' • ') : 'Baseline week';
+};
+
+export default function TodayWorkoutCard({
+  program,
+  session,
+  onStart,
+  onManage,
+}: TodayWorkoutCardProps) {
+  if (!program) {
+    return (
+      <TouchableOpacity style={styles.card} onPress={onManage}>
+        <CalendarDays size={20} color="#6B46C1" />
+        <View style={styles.info}>
+          <Text style={styles.title}>Follow a program</Text>
+          <Text style={styles.details}>
+            Plan weeks of training from your templates, with progression and
+            deloads built in
+          </Text>
+        </View>
+        <ChevronRight size={18} color="#64748B" />
+      </TouchableOpacity>
+    );
+  }
+
+  if (!session) {
+    return (
+      <TouchableOpacity style={styles.card} onPress={onManage}>
+        <Trophy size={20} color="#F59E0B" />
+        <View style={styles.info}>
+          <Text style={styles.title}>{program.name} complete</Text>
+          <Text style={styles.details}>
+            Restart it or pick your next program
+          </Text>
+        </View>
+        <ChevronRight size={18} color="#64748B" />
+      </TouchableOpacity>
+    );
+  }
+
+  return (
+    <View style={[styles.card, styles.activeCard]}>
+      <View style={styles.info}>
+        <TouchableOpacity onPress={onManage}>
+          <Text style={styles.label}>
+            Today&apos;s Workout • {formatProgramPosition(program)}
+          </Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>{session.day.name}</Text>
+        <Text
+          style={[
+            styles.details,
+            session.programWeek.isDeload && styles.deloadText,
+          ]}
+        >
+          {session.template
+            ? describeProgramWeek(session)
+            : 'This template was deleted. Edit the program to replace it.'}
+        </Text>
+      </View>
+      {session.template && (
+        <TouchableOpacity
+          style={styles.startButton}
+          onPress={() => onStart(session)}
+        >
+          <Play size={16} color="#FFFFFF" />
+          <Text style={styles.startButtonText}>Start</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginHorizontal: 20,
+    marginBottom: 20,
+    padding: 16,
+    borderRadius: 16,
+    backgroundColor: '#1A1A2E',
+  },
+  activeCard: {
+    borderWidth: 1,
+    borderColor: '#6B46C1',
+    backgroundColor: 'rgba(107, 70, 193, 0.15)',
+  },
+  info: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#A78BFA',
+    marginBottom: 4,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    marginBottom: 2,
+  },
+  details: {
+    fontSize: 13,
+    color: '#94A3B8',
+  },
+  deloadText: {
+    color: '#10B981',
+  },
+  startButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: '#6B46C1',
+  },
+  startButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,105 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { ChevronRight, Clock, Zap } from 'lucide-react-native';
+import { WorkoutRecord } from '@/lib/supabase';
+
+interface WorkoutHistoryListProps {
+  workouts: WorkoutRecord[];
+  onSelect: (workout: WorkoutRecord) => void;
+}
+
+const formatWorkoutDate = (date: string) =>
+  new Date(date).toLocaleDateString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+
+export default function WorkoutHistoryList({
+  workouts,
+  onSelect,
+}: WorkoutHistoryListProps) {
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Recent Workouts</Text>
+      {workouts.length === 0 ? (
+        <Text style={styles.emptyText}>
+          Finished workouts show up here. Tap one to fix a set or delete it.
+        </Text>
+      ) : (
+        workouts.map((workout) => (
+          <TouchableOpacity
+            key={workout.id}
+            style={styles.row}
+            onPress={() => onSelect(workout)}
+          >
+            <View style={styles.info}>
+              <Text style={styles.date}>{formatWorkoutDate(workout.date)}</Text>
+              <Text style={styles.exercises} numberOfLines={1}>
+                {(workout.exercises || []).map((ex) => ex.name).join(', ') ||
+                  `${workout.total_sets} sets`}
+              </Text>
+            </View>
+            <View style={styles.meta}>
+              <Clock size={12} color="#94A3B8" />
+              <Text style={styles.metaText}>{workout.duration}m</Text>
+            </View>
+            <View style={styles.meta}>
+              <Zap size={12} color="#F59E0B" />
+              <Text style={styles.metaText}>{workout.xp_gained}</Text>
+            </View>
+            <ChevronRight size={18} color="#64748B" />
+          </TouchableOpacity>
+        ))
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    paddingHorizontal: 20,
+    marginBottom: 30,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#64748B',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    padding: 14,
+    marginBottom: 10,
+    borderRadius: 12,
+    backgroundColor: '#1A1A2E',
+  },
+  info: {
+    flex: 1,
+  },
+  date: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    marginBottom: 2,
+  },
+  exercises: {
+    fontSize: 13,
+    color: '#94A3B8',
+  },
+  meta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  metaText: {
+    fontSize: 13,
+    color: '#94A3B8',
+  },
+});
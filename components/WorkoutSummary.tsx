@@ -1,10 +1,11 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   TouchableOpacity,
   ScrollView,
+  TextInput,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import {
@@ -15,19 +16,38 @@ import {
   CircleCheck as CheckCircle,
 } from 'lucide-react-native';
 import { CompletedWorkout } from '@/types/workout';
+import { getSetType, SET_TYPE_BADGES, SET_TYPE_COLORS } from '@/lib/sets';
+import { formatSetResult } from '@/lib/tracking';
+import { WeightUnit, fromKg } from '@/lib/units';
+import {
+  NewPersonalRecord,
+  PERSONAL_RECORD_BADGES,
+  formatRecordValue,
+} from '@/lib/personalRecords';
 import LightningAvatar from './LightningAvatar';
 
 interface WorkoutSummaryProps {
   workout: CompletedWorkout;
   onClose: () => void;
-  onSaveWorkout: () => void;
+  onSaveWorkout: (notes?: string) => void;
+  weightUnit?: WeightUnit;
+  personalRecords?: NewPersonalRecord[]; // records set in this workout
 }
 
 export default function WorkoutSummary({
   workout,
   onClose,
   onSaveWorkout,
+  weightUnit = 'kg',
+  personalRecords = [],
 }: WorkoutSummaryProps) {
+  // A first session only sets baselines; badge the records that were beaten
+  const getBeatenRecords = (exerciseId: string) =>
+    personalRecords.filter(
+      (record) =>
+        record.exercise_id === exerciseId && record.previous !== undefined
+    );
+
   const formatDuration = (minutes: number) => {
     const hours = Math.floor(minutes / 60);
     const mins = minutes % 60;
@@ -37,8 +57,10 @@ export default function WorkoutSummary({
     return `${mins}m`;
   };
 
+  const [notes, setNotes] = useState(workout.notes || '');
+
   const handleSave = () => {
-    onSaveWorkout();
+    onSaveWorkout(notes.trim() || undefined);
     onClose();
   };
 
@@ -134,7 +156,7 @@ export default function WorkoutSummary({
           {/* Exercises Completed */}
           <View style={styles.exercisesSection}>
             <Text style={styles.sectionTitle}>Exercises Completed</Text>
-            <View style={styles.exercisesList}>
+            <View>
               {workout.exercises.map((exercise, index) => (
                 <View key={exercise.id} style={styles.exerciseItem}>
                   <LinearGradient
@@ -150,6 +172,61 @@ export default function WorkoutSummary({
                         <Text style={styles.exerciseMuscle}>
                           {exercise.muscleGroup}
                         </Text>
+                        <View style={styles.setChips}>
+                          {workout.sets
+                            .filter((set) => set.exerciseId === exercise.id)
+                            .map((set) => {
+                              const setType = getSetType(set);
+                              return (
+                                <View
+                                  key={set.id}
+                                  style={[
+                                    styles.setChip,
+                                    setType === 'warmup' && styles.warmupChip,
+                                    setType !== 'working' && {
+                                      borderColor: SET_TYPE_COLORS[setType],
+                                    },
+                                  ]}
+                                >
+                                  {setType !== 'working' && (
+                                    <Text
+                                      style={[
+                                        styles.setChipBadge,
+                                        { color: SET_TYPE_COLORS[setType] },
+                                      ]}
+                                    >
+                                      {SET_TYPE_BADGES[setType]}
+                                    </Text>
+                                  )}
+                                  <Text style={styles.setChipText}>
+                                    {!set.reps
+                                      ? formatSetResult(set, weightUnit)
+                                      : set.weight
+                                      ? `${fromKg(set.weight, weightUnit)}×${
+                                          set.reps
+                                        }`
+                                      : set.reps}
+                                  </Text>
+                                </View>
+                              );
+                            })}
+                        </View>
+                        {getBeatenRecords(exercise.id).length > 0 && (
+                          <View style={styles.prBadges}>
+                            {getBeatenRecords(exercise.id).map((record) => (
+                              <View
+                                key={`${record.record_type}-${record.weight}`}
+                                style={styles.prBadge}
+                              >
+                                <Trophy size={12} color="#F59E0B" />
+                                <Text style={styles.prBadgeText}>
+                                  {PERSONAL_RECORD_BADGES[record.record_type]}{' '}
+                                  {formatRecordValue(record, weightUnit)}
+                                </Text>
+                              </View>
+                            ))}
+                          </View>
+                        )}
                       </View>
                     </View>
                     <View style={styles.exerciseNumber}>
@@ -180,6 +257,20 @@ export default function WorkoutSummary({
             </TouchableOpacity>
           </View>
 
+          {/* Workout Notes */}
+          <View style={styles.notesSection}>
+            <Text style={styles.sectionTitle}>Notes</Text>
+            <TextInput
+              style={styles.notesInput}
+              value={notes}
+              onChangeText={setNotes}
+              placeholder="How did it go? Anything to remember next time?"
+              placeholderTextColor="#64748B"
+              multiline
+              maxLength={500}
+            />
+          </View>
+
           {/* Action Buttons */}
           <View style={styles.actionsContainer}>
             <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
@@ -284,9 +375,6 @@ const styles = StyleSheet.create({
     color: '#FFFFFF',
     marginBottom: 16,
   },
-  exercisesList: {
-    maxHeight: 200,
-  },
   exerciseItem: {
     marginBottom: 12,
   },
@@ -320,6 +408,55 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#94A3B8',
   },
+  setChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 8,
+  },
+  setChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#1A1A2E',
+    backgroundColor: '#0F0F23',
+  },
+  warmupChip: {
+    opacity: 0.6,
+  },
+  setChipBadge: {
+    fontSize: 11,
+    fontWeight: '700',
+    marginRight: 4,
+  },
+  setChipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#E2E8F0',
+  },
+  prBadges: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 8,
+  },
+  prBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 8,
+    backgroundColor: 'rgba(245, 158, 11, 0.15)',
+  },
+  prBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#F59E0B',
+  },
   exerciseNumber: {
     width: 30,
     height: 30,
@@ -336,6 +473,18 @@ const styles = StyleSheet.create({
   xpSection: {
     marginBottom: 30,
   },
+  notesSection: {
+    marginBottom: 30,
+  },
+  notesInput: {
+    minHeight: 80,
+    backgroundColor: '#1A1A2E',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 14,
+    color: '#FFFFFF',
+    textAlignVertical: 'top',
+  },
   xpCard: {
     marginBottom: 16,
   },
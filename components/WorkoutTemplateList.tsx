@@ -0,0 +1,169 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import {
+  Clock,
+  MoreHorizontal,
+  Play,
+  Plus,
+  Sparkles,
+} from 'lucide-react-native';
+import { WorkoutTemplateRecord } from '@/lib/supabase';
+import { estimateWorkoutDuration } from '@/lib/templates';
+
+interface WorkoutTemplateListProps {
+  templates: WorkoutTemplateRecord[];
+  onStart: (template: WorkoutTemplateRecord) => void;
+  onShowOptions: (template: WorkoutTemplateRecord) => void;
+  onCreate: () => void;
+}
+
+const getTemplateDuration = (template: WorkoutTemplateRecord) =>
+  estimateWorkoutDuration(
+    template.exercises.map((ex) => ({
+      sets: ex.sets,
+      restTime: ex.rest_time,
+      restAfterExercise: ex.rest_after_exercise,
+    }))
+  );
+
+export default function WorkoutTemplateList({
+  templates,
+  onStart,
+  onShowOptions,
+  onCreate,
+}: WorkoutTemplateListProps) {
+  return (
+    <View style={styles.section}>
+      <View style={styles.header}>
+        <Text style={styles.sectionTitle}>My Templates</Text>
+        <TouchableOpacity style={styles.createButton} onPress={onCreate}>
+          <Plus size={18} color="#6B46C1" />
+        </TouchableOpacity>
+      </View>
+      {templates.length === 0 ? (
+        <Text style={styles.emptyText}>
+          Save a custom or generated workout as a template to run it again
+          without rebuilding it.
+        </Text>
+      ) : (
+        templates.map((template) => (
+          <TouchableOpacity
+            key={template.client_id}
+            style={styles.row}
+            onPress={() => onShowOptions(template)}
+          >
+            <View style={styles.info}>
+              <View style={styles.nameRow}>
+                <Text style={styles.name} numberOfLines={1}>
+                  {template.name}
+                </Text>
+                {template.source === 'ai' && (
+                  <Sparkles size={12} color="#F59E0B" />
+                )}
+              </View>
+              <Text style={styles.exercises} numberOfLines={1}>
+                {template.exercises.map((ex) => ex.name).join(', ')}
+              </Text>
+            </View>
+            <View style={styles.meta}>
+              <Clock size={12} color="#94A3B8" />
+              <Text style={styles.metaText}>
+                {getTemplateDuration(template)}m
+              </Text>
+            </View>
+            <TouchableOpacity
+              style={styles.optionsButton}
+              onPress={() => onShowOptions(template)}
+            >
+              <MoreHorizontal size={18} color="#64748B" />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.startButton}
+              onPress={() => onStart(template)}
+            >
+              <Play size={14} color="#FFFFFF" />
+            </TouchableOpacity>
+          </TouchableOpacity>
+        ))
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    paddingHorizontal: 20,
+    marginBottom: 30,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  createButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#1A1A2E',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#64748B',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    padding: 14,
+    marginBottom: 10,
+    borderRadius: 12,
+    backgroundColor: '#1A1A2E',
+  },
+  info: {
+    flex: 1,
+  },
+  nameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 2,
+  },
+  name: {
+    flexShrink: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  exercises: {
+    fontSize: 13,
+    color: '#94A3B8',
+  },
+  meta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  metaText: {
+    fontSize: 13,
+    color: '#94A3B8',
+  },
+  optionsButton: {
+    padding: 4,
+  },
+  startButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#6B46C1',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
@@ -0,0 +1,88 @@
+import { useState, useEffect } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ActiveWorkout } from '@/types/workout';
+import { FatigueSnapshot } from '@/lib/fatigue';
+
+// Everything needed to put the active workout screen back where it was
+export interface PersistedActiveWorkout {
+  workout: ActiveWorkout;
+  currentSetNumber: number;
+  fatigue: FatigueSnapshot | null;
+  restEndsAt: number | null; // timestamp the running rest period ends at
+  generatedWorkoutData?: any; // original AI workout, for Bolt chat
+  savedAt: number;
+}
+
+const ACTIVE_WORKOUT_STORAGE_KEY = '@boltlab_active_workout';
+
+export const saveActiveWorkout = async (
+  state: Omit<PersistedActiveWorkout, 'savedAt'>
+) => {
+  try {
+    const { fatigueCalculator, ...workout } = state.workout;
+    await AsyncStorage.setItem(
+      ACTIVE_WORKOUT_STORAGE_KEY,
+      JSON.stringify({ ...state, workout, savedAt: Date.now() })
+    );
+  } catch (error) {
+    console.error('Error saving active workout:', error);
+  }
+};
+
+export const loadActiveWorkout =
+  async (): Promise<PersistedActiveWorkout | null> => {
+    try {
+      const stored = await AsyncStorage.getItem(ACTIVE_WORKOUT_STORAGE_KEY);
+      if (!stored) return null;
+
+      const parsed = JSON.parse(stored);
+      return {
+        ...parsed,
+        // Convert the date string back to a Date object
+        workout: {
+          ...parsed.workout,
+          startTime: new Date(parsed.workout.startTime),
+        },
+      };
+    } catch (error) {
+      console.error('Error loading active workout:', error);
+      return null;
+    }
+  };
+
+export const clearActiveWorkout = async () => {
+  try {
+    await AsyncStorage.removeItem(ACTIVE_WORKOUT_STORAGE_KEY);
+  } catch (error) {
+    console.error('Error clearing active workout:', error);
+  }
+};
+
+// Unfinished workout left behind by a crash or by navigating away
+export function useActiveWorkoutStorage() {
+  const [savedWorkout, setSavedWorkout] =
+    useState<PersistedActiveWorkout | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const refresh = async () => {
+    setLoading(true);
+    setSavedWorkout(await loadActiveWorkout());
+    setLoading(false);
+  };
+
+  const discard = async () => {
+    await clearActiveWorkout();
+    setSavedWorkout(null);
+  };
+
+  return {
+    savedWorkout,
+    loading,
+    refresh,
+    discard,
+  };
+}
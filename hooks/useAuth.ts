@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { supabase, Profile } from '@/lib/supabase';
+import { syncQueue } from '@/lib/syncQueue';
 import { Session, User } from '@supabase/supabase-js';
 
 const MAX_RETRIES = 3;
@@ -18,6 +19,7 @@ export function useAuth() {
     supabase.auth.getSession().then(({ data: { session } }) => {
       setSession(session);
       setUser(session?.user ?? null);
+      syncQueue.setUser(session?.user?.id ?? null);
       if (session?.user) {
         loadProfile(session.user.id);
       } else {
@@ -31,6 +33,7 @@ export function useAuth() {
     } = supabase.auth.onAuthStateChange(async (event, session) => {
       setSession(session);
       setUser(session?.user ?? null);
+      syncQueue.setUser(session?.user?.id ?? null);
 
       if (session?.user) {
         await loadProfile(session.user.id);
@@ -279,6 +282,12 @@ export function useAuth() {
     return { data, error };
   };
 
+  // Reflect a change that's already on its way to the server (e.g. via the
+  // sync queue) without writing it again
+  const updateProfileLocally = (updates: Partial<Profile>) => {
+    setProfile((prev) => (prev ? { ...prev, ...updates } : prev));
+  };
+
   const loadOnboardingData = async () => {
     if (!user) return { data: null, error: new Error('No user logged in') };
 
@@ -328,6 +337,7 @@ export function useAuth() {
     signInWithGoogle,
     signOut,
     updateProfile,
+    updateProfileLocally,
     loadProfile,
     loadOnboardingData,
     hasCompletedOnboarding,
@@ -0,0 +1,165 @@
+import { useState, useEffect } from 'react';
+import { supabase, WorkoutSetRecord } from '@/lib/supabase';
+import { useAuth } from './useAuth';
+import { workoutSetFromRecord } from './useSupabaseWorkouts';
+import { exerciseLibrary } from '@/data/exercises';
+import { getSetFatigueFactors } from '@/lib/fatigue';
+import { Muscle } from '@/lib/muscles';
+import { MuscleVolume, countMuscleSets, mergeMuscleVolume } from '@/lib/volume';
+import { WorkoutSet } from '@/types/workout';
+import {
+  MuscleReadiness,
+  RECOVERY_WINDOW_DAYS,
+  RecoverySet,
+  getReadiness,
+  getSessionSetTimes,
+  replayRecovery,
+} from '@/lib/recovery';
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+const EMPTY_VOLUME: MuscleVolume = { sets: {}, exercises: {} };
+
+// One workout's sets from the last seven days and their exercises
+interface WeekWorkout {
+  sets: WorkoutSet[];
+  exercises: Map<string, any>;
+}
+
+// Readiness per muscle group, rebuilt from the sets logged over the last
+// RECOVERY_WINDOW_DAYS so Monday's leg day still shows on Tuesday. The same
+// sets give the working sets each muscle got over the last seven days
+export function useMuscleRecovery() {
+  const { user } = useAuth();
+  const [readiness, setReadiness] = useState<MuscleReadiness[]>([]);
+  const [weeklyVolume, setWeeklyVolume] = useState<MuscleVolume>(EMPTY_VOLUME);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      loadRecovery();
+    }
+  }, [user]);
+
+  const loadRecovery = async () => {
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      const since = new Date(
+        Date.now() - RECOVERY_WINDOW_DAYS * 24 * 60 * 60 * 1000
+      ).toISOString();
+
+      const { data: workouts, error: workoutsError } = await supabase
+        .from('workouts')
+        .select('id, date, duration, exercises')
+        .eq('user_id', user.id)
+        .gte('date', since);
+
+      if (workoutsError) {
+        console.error('Error loading recent workouts:', workoutsError);
+        return;
+      }
+      if (!workouts || workouts.length === 0) {
+        setReadiness([]);
+        setWeeklyVolume(EMPTY_VOLUME);
+        return;
+      }
+
+      const { data: sets, error: setsError } = await supabase
+        .from('workout_sets')
+        .select('*')
+        .in(
+          'workout_id',
+          workouts.map((workout) => workout.id)
+        )
+        .eq('completed', true);
+
+      if (setsError) {
+        console.error('Error loading recent sets:', setsError);
+        return;
+      }
+
+      const recoverySets: RecoverySet[] = [];
+      // Exercise ids are only unique within a workout, so each workout's
+      // volume is counted on its own and then added up
+      const weekWorkouts = new Map<string, WeekWorkout>();
+      const weekStart = Date.now() - WEEK_MS;
+      workouts.forEach((workout) => {
+        // Sets come back in no particular order; put them back in the order
+        // they were done so each gets its own place in the session
+        const exerciseIds = (workout.exercises || []).map((ex: any) => ex.id);
+        const exerciseOrder = (record: WorkoutSetRecord) => {
+          const index = exerciseIds.indexOf(record.exercise_id);
+          return index === -1 ? exerciseIds.length : index;
+        };
+        const workoutSets = ((sets || []) as WorkoutSetRecord[])
+          .filter((record) => record.workout_id === workout.id)
+          .sort(
+            (a, b) =>
+              exerciseOrder(a) - exerciseOrder(b) ||
+              a.set_number - b.set_number
+          );
+        const setTimes = getSessionSetTimes(
+          new Date(workout.date).getTime(),
+          workout.duration || 0,
+          workoutSets.length
+        );
+
+        workoutSets.forEach((record, index) => {
+          // The workout keeps the exercises as performed; sets logged before
+          // that fall back to the library
+          const exercise =
+            (workout.exercises || []).find(
+              (ex: any) => ex.id === record.exercise_id
+            ) || exerciseLibrary.find((ex) => ex.id === record.exercise_id);
+          if (!exercise?.muscleGroup) return;
+
+          const set = workoutSetFromRecord(record);
+          const performedAt = setTimes[index];
+          recoverySets.push({
+            ...getSetFatigueFactors(set, exercise),
+            performedAt,
+          });
+
+          if (performedAt >= weekStart) {
+            const week: WeekWorkout = weekWorkouts.get(workout.id) || {
+              sets: [],
+              exercises: new Map(),
+            };
+            week.sets.push(set);
+            week.exercises.set(record.exercise_id, exercise);
+            weekWorkouts.set(workout.id, week);
+          }
+        });
+      });
+
+      setReadiness(replayRecovery(recoverySets));
+      setWeeklyVolume(
+        mergeMuscleVolume(
+          Array.from(weekWorkouts.values()).map((week) =>
+            countMuscleSets(week.sets, Array.from(week.exercises.values()))
+          )
+        )
+      );
+    } catch (error) {
+      console.error('Error loading muscle recovery:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const readinessByMuscle = readiness.reduce<Partial<Record<Muscle, number>>>(
+    (byMuscle, entry) => ({ ...byMuscle, [entry.muscle]: entry.readiness }),
+    {}
+  );
+
+  return {
+    readiness,
+    readinessByMuscle,
+    weeklyVolume,
+    loading,
+    getReadiness: (muscleGroup: string) => getReadiness(readiness, muscleGroup),
+    loadRecovery,
+  };
+}
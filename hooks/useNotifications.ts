@@ -12,6 +12,9 @@ Notifications.setNotificationHandler({
   }),
 });
 
+const TRAINING_DAY_REMINDER_PREFIX = 'training-day-';
+const TRAINING_DAY_REMINDER_HOUR = 8; // 8 AM on the day
+
 export function useNotifications() {
   const [hasPermission, setHasPermission] = useState(false);
   const [expoPushToken, setExpoPushToken] = useState<string | undefined>();
@@ -99,6 +102,33 @@ export function useNotifications() {
     });
   };
 
+  // Interval cues can't play while the app is in the background, so the
+  // next phase change is announced by a notification instead
+  const scheduleIntervalPhaseNotification = async (
+    secondsUntilChange: number,
+    title: string,
+    body: string
+  ) => {
+    if (!hasPermission || !settings.notifications) return;
+
+    await Notifications.cancelScheduledNotificationAsync('interval-phase');
+    if (secondsUntilChange < 1) return;
+
+    await Notifications.scheduleNotificationAsync({
+      identifier: 'interval-phase',
+      content: {
+        title,
+        body,
+        sound: settings.soundEffects ? 'default' : false,
+        data: { type: 'interval-phase' },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL,
+        seconds: secondsUntilChange,
+      },
+    });
+  };
+
   const scheduleStreakReminderNotification = async (
     lastWorkoutDate: string | null
   ) => {
@@ -174,11 +204,57 @@ export function useNotifications() {
     });
   };
 
+  // One reminder on the morning of each planned session. Moving a session or
+  // changing training days replaces them all
+  const scheduleTrainingDayReminders = async (plannedDates: string[]) => {
+    if (!hasPermission) return;
+
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    await Promise.all(
+      scheduled
+        .filter((notification) =>
+          notification.identifier.startsWith(TRAINING_DAY_REMINDER_PREFIX)
+        )
+        .map((notification) =>
+          Notifications.cancelScheduledNotificationAsync(
+            notification.identifier
+          )
+        )
+    );
+
+    if (!settings.workoutReminders) return;
+
+    const now = new Date();
+    for (const dateKey of plannedDates) {
+      const [year, month, day] = dateKey.split('-').map(Number);
+      const date = new Date(year, month - 1, day, TRAINING_DAY_REMINDER_HOUR);
+      if (date <= now) continue;
+
+      await Notifications.scheduleNotificationAsync({
+        identifier: `${TRAINING_DAY_REMINDER_PREFIX}${dateKey}`,
+        content: {
+          title: '⚡ Training Day',
+          body: "You've got a session planned today. Let's charge up!",
+          sound: settings.soundEffects ? 'default' : false,
+          data: { type: 'training-day', date: dateKey },
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date,
+        },
+      });
+    }
+  };
+
   const cancelRestNotifications = async () => {
     await Notifications.cancelScheduledNotificationAsync('rest-ending');
     await Notifications.cancelScheduledNotificationAsync('rest-complete');
   };
 
+  const cancelIntervalNotifications = async () => {
+    await Notifications.cancelScheduledNotificationAsync('interval-phase');
+  };
+
   const cancelAllNotifications = async () => {
     await Notifications.cancelAllScheduledNotificationsAsync();
   };
@@ -189,9 +265,12 @@ export function useNotifications() {
     requestPermissions,
     scheduleRestEndNotification,
     scheduleRestCompleteNotification,
+    scheduleIntervalPhaseNotification,
     scheduleStreakReminderNotification,
     scheduleDailyWorkoutReminder,
+    scheduleTrainingDayReminders,
     cancelRestNotifications,
+    cancelIntervalNotifications,
     cancelAllNotifications,
   };
 }
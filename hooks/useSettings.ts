@@ -1,5 +1,7 @@
 import { useState, useEffect } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { WeightUnit } from '@/lib/units';
+import { PlateCount, DEFAULT_PLATE_INVENTORY } from '@/lib/plates';
 
 interface AppSettings {
   // Notifications
@@ -14,7 +16,12 @@ interface AppSettings {
   // Workout Settings
   autoStartRest: boolean;
   defaultRestTime: number;
+  adaptiveRest: boolean; // lengthen rest when a muscle group is highly fatigued
   autoAdvanceExercise: boolean;
+  weightUnit: WeightUnit; // display/entry unit; weights are stored in kg
+  barWeight?: number; // kg; a standard bar for the weight unit when unset
+  ezBarWeight?: number; // kg
+  plateInventory: Record<WeightUnit, PlateCount[]>; // owned plates in each unit
 
   // Display
   theme: 'dark' | 'light' | 'auto';
@@ -32,7 +39,10 @@ const DEFAULT_SETTINGS: AppSettings = {
   vibration: true,
   autoStartRest: true,
   defaultRestTime: 120,
+  adaptiveRest: true,
   autoAdvanceExercise: false,
+  weightUnit: 'lb',
+  plateInventory: DEFAULT_PLATE_INVENTORY,
   theme: 'dark',
   dataSync: true,
   analyticsEnabled: true,
@@ -40,6 +50,15 @@ const DEFAULT_SETTINGS: AppSettings = {
 
 const SETTINGS_STORAGE_KEY = '@boltlab_settings';
 
+// Stored settings merged with defaults to handle any new settings added in
+// updates; null when nothing has been saved yet
+const readStoredSettings = async (): Promise<AppSettings | null> => {
+  const storedSettings = await AsyncStorage.getItem(SETTINGS_STORAGE_KEY);
+  return storedSettings
+    ? { ...DEFAULT_SETTINGS, ...JSON.parse(storedSettings) }
+    : null;
+};
+
 export function useSettings() {
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
   const [loading, setLoading] = useState(true);
@@ -50,11 +69,9 @@ export function useSettings() {
 
   const loadSettings = async () => {
     try {
-      const storedSettings = await AsyncStorage.getItem(SETTINGS_STORAGE_KEY);
+      const storedSettings = await readStoredSettings();
       if (storedSettings) {
-        const parsedSettings = JSON.parse(storedSettings);
-        // Merge with defaults to handle any new settings added in updates
-        setSettings({ ...DEFAULT_SETTINGS, ...parsedSettings });
+        setSettings(storedSettings);
       }
     } catch (error) {
       console.error('Error loading settings:', error);
@@ -78,12 +95,24 @@ export function useSettings() {
     }
   };
 
+  // Several settings at once, so one save doesn't overwrite the other.
+  // Changes are merged into what's stored rather than this hook's state,
+  // which is still the defaults until the first load finishes
+  const updateSettings = async (changes: Partial<AppSettings>) => {
+    let current = settings;
+    try {
+      current = (await readStoredSettings()) ?? settings;
+    } catch (error) {
+      console.error('Error loading settings:', error);
+    }
+    await saveSettings({ ...current, ...changes });
+  };
+
   const updateSetting = async <K extends keyof AppSettings>(
     key: K,
     value: AppSettings[K]
   ) => {
-    const newSettings = { ...settings, [key]: value };
-    await saveSettings(newSettings);
+    await updateSettings({ [key]: value } as Partial<AppSettings>);
   };
 
   const resetSettings = async () => {
@@ -111,6 +140,7 @@ export function useSettings() {
     settings,
     loading,
     updateSetting,
+    updateSettings,
     resetSettings,
     exportSettings,
     importSettings,
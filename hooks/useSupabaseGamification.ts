@@ -1,8 +1,11 @@
 import { useState, useEffect } from 'react';
 import { supabase, UserAchievement } from '@/lib/supabase';
+import { syncQueue, createClientId } from '@/lib/syncQueue';
 import { useAuth } from './useAuth';
 import { achievementsList } from '@/data/achievements';
 import { useNotifications } from './useNotifications';
+import { useTrainingSchedule } from './useTrainingSchedule';
+import { hasMissedPlannedDate } from '@/lib/schedule';
 
 // Centralized XP calculation function
 export const calculateWorkoutXP = (
@@ -50,8 +53,26 @@ export const getLevelProgress = (
   };
 };
 
+// Replayed by the sync queue; award_xp ignores a client id it has seen before
+syncQueue.registerHandler('award_xp', async (payload, clientId) => {
+  const { error } = await supabase.rpc('award_xp', {
+    p_client_id: clientId,
+    p_amount: payload.amount,
+  });
+  return { error };
+});
+
+syncQueue.registerHandler('unlock_achievement', async (payload) => {
+  const { error } = await supabase.from('user_achievements').upsert(payload, {
+    onConflict: 'user_id,achievement_id',
+    ignoreDuplicates: true,
+  });
+  return { error };
+});
+
 export function useSupabaseGamification() {
-  const { user, profile, updateProfile } = useAuth();
+  const { user, profile, updateProfile, updateProfileLocally } = useAuth();
+  const { schedule } = useTrainingSchedule();
   const [userAchievements, setUserAchievements] = useState<UserAchievement[]>(
     []
   );
@@ -97,21 +118,12 @@ export function useSupabaseGamification() {
       `Adding ${amount} XP. Total: ${newTotalXP}, Level: ${currentLevel} → ${newLevel}`
     );
 
-    // Update profile in database
-    const { error } = await supabase
-      .from('profiles')
-      .update({
-        total_xp: newTotalXP,
-        level: newLevel,
-      })
-      .eq('id', profile.id);
-
-    if (!error) {
-      updateProfile({
-        total_xp: newTotalXP,
-        level: newLevel,
-      });
-    }
+    // The server adds the XP itself, so a replayed award never double counts
+    updateProfileLocally({
+      total_xp: newTotalXP,
+      level: newLevel,
+    });
+    await syncQueue.enqueue('award_xp', { amount });
 
     return leveledUp;
   };
@@ -150,6 +162,17 @@ export function useSupabaseGamification() {
         // Same day, update the last workout date but don't change streak
         console.log('Same day workout - no streak change');
         // Streak stays the same, just update the date
+      } else if (schedule.trainingDays.length > 0) {
+        // Following a plan, rest days off the plan are expected; only
+        // skipping a planned session breaks the streak
+        newStreak = hasMissedPlannedDate(
+          lastWorkoutDateString,
+          todayString,
+          schedule
+        )
+          ? 1
+          : profile.current_streak + 1;
+        console.log(`Planned schedule - streak is now ${newStreak}`);
       } else {
         // Calculate days difference using string comparison
         const todayDate = new Date(todayString);
@@ -228,26 +251,34 @@ export function useSupabaseGamification() {
       return { data: null, error: null };
     }
 
-    const { data, error } = await supabase
-      .from('user_achievements')
-      .insert({
+    const clientId = createClientId();
+    const now = new Date().toISOString();
+    const data: UserAchievement = {
+      id: clientId,
+      user_id: user.id,
+      achievement_id: achievementId,
+      unlocked_date: now,
+      created_at: now,
+    };
+    setUserAchievements((prev) => [...prev, data]);
+
+    await syncQueue.enqueue(
+      'unlock_achievement',
+      {
         user_id: user.id,
         achievement_id: achievementId,
-      })
-      .select()
-      .single();
-
-    if (!error && data) {
-      setUserAchievements((prev) => [...prev, data]);
+        unlocked_date: now,
+      },
+      clientId
+    );
 
-      // Award XP for achievement
-      const achievement = achievementsList.find((a) => a.id === achievementId);
-      if (achievement) {
-        await addXP(achievement.xpReward);
-      }
+    // Award XP for achievement
+    const achievement = achievementsList.find((a) => a.id === achievementId);
+    if (achievement) {
+      await addXP(achievement.xpReward);
     }
 
-    return { data, error };
+    return { data, error: null };
   };
 
   const checkAchievements = async (stats: {
@@ -1,7 +1,131 @@
 import { useState, useEffect } from 'react';
-import { supabase, WorkoutRecord, PersonalRecord } from '@/lib/supabase';
+import {
+  supabase,
+  WorkoutRecord,
+  WorkoutSetRecord,
+  PersonalRecord,
+} from '@/lib/supabase';
+import { WorkoutSet } from '@/types/workout';
+import { syncQueue, createClientId } from '@/lib/syncQueue';
+import { getWorkingSets } from '@/lib/sets';
+import { getXPSetCount } from '@/lib/tracking';
+import { NewPersonalRecord, getPreviousBest } from '@/lib/personalRecords';
+import { calculateWorkoutXP } from './useSupabaseGamification';
 import { useAuth } from './useAuth';
 
+// Convert in-session sets into workout_sets rows, numbering sets per exercise
+export const buildWorkoutSetRows = (
+  workoutId: string,
+  userId: string,
+  sets: WorkoutSet[],
+  exercises: { id: string; name: string }[]
+): Omit<WorkoutSetRecord, 'id' | 'created_at'>[] => {
+  const setCounts: Record<string, number> = {};
+
+  return sets.map((set) => {
+    setCounts[set.exerciseId] = (setCounts[set.exerciseId] || 0) + 1;
+    const exercise = exercises.find((ex) => ex.id === set.exerciseId);
+
+    return {
+      workout_id: workoutId,
+      user_id: userId,
+      exercise_id: set.exerciseId,
+      exercise_name: exercise?.name || set.exerciseId,
+      set_number: setCounts[set.exerciseId],
+      weight: set.weight,
+      reps: set.reps,
+      duration: set.duration,
+      distance: set.distance,
+      rest_time: set.restTime,
+      rpe: set.rpe,
+      set_type: set.setType || 'working',
+      note: set.note,
+      completed: set.completed,
+    };
+  });
+};
+
+// Replayed by the sync queue; client_id makes a second delivery a no-op
+syncQueue.registerHandler('save_workout', async (payload, clientId) => {
+  const { data, error } = await supabase
+    .from('workouts')
+    .upsert(
+      { ...payload.workout, client_id: clientId },
+      { onConflict: 'client_id' }
+    )
+    .select()
+    .single();
+
+  if (error || !data) return { error };
+
+  if (payload.setRows.length > 0) {
+    const { error: setsError } = await supabase.from('workout_sets').upsert(
+      payload.setRows.map((row: any, index: number) => ({
+        ...row,
+        workout_id: data.id,
+        client_id: `${clientId}:${index}`,
+      })),
+      { onConflict: 'client_id', ignoreDuplicates: true }
+    );
+    if (setsError) return { error: setsError };
+  }
+
+  return { error: null };
+});
+
+// Inverse of buildWorkoutSetRows, for editing a saved workout's sets
+export const workoutSetFromRecord = (record: WorkoutSetRecord): WorkoutSet => ({
+  id: record.id,
+  exerciseId: record.exercise_id,
+  weight: record.weight ?? undefined,
+  reps: record.reps ?? undefined,
+  duration: record.duration ?? undefined,
+  distance: record.distance ?? undefined,
+  rpe: record.rpe ?? undefined,
+  setType: record.set_type,
+  note: record.note ?? undefined,
+  completed: record.completed,
+  restTime: record.rest_time ?? undefined,
+});
+
+// Streak days are counted in the device's timezone, like updateStreak
+const getTimezone = () => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+// Edits and deletes recompute XP, streaks, PRs and the feed entry server-side
+syncQueue.registerHandler('update_workout', async (payload) => {
+  const { error } = await supabase.rpc('update_workout', {
+    p_workout_id: payload.workoutId,
+    p_workout: payload.workout,
+    p_sets: payload.setRows ?? null,
+    p_timezone: payload.timezone,
+  });
+  return { error };
+});
+
+syncQueue.registerHandler('delete_workout', async (payload) => {
+  const { error } = await supabase.rpc('delete_workout', {
+    p_workout_id: payload.workoutId,
+    p_timezone: payload.timezone,
+  });
+  return { error };
+});
+
+syncQueue.registerHandler('save_personal_record', async (payload, clientId) => {
+  const { error } = await supabase
+    .from('personal_records')
+    .upsert(
+      { ...payload, client_id: clientId },
+      { onConflict: 'client_id', ignoreDuplicates: true }
+    );
+  return { error };
+});
+
 export function useSupabaseWorkouts() {
   const { user } = useAuth();
   const [workouts, setWorkouts] = useState<WorkoutRecord[]>([]);
@@ -15,6 +139,20 @@ export function useSupabaseWorkouts() {
     }
   }, [user]);
 
+  // Swap optimistic rows for the real ones once queued writes have synced
+  useEffect(() => {
+    if (!user) return;
+
+    let pendingCount = 0;
+    return syncQueue.subscribe(status => {
+      if (pendingCount > 0 && status.pendingCount === 0) {
+        loadWorkouts();
+        loadPersonalRecords();
+      }
+      pendingCount = status.pendingCount;
+    });
+  }, [user]);
+
   const loadWorkouts = async () => {
     if (!user) return;
 
@@ -61,62 +199,251 @@ export function useSupabaseWorkouts() {
   const saveWorkout = async (workoutData: {
     duration: number;
     exercises: any[];
+    sets?: WorkoutSet[];
     total_sets: number;
     xp_gained: number;
     notes?: string;
   }) => {
     if (!user) return { error: new Error('No user logged in') };
 
+    const { sets, ...workoutFields } = workoutData;
+    const clientId = createClientId();
+    const now = new Date().toISOString();
+
+    const workout = {
+      user_id: user.id,
+      date: now, // set here, the queue may replay it much later
+      ...workoutFields,
+    };
+
+    // Show the workout immediately; the queue delivers it when it can
+    const data: WorkoutRecord = {
+      ...workout,
+      id: clientId,
+      client_id: clientId,
+      created_at: now,
+    };
+    setWorkouts(prev => [data, ...prev]);
+
+    await syncQueue.enqueue(
+      'save_workout',
+      {
+        workout,
+        // workout_id is filled in once the workout row exists
+        setRows: buildWorkoutSetRows(
+          '',
+          user.id,
+          sets || [],
+          workoutData.exercises
+        ),
+      },
+      clientId
+    );
+
+    return { data, error: null };
+  };
+
+  // Replace a saved workout's sets (and notes); XP and set count follow the
+  // same rules as finishing a workout. Without `sets` only the notes change,
+  // so workouts saved before sets were logged keep their XP
+  const updateWorkout = async (
+    workout: WorkoutRecord,
+    changes: { sets?: WorkoutSet[]; notes?: string }
+  ) => {
+    if (!user) return { error: new Error('No user logged in') };
+
+    const exercises = workout.exercises || [];
+    const notes = changes.notes ?? workout.notes;
+    const updates = changes.sets
+      ? {
+          total_sets: getWorkingSets(changes.sets).length,
+          xp_gained: calculateWorkoutXP(
+            getXPSetCount(getWorkingSets(changes.sets)),
+            workout.duration,
+            exercises.length
+          ),
+          notes,
+        }
+      : { notes };
+
+    const data: WorkoutRecord = { ...workout, ...updates };
+    setWorkouts(prev => prev.map(w => (w.id === workout.id ? data : w)));
+
+    await syncQueue.enqueue('update_workout', {
+      workoutId: workout.id,
+      workout: updates,
+      setRows: changes.sets
+        ? buildWorkoutSetRows(workout.id, user.id, changes.sets, exercises)
+        : undefined,
+      timezone: getTimezone(),
+    });
+
+    return { data, error: null };
+  };
+
+  const deleteWorkout = async (workout: WorkoutRecord) => {
+    if (!user) return { error: new Error('No user logged in') };
+
+    setWorkouts(prev => prev.filter(w => w.id !== workout.id));
+
+    await syncQueue.enqueue('delete_workout', {
+      workoutId: workout.id,
+      timezone: getTimezone(),
+    });
+
+    return { error: null };
+  };
+
+  // A workout's sets are saved in one insert and share created_at, so they
+  // are put back in the workout's exercise order and numbered within each
+  const loadWorkoutSets = async (workout: WorkoutRecord) => {
+    if (!user) return { data: [], error: new Error('No user logged in') };
+
     const { data, error } = await supabase
-      .from('workouts')
-      .insert({
-        user_id: user.id,
-        ...workoutData,
-      })
-      .select()
-      .single();
-
-    if (!error && data) {
-      setWorkouts(prev => [data, ...prev]);
+      .from('workout_sets')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('workout_id', workout.id)
+      .order('set_number', { ascending: true });
+
+    if (error) {
+      console.error('Error loading workout sets:', error);
     }
 
-    return { data, error };
+    const exerciseIds = (workout.exercises || []).map((ex: any) => ex.id);
+    const exerciseOrder = (record: WorkoutSetRecord) => {
+      const index = exerciseIds.indexOf(record.exercise_id);
+      return index === -1 ? exerciseIds.length : index;
+    };
+    const sorted = ((data || []) as WorkoutSetRecord[]).sort(
+      (a, b) =>
+        exerciseOrder(a) - exerciseOrder(b) || a.set_number - b.set_number
+    );
+
+    return { data: sorted, error };
   };
 
-  const savePersonalRecord = async (prData: {
-    exercise_id: string;
-    exercise_name: string;
-    weight?: number;
-    reps?: number;
-  }) => {
+  // Most recent logged sets for an exercise across all workouts. AI-generated
+  // exercises get positional ids, so those are matched by name instead
+  const getExerciseHistory = async (
+    exerciseId: string,
+    limit: number = 50,
+    exerciseName?: string
+  ) => {
+    if (!user) return { data: [], error: new Error('No user logged in') };
+
+    const { data, error } = await supabase
+      .from('workout_sets')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq(
+        exerciseName ? 'exercise_name' : 'exercise_id',
+        exerciseName || exerciseId
+      )
+      // A workout's sets share created_at; keep each session together and
+      // in the order its sets were done
+      .order('created_at', { ascending: false })
+      .order('workout_id', { ascending: true })
+      .order('set_number', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error loading exercise history:', error);
+    }
+
+    return { data: (data || []) as WorkoutSetRecord[], error };
+  };
+
+  // Latest note left on an exercise or one of its sets, to show the next time
+  // the exercise comes up
+  const getLastExerciseNote = async (exerciseName: string) => {
+    if (!user) return { data: null, error: new Error('No user logged in') };
+
+    const [workoutResult, setResult] = await Promise.all([
+      supabase
+        .from('workouts')
+        .select('date, exercises')
+        .eq('user_id', user.id)
+        .contains('exercises', [{ name: exerciseName }])
+        .order('date', { ascending: false })
+        .limit(20),
+      supabase
+        .from('workout_sets')
+        .select('note, created_at')
+        .eq('user_id', user.id)
+        .eq('exercise_name', exerciseName)
+        .not('note', 'is', null)
+        .order('created_at', { ascending: false })
+        .order('set_number', { ascending: false })
+        .limit(1),
+    ]);
+
+    const error = workoutResult.error || setResult.error;
+    if (error) {
+      console.error('Error loading exercise notes:', error);
+    }
+
+    const exerciseNote = (workoutResult.data || [])
+      .map(workout => ({
+        note: (workout.exercises || []).find(
+          (ex: any) => ex.name === exerciseName && ex.notes
+        )?.notes as string | undefined,
+        date: workout.date as string,
+      }))
+      .find(candidate => candidate.note);
+    const lastSet = setResult.data?.[0];
+    const setNote = lastSet
+      ? { note: lastSet.note as string, date: lastSet.created_at as string }
+      : undefined;
+
+    const latest = [exerciseNote, setNote]
+      .filter((candidate): candidate is { note: string; date: string } =>
+        Boolean(candidate?.note)
+      )
+      .sort(
+        (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
+      )[0];
+
+    return { data: latest || null, error };
+  };
+
+  const savePersonalRecord = async (prData: NewPersonalRecord) => {
     if (!user) return { error: new Error('No user logged in') };
 
     // Check if this is actually a new PR
-    const existingPR = personalRecords.find(
-      pr => pr.exercise_id === prData.exercise_id
+    const { previous, ...recordData } = prData;
+    const previousBest = getPreviousBest(
+      personalRecords,
+      prData.exercise_name,
+      prData.record_type,
+      prData.weight
     );
 
-    const isNewPR = !existingPR || 
-      (prData.weight && prData.weight > (existingPR.weight || 0));
+    const isNewPR = previousBest === undefined || prData.value > previousBest;
 
     if (!isNewPR) {
       return { data: null, error: null }; // Not a new PR
     }
 
-    const { data, error } = await supabase
-      .from('personal_records')
-      .insert({
-        user_id: user.id,
-        ...prData,
-      })
-      .select()
-      .single();
-
-    if (!error && data) {
-      setPersonalRecords(prev => [data, ...prev]);
-    }
+    const clientId = createClientId();
+    const now = new Date().toISOString();
+    const record = {
+      user_id: user.id,
+      date: now,
+      ...recordData,
+    };
+
+    const data: PersonalRecord = {
+      ...record,
+      id: clientId,
+      client_id: clientId,
+      created_at: now,
+    };
+    setPersonalRecords(prev => [data, ...prev]);
+
+    await syncQueue.enqueue('save_personal_record', record, clientId);
 
-    return { data, error, isNewPR };
+    return { data, error: null, isNewPR };
   };
 
   const getWorkoutStats = () => {
@@ -170,6 +497,11 @@ export function useSupabaseWorkouts() {
     personalRecords,
     loading,
     saveWorkout,
+    updateWorkout,
+    deleteWorkout,
+    loadWorkoutSets,
+    getExerciseHistory,
+    getLastExerciseNote,
     savePersonalRecord,
     getWorkoutStats,
     getRecentWorkouts,
@@ -0,0 +1,18 @@
+import { useState, useEffect } from 'react';
+import { syncQueue, SyncStatus } from '@/lib/syncQueue';
+
+// Live view of writes still waiting to reach Supabase
+export function useSyncStatus() {
+  const [status, setStatus] = useState<SyncStatus>(syncQueue.getStatus());
+
+  useEffect(() => syncQueue.subscribe(setStatus), []);
+
+  const retryNow = () => {
+    syncQueue.retryNow();
+  };
+
+  return {
+    ...status,
+    retryNow,
+  };
+}
@@ -0,0 +1,311 @@
+import { useState, useEffect } from 'react';
+import { supabase, TrainingProgramRecord } from '@/lib/supabase';
+import { ProgramDayRef } from '@/types/workout';
+import { syncQueue, createClientId } from '@/lib/syncQueue';
+import { getNextProgramPosition } from '@/lib/programs';
+import { useAuth } from './useAuth';
+
+type ProgramFields = Pick<
+  TrainingProgramRecord,
+  | 'name'
+  | 'days'
+  | 'length_weeks'
+  | 'deload_every'
+  | 'weekly_load_increase'
+  | 'volume_increase_every'
+>;
+
+const isCurrentProgramDay = (
+  program: TrainingProgramRecord,
+  programDay: ProgramDayRef
+) =>
+  program.is_active &&
+  program.current_week === programDay.week &&
+  program.current_day === programDay.day;
+
+const getCompletedDayPosition = (
+  program: TrainingProgramRecord,
+  completedAt: string
+) => {
+  const next = getNextProgramPosition(program);
+  return {
+    current_week: next.finished ? program.current_week : next.current_week,
+    current_day: next.finished ? program.current_day : next.current_day,
+    completed_at: next.finished ? completedAt : undefined,
+  };
+};
+
+// Saves leave the position alone; starting and advancing a program are
+// their own mutations so an edit can't rewind a program in progress
+syncQueue.registerHandler('save_program', async (payload) => {
+  const { error } = await supabase
+    .from('training_programs')
+    .upsert(payload.program, { onConflict: 'client_id' });
+  return { error };
+});
+
+// Only one program can be active, so the old one is stopped first
+syncQueue.registerHandler('start_program', async (payload) => {
+  const { error: stopError } = await supabase
+    .from('training_programs')
+    .update({ is_active: false })
+    .eq('user_id', payload.userId)
+    .eq('is_active', true)
+    .neq('client_id', payload.programClientId);
+  if (stopError) return { error: stopError };
+
+  const { error } = await supabase
+    .from('training_programs')
+    .update({
+      is_active: true,
+      current_week: 1,
+      current_day: 1,
+      started_at: payload.startedAt,
+      completed_at: null,
+    })
+    .eq('client_id', payload.programClientId);
+  return { error };
+});
+
+// Moving through the program, or stepping out of it
+syncQueue.registerHandler('update_program_position', async (payload) => {
+  const { error } = await supabase
+    .from('training_programs')
+    .update(payload.position)
+    .eq('client_id', payload.programClientId);
+  return { error };
+});
+
+// Advancing past a finished day is checked against the stored position,
+// not the caller's copy of the program, which may never have loaded
+syncQueue.registerHandler('complete_program_day', async (payload) => {
+  const programDay: ProgramDayRef = payload.programDay;
+  const { data: program, error: loadError } = await supabase
+    .from('training_programs')
+    .select('*')
+    .eq('client_id', programDay.programId)
+    .maybeSingle();
+  if (loadError) return { error: loadError };
+  if (!program || !isCurrentProgramDay(program, programDay)) {
+    return { error: null };
+  }
+
+  const { error } = await supabase
+    .from('training_programs')
+    .update(getCompletedDayPosition(program, payload.completedAt))
+    .eq('client_id', programDay.programId)
+    .eq('current_week', programDay.week)
+    .eq('current_day', programDay.day);
+  return { error };
+});
+
+syncQueue.registerHandler('delete_program', async (payload) => {
+  const { error } = await supabase
+    .from('training_programs')
+    .delete()
+    .eq('client_id', payload.programClientId);
+  return { error };
+});
+
+export function useTrainingPrograms() {
+  const { user } = useAuth();
+  const [programs, setPrograms] = useState<TrainingProgramRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      loadPrograms();
+    }
+  }, [user]);
+
+  // Swap optimistic rows for the real ones once queued writes have synced
+  useEffect(() => {
+    if (!user) return;
+
+    let pendingCount = 0;
+    return syncQueue.subscribe((status) => {
+      if (pendingCount > 0 && status.pendingCount === 0) {
+        loadPrograms();
+      }
+      pendingCount = status.pendingCount;
+    });
+  }, [user]);
+
+  const loadPrograms = async () => {
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('training_programs')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('updated_at', { ascending: false });
+
+      if (error) {
+        console.error('Error loading training programs:', error);
+      } else {
+        setPrograms(data || []);
+      }
+    } catch (error) {
+      console.error('Error loading training programs:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const activeProgram = programs.find((program) => program.is_active);
+
+  const getProgram = (clientId: string) =>
+    programs.find((program) => program.client_id === clientId);
+
+  // Creates a program, or replaces the settings of the one with `clientId`
+  const saveProgram = async (fields: ProgramFields, clientId?: string) => {
+    if (!user) return { error: new Error('No user logged in') };
+
+    const existing = clientId ? getProgram(clientId) : undefined;
+    const now = new Date().toISOString();
+    const program = {
+      ...fields,
+      name: fields.name.trim(),
+      user_id: user.id,
+      client_id: existing?.client_id || clientId || createClientId(),
+      updated_at: now,
+    };
+
+    const data: TrainingProgramRecord = {
+      is_active: false,
+      current_week: 1,
+      current_day: 1,
+      created_at: now,
+      ...existing,
+      ...program,
+      id: existing?.id || program.client_id,
+    };
+    // A shorter week or program can leave the position past the end
+    data.current_day = Math.min(data.current_day, data.days.length);
+    data.current_week = Math.min(data.current_week, data.length_weeks);
+    setPrograms((prev) => [
+      data,
+      ...prev.filter((p) => p.client_id !== data.client_id),
+    ]);
+
+    await syncQueue.enqueue('save_program', { program });
+    if (
+      existing &&
+      (data.current_day !== existing.current_day ||
+        data.current_week !== existing.current_week)
+    ) {
+      await syncQueue.enqueue('update_program_position', {
+        programClientId: data.client_id,
+        position: {
+          current_week: data.current_week,
+          current_day: data.current_day,
+        },
+      });
+    }
+
+    return { data, error: null };
+  };
+
+  // Start (or restart) a program from week 1, day 1
+  const startProgram = async (program: TrainingProgramRecord) => {
+    if (!user) return { error: new Error('No user logged in') };
+
+    const startedAt = new Date().toISOString();
+    setPrograms((prev) =>
+      prev.map((p) =>
+        p.client_id === program.client_id
+          ? {
+              ...p,
+              is_active: true,
+              current_week: 1,
+              current_day: 1,
+              started_at: startedAt,
+              completed_at: undefined,
+            }
+          : { ...p, is_active: false }
+      )
+    );
+
+    await syncQueue.enqueue('start_program', {
+      userId: user.id,
+      programClientId: program.client_id,
+      startedAt,
+    });
+
+    return { error: null };
+  };
+
+  const stopProgram = async (program: TrainingProgramRecord) => {
+    if (!user) return { error: new Error('No user logged in') };
+
+    setPrograms((prev) =>
+      prev.map((p) =>
+        p.client_id === program.client_id ? { ...p, is_active: false } : p
+      )
+    );
+
+    await syncQueue.enqueue('update_program_position', {
+      programClientId: program.client_id,
+      position: { is_active: false },
+    });
+
+    return { error: null };
+  };
+
+  // Move the program past a day once its workout is saved. The day is
+  // checked against the program's position, here and again when the queued
+  // write reaches the server, so saving the same workout twice, or an old
+  // workout, doesn't skip ahead
+  const completeProgramDay = async (programDay: ProgramDayRef) => {
+    if (!user) return { error: new Error('No user logged in') };
+
+    const completedAt = new Date().toISOString();
+    const program = getProgram(programDay.programId);
+    if (program) {
+      if (!isCurrentProgramDay(program, programDay)) return { error: null };
+
+      const position = getCompletedDayPosition(program, completedAt);
+      setPrograms((prev) =>
+        prev.map((p) =>
+          p.client_id === program.client_id ? { ...p, ...position } : p
+        )
+      );
+    }
+
+    await syncQueue.enqueue('complete_program_day', {
+      programDay,
+      completedAt,
+    });
+
+    return { error: null };
+  };
+
+  const deleteProgram = async (program: TrainingProgramRecord) => {
+    if (!user) return { error: new Error('No user logged in') };
+
+    setPrograms((prev) =>
+      prev.filter((p) => p.client_id !== program.client_id)
+    );
+
+    await syncQueue.enqueue('delete_program', {
+      programClientId: program.client_id,
+    });
+
+    return { error: null };
+  };
+
+  return {
+    programs,
+    activeProgram,
+    loading,
+    getProgram,
+    saveProgram,
+    startProgram,
+    stopProgram,
+    completeProgramDay,
+    deleteProgram,
+    loadPrograms,
+  };
+}
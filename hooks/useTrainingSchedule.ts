@@ -0,0 +1,221 @@
+import { useState, useEffect } from 'react';
+import { supabase, ScheduleMoveRecord } from '@/lib/supabase';
+import { syncQueue, createClientId } from '@/lib/syncQueue';
+import {
+  TrainingSchedule,
+  Weekday,
+  WEEKDAYS,
+  addDaysToKey,
+  getPlannedDates,
+  getTrainingDaysForFrequency,
+  isPlannedDate,
+  toDateKey,
+} from '@/lib/schedule';
+import { useAuth } from './useAuth';
+import { useNotifications } from './useNotifications';
+import { useSettings } from './useSettings';
+
+// How far ahead training day reminders are scheduled; opening the app
+// tops them up
+const REMINDER_DAYS_AHEAD = 14;
+
+syncQueue.registerHandler('update_training_days', async (payload) => {
+  const { error } = await supabase
+    .from('onboarding_data')
+    .update({ training_days: payload.trainingDays })
+    .eq('user_id', payload.userId);
+  return { error };
+});
+
+// A session moved twice keeps one row, so its client_id is reused
+syncQueue.registerHandler('save_schedule_move', async (payload) => {
+  const { error } = await supabase
+    .from('schedule_moves')
+    .upsert(payload.move, { onConflict: 'client_id' });
+  return { error };
+});
+
+syncQueue.registerHandler('delete_schedule_move', async (payload) => {
+  const { error } = await supabase
+    .from('schedule_moves')
+    .delete()
+    .eq('client_id', payload.moveClientId);
+  return { error };
+});
+
+export function useTrainingSchedule() {
+  const { user } = useAuth();
+  const [trainingDays, setTrainingDaysState] = useState<Weekday[]>([]);
+  const [moves, setMoves] = useState<ScheduleMoveRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      loadSchedule();
+    }
+  }, [user]);
+
+  // Swap optimistic rows for the real ones once queued writes have synced
+  useEffect(() => {
+    if (!user) return;
+
+    let pendingCount = 0;
+    return syncQueue.subscribe((status) => {
+      if (pendingCount > 0 && status.pendingCount === 0) {
+        loadSchedule();
+      }
+      pendingCount = status.pendingCount;
+    });
+  }, [user]);
+
+  const loadSchedule = async () => {
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      const [onboardingResult, movesResult] = await Promise.all([
+        supabase
+          .from('onboarding_data')
+          .select('training_days, workout_frequency')
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: false })
+          .limit(1)
+          .maybeSingle(),
+        supabase
+          .from('schedule_moves')
+          .select('*')
+          .eq('user_id', user.id)
+          .order('to_date', { ascending: true }),
+      ]);
+
+      if (onboardingResult.error) {
+        console.error('Error loading training days:', onboardingResult.error);
+      } else {
+        // Users who onboarded before training days were saved only have
+        // a weekly frequency
+        const saved = (onboardingResult.data?.training_days || []).filter(
+          (day: string): day is Weekday => WEEKDAYS.includes(day as Weekday)
+        );
+        setTrainingDaysState(
+          saved.length > 0
+            ? saved
+            : getTrainingDaysForFrequency(
+                onboardingResult.data?.workout_frequency
+              )
+        );
+      }
+
+      if (movesResult.error) {
+        console.error('Error loading schedule moves:', movesResult.error);
+      } else {
+        setMoves(movesResult.data || []);
+      }
+    } catch (error) {
+      console.error('Error loading training schedule:', error);
+    } finally {
+      setLoading(false);
+      setLoaded(true);
+    }
+  };
+
+  const schedule: TrainingSchedule = { trainingDays, moves };
+
+  const setTrainingDays = async (days: Weekday[]) => {
+    if (!user) return { error: new Error('No user logged in') };
+
+    const ordered = WEEKDAYS.filter((day) => days.includes(day));
+    setTrainingDaysState(ordered);
+
+    await syncQueue.enqueue('update_training_days', {
+      userId: user.id,
+      trainingDays: ordered,
+    });
+
+    return { error: null };
+  };
+
+  // Move the session planned on `fromDate` to `toDate`. A session that was
+  // already moved keeps its original date, and moving it back home drops
+  // the move altogether
+  const moveSession = async (fromDate: string, toDate: string) => {
+    if (!user) return { error: new Error('No user logged in') };
+    if (!isPlannedDate(fromDate, schedule)) {
+      return { error: new Error('No session planned on that day') };
+    }
+    if (isPlannedDate(toDate, schedule)) {
+      return { error: new Error('A session is already planned on that day') };
+    }
+
+    const existing = moves.find((move) => move.to_date === fromDate);
+    const originalDate = existing?.from_date || fromDate;
+
+    if (existing && originalDate === toDate) {
+      setMoves((prev) =>
+        prev.filter((move) => move.client_id !== existing.client_id)
+      );
+      await syncQueue.enqueue('delete_schedule_move', {
+        moveClientId: existing.client_id,
+      });
+      return { error: null };
+    }
+
+    const move = {
+      user_id: user.id,
+      client_id: existing?.client_id || createClientId(),
+      from_date: originalDate,
+      to_date: toDate,
+    };
+    const data: ScheduleMoveRecord = {
+      ...move,
+      id: existing?.id || move.client_id,
+      created_at: existing?.created_at || new Date().toISOString(),
+    };
+    setMoves((prev) => [
+      ...prev.filter((m) => m.client_id !== data.client_id),
+      data,
+    ]);
+
+    await syncQueue.enqueue('save_schedule_move', { move });
+
+    return { data, error: null };
+  };
+
+  return {
+    schedule,
+    trainingDays,
+    moves,
+    loading,
+    loaded,
+    setTrainingDays,
+    moveSession,
+    loadSchedule,
+  };
+}
+
+// Keep a reminder scheduled for each planned session over the next two
+// weeks, following any change to the schedule
+export function useTrainingDayReminders(
+  schedule: TrainingSchedule,
+  enabled: boolean
+) {
+  const { hasPermission, scheduleTrainingDayReminders } = useNotifications();
+  const { settings } = useSettings();
+
+  const today = toDateKey(new Date());
+  const plannedDates = getPlannedDates(
+    today,
+    addDaysToKey(today, REMINDER_DAYS_AHEAD - 1),
+    schedule
+  );
+
+  useEffect(() => {
+    if (!enabled || !hasPermission) return;
+    scheduleTrainingDayReminders(plannedDates);
+  }, [
+    enabled,
+    hasPermission,
+    settings.workoutReminders,
+    plannedDates.join(','),
+  ]);
+}
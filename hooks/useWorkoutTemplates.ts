@@ -0,0 +1,163 @@
+import { useState, useEffect } from 'react';
+import { supabase, WorkoutTemplateRecord } from '@/lib/supabase';
+import { CustomExercise } from '@/types/workout';
+import { syncQueue, createClientId } from '@/lib/syncQueue';
+import { toTemplateExercises } from '@/lib/templates';
+import { useAuth } from './useAuth';
+
+// Saves and edits are the same upsert: a template keeps its client_id for
+// life, so an edit queued before the first save synced still hits one row
+syncQueue.registerHandler('save_template', async (payload) => {
+  const { error } = await supabase
+    .from('workout_templates')
+    .upsert(payload.template, { onConflict: 'client_id' });
+  return { error };
+});
+
+syncQueue.registerHandler('delete_template', async (payload) => {
+  const { error } = await supabase
+    .from('workout_templates')
+    .delete()
+    .eq('client_id', payload.templateClientId);
+  return { error };
+});
+
+export function useWorkoutTemplates() {
+  const { user } = useAuth();
+  const [templates, setTemplates] = useState<WorkoutTemplateRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      loadTemplates();
+    }
+  }, [user]);
+
+  // Swap optimistic rows for the real ones once queued writes have synced
+  useEffect(() => {
+    if (!user) return;
+
+    let pendingCount = 0;
+    return syncQueue.subscribe((status) => {
+      if (pendingCount > 0 && status.pendingCount === 0) {
+        loadTemplates();
+      }
+      pendingCount = status.pendingCount;
+    });
+  }, [user]);
+
+  const loadTemplates = async () => {
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('workout_templates')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('updated_at', { ascending: false });
+
+      if (error) {
+        console.error('Error loading workout templates:', error);
+      } else {
+        setTemplates(data || []);
+      }
+    } catch (error) {
+      console.error('Error loading workout templates:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getTemplate = (clientId: string) =>
+    templates.find((template) => template.client_id === clientId);
+
+  // Creates a template, or replaces the one with `clientId`
+  const saveTemplate = async (
+    templateData: {
+      name: string;
+      exercises: CustomExercise[];
+      source?: WorkoutTemplateRecord['source'];
+      notes?: string;
+    },
+    clientId?: string
+  ) => {
+    if (!user) return { error: new Error('No user logged in') };
+
+    const existing = clientId ? getTemplate(clientId) : undefined;
+    const now = new Date().toISOString();
+    const template = {
+      user_id: user.id,
+      client_id: existing?.client_id || clientId || createClientId(),
+      name: templateData.name.trim(),
+      exercises: toTemplateExercises(templateData.exercises),
+      source: templateData.source || existing?.source || 'custom',
+      notes: templateData.notes ?? existing?.notes,
+      updated_at: now,
+    };
+
+    const data: WorkoutTemplateRecord = {
+      id: existing?.id || template.client_id,
+      created_at: existing?.created_at || now,
+      ...template,
+    };
+    setTemplates((prev) => [
+      data,
+      ...prev.filter((t) => t.client_id !== data.client_id),
+    ]);
+
+    await syncQueue.enqueue('save_template', { template });
+
+    return { data, error: null };
+  };
+
+  const duplicateTemplate = async (template: WorkoutTemplateRecord) => {
+    if (!user) return { error: new Error('No user logged in') };
+
+    const now = new Date().toISOString();
+    const copy = {
+      user_id: user.id,
+      client_id: createClientId(),
+      name: `${template.name} (Copy)`,
+      exercises: template.exercises,
+      source: template.source,
+      notes: template.notes,
+      updated_at: now,
+    };
+
+    const data: WorkoutTemplateRecord = {
+      ...copy,
+      id: copy.client_id,
+      created_at: now,
+    };
+    setTemplates((prev) => [data, ...prev]);
+
+    await syncQueue.enqueue('save_template', { template: copy });
+
+    return { data, error: null };
+  };
+
+  const deleteTemplate = async (template: WorkoutTemplateRecord) => {
+    if (!user) return { error: new Error('No user logged in') };
+
+    setTemplates((prev) =>
+      prev.filter((t) => t.client_id !== template.client_id)
+    );
+
+    await syncQueue.enqueue('delete_template', {
+      templateClientId: template.client_id,
+    });
+
+    return { error: null };
+  };
+
+  return {
+    templates,
+    loading,
+    getTemplate,
+    saveTemplate,
+    duplicateTemplate,
+    deleteTemplate,
+    loadTemplates,
+  };
+}
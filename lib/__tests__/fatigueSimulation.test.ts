@@ -0,0 +1,100 @@
+import {
+  PlannedExercise,
+  planGeneratedExercises,
+  simulateWorkout,
+} from '@/lib/fatigueSimulation';
+import { GeneratedExercise } from '@/lib/gemini';
+
+const bench = { id: 'bench', name: 'Bench Press', muscleGroup: 'chest' };
+const row = { id: 'row', name: 'Barbell Row', muscleGroup: 'lats' };
+
+const benchSets = (restTime: number): PlannedExercise => ({
+  exercise: bench,
+  sets: 3,
+  reps: 8,
+  weight: 60,
+  restTime,
+});
+
+describe('simulateWorkout', () => {
+  it('has nothing to show for an empty plan', () => {
+    expect(simulateWorkout([], 90)).toEqual({
+      projections: [],
+      peaks: {},
+      warnings: [],
+      durationMinutes: 0,
+    });
+  });
+
+  it('projects fatigue after every set on a clock that includes rest', () => {
+    const simulation = simulateWorkout([benchSets(60)], 90);
+
+    // 45 s sets with a minute between them; no rest after the last one
+    expect(simulation.projections.map((p) => p.minute)).toEqual([
+      0.75, 2.5, 4.25,
+    ]);
+    expect(simulation.durationMinutes).toBe(4);
+  });
+
+  it('builds fatigue set on set, and less of it with longer rest', () => {
+    const short = simulateWorkout([benchSets(30)], 90).projections;
+    const long = simulateWorkout([benchSets(240)], 90).projections;
+
+    const chest = (projections: typeof short) =>
+      projections.map((projection) => projection.fatigue.chest || 0);
+    expect(chest(short)[1]).toBeGreaterThan(chest(short)[0]);
+    expect(chest(short)[2]).toBeGreaterThan(chest(long)[2]);
+  });
+
+  it('serves superset partners back to back', () => {
+    const plan: PlannedExercise[] = [
+      { ...benchSets(60), sets: 2, groupId: 'a' },
+      { exercise: row, sets: 2, reps: 8, weight: 50, groupId: 'a' },
+    ];
+
+    expect(
+      simulateWorkout(plan, 90).projections.map((p) => p.exerciseIndex)
+    ).toEqual([0, 1, 0, 1]);
+  });
+
+  it('warns once per muscle that reaches the threshold', () => {
+    const simulation = simulateWorkout([benchSets(60)], 90, 0);
+    const chestWarning = simulation.warnings.find((w) => w.muscle === 'chest');
+
+    expect(chestWarning).toMatchObject({
+      exerciseName: 'Bench Press',
+      minute: 0.75,
+      fatigue: simulation.peaks.chest,
+    });
+    expect(
+      simulation.warnings.filter((w) => w.muscle === 'chest')
+    ).toHaveLength(1);
+    expect(simulateWorkout([benchSets(60)], 90, 101).warnings).toEqual([]);
+  });
+});
+
+describe('planGeneratedExercises', () => {
+  it('keeps the prescription of each generated exercise', () => {
+    const generated = {
+      ...bench,
+      sets: 4,
+      reps: 6,
+      weight: 80,
+      restTime: 120,
+      restAfterExercise: 180,
+      groupId: 'a',
+    } as GeneratedExercise;
+
+    expect(planGeneratedExercises([generated])).toEqual([
+      {
+        exercise: generated,
+        sets: 4,
+        reps: 6,
+        weight: 80,
+        restTime: 120,
+        restAfterExercise: 180,
+        groupId: 'a',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,101 @@
+import {
+  DEFAULT_INTERVAL_CONFIGS,
+  PREPARE_SECONDS,
+  buildIntervalPhases,
+  buildRoundSet,
+  getIntervalPosition,
+  getIntervalTotalSeconds,
+} from '@/lib/intervals';
+
+describe('buildIntervalPhases', () => {
+  it('alternates work and rest with no rest after the last round', () => {
+    const phases = buildIntervalPhases(DEFAULT_INTERVAL_CONFIGS.tabata);
+
+    expect(phases[0]).toEqual({
+      type: 'prepare',
+      round: 0,
+      duration: PREPARE_SECONDS,
+    });
+    expect(phases.filter((phase) => phase.type === 'work')).toHaveLength(8);
+    expect(phases.filter((phase) => phase.type === 'rest')).toHaveLength(7);
+    expect(phases[phases.length - 1]).toEqual({
+      type: 'work',
+      round: 8,
+      duration: 20,
+    });
+    // 8 × 20 s work, 7 × 10 s rest
+    expect(getIntervalTotalSeconds(phases)).toBe(PREPARE_SECONDS + 230);
+  });
+
+  it('makes AMRAP one long work phase', () => {
+    const phases = buildIntervalPhases({
+      ...DEFAULT_INTERVAL_CONFIGS.amrap,
+      rounds: 5,
+    });
+
+    expect(phases.map((phase) => phase.type)).toEqual(['prepare', 'work']);
+    expect(phases[1].duration).toBe(600);
+  });
+
+  it('builds EMOM rounds with the rest inside the minute', () => {
+    const phases = buildIntervalPhases(DEFAULT_INTERVAL_CONFIGS.emom);
+
+    expect(phases.filter((phase) => phase.type === 'rest')).toHaveLength(0);
+    expect(getIntervalTotalSeconds(phases)).toBe(PREPARE_SECONDS + 600);
+  });
+});
+
+describe('getIntervalPosition', () => {
+  const phases = buildIntervalPhases(DEFAULT_INTERVAL_CONFIGS.tabata);
+
+  it('finds the phase and the seconds left in it', () => {
+    expect(getIntervalPosition(phases, 0)).toMatchObject({
+      index: 0,
+      remaining: PREPARE_SECONDS,
+      finished: false,
+    });
+    expect(getIntervalPosition(phases, PREPARE_SECONDS + 5.5)).toMatchObject({
+      index: 1,
+      phase: { type: 'work', round: 1 },
+      remaining: 15,
+    });
+    expect(getIntervalPosition(phases, PREPARE_SECONDS + 20)).toMatchObject({
+      index: 2,
+      phase: { type: 'rest', round: 1 },
+      remaining: 10,
+    });
+  });
+
+  it('skips straight to the right phase after a long gap', () => {
+    // Four work and four rest phases in
+    expect(getIntervalPosition(phases, PREPARE_SECONDS + 121).phase).toEqual({
+      type: 'work',
+      round: 5,
+      duration: 20,
+    });
+  });
+
+  it('is finished once every phase has run', () => {
+    expect(
+      getIntervalPosition(phases, getIntervalTotalSeconds(phases))
+    ).toEqual({
+      index: phases.length,
+      remaining: 0,
+      finished: true,
+    });
+  });
+});
+
+describe('buildRoundSet', () => {
+  it('logs a round as a timed working set', () => {
+    expect(buildRoundSet(DEFAULT_INTERVAL_CONFIGS.tabata, 20.4, 12)).toEqual({
+      duration: 20,
+      reps: 12,
+      setType: 'working',
+      restTime: 10,
+    });
+    expect(
+      buildRoundSet(DEFAULT_INTERVAL_CONFIGS.emom, 60).restTime
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,158 @@
+import { PersonalRecord } from '@/lib/supabase';
+import { WorkoutSet } from '@/types/workout';
+import {
+  estimateOneRepMax,
+  findPersonalRecords,
+  formatRecordValue,
+  getPreviousBest,
+} from '@/lib/personalRecords';
+
+const bench = { id: 'exercise-0', name: 'Bench Press' };
+
+let setCount = 0;
+const makeSet = (overrides: Partial<WorkoutSet>): WorkoutSet => ({
+  id: `set-${++setCount}`,
+  exerciseId: bench.id,
+  completed: true,
+  ...overrides,
+});
+
+const makeRecord = (overrides: Partial<PersonalRecord>): PersonalRecord => ({
+  id: 'record',
+  user_id: 'user',
+  exercise_id: bench.id,
+  exercise_name: bench.name,
+  record_type: 'weight',
+  value: 0,
+  date: '2025-07-01T00:00:00Z',
+  created_at: '2025-07-01T00:00:00Z',
+  ...overrides,
+});
+
+const sets = [
+  makeSet({ weight: 60, reps: 10, setType: 'warmup' }),
+  makeSet({ weight: 100, reps: 5 }),
+  makeSet({ weight: 90, reps: 8 }),
+  makeSet({ weight: 120, reps: 1, completed: false }),
+];
+
+describe('estimateOneRepMax', () => {
+  it('uses Brzycki up to 10 reps and Epley above', () => {
+    expect(estimateOneRepMax(100, 1)).toBe(100);
+    expect(estimateOneRepMax(100, 5)).toBe(112.5);
+    expect(estimateOneRepMax(100, 10)).toBe(133.3);
+    expect(estimateOneRepMax(100, 12)).toBe(140);
+  });
+
+  it('has no estimate without a load or reps', () => {
+    expect(estimateOneRepMax(0, 5)).toBe(0);
+    expect(estimateOneRepMax(100, 0)).toBe(0);
+  });
+});
+
+describe('findPersonalRecords', () => {
+  it('sets a baseline of every kind on the first session', () => {
+    const records = findPersonalRecords(sets, bench, []);
+
+    expect(
+      records.map(({ record_type, value, weight }) => ({
+        record_type,
+        value,
+        weight,
+      }))
+    ).toEqual([
+      { record_type: 'weight', value: 100, weight: 100 },
+      { record_type: 'e1rm', value: 112.5, weight: 100 },
+      { record_type: 'reps', value: 5, weight: 100 },
+      { record_type: 'reps', value: 8, weight: 90 },
+      { record_type: 'set_volume', value: 720, weight: 90 },
+      { record_type: 'session_volume', value: 1220, weight: undefined },
+    ]);
+    records.forEach((record) => expect(record.previous).toBeUndefined());
+  });
+
+  it('only returns records that beat the previous best', () => {
+    const records = findPersonalRecords(sets, bench, [
+      makeRecord({ record_type: 'weight', value: 100, weight: 100 }),
+      makeRecord({ record_type: 'e1rm', value: 115 }),
+      makeRecord({ record_type: 'reps', value: 5, weight: 100 }),
+      makeRecord({ record_type: 'reps', value: 6, weight: 90 }),
+      makeRecord({ record_type: 'set_volume', value: 700 }),
+      makeRecord({ record_type: 'session_volume', value: 1300 }),
+    ]);
+
+    expect(
+      records.map(({ record_type, value, previous }) => ({
+        record_type,
+        value,
+        previous,
+      }))
+    ).toEqual([
+      { record_type: 'reps', value: 8, previous: 6 },
+      { record_type: 'set_volume', value: 720, previous: 700 },
+    ]);
+  });
+
+  it('matches earlier records by exercise name, not id', () => {
+    const records = findPersonalRecords(sets, bench, [
+      makeRecord({ exercise_name: 'Back Squat', value: 180, weight: 180 }),
+    ]);
+
+    expect(records.find((r) => r.record_type === 'weight')).toMatchObject({
+      value: 100,
+      previous: undefined,
+    });
+  });
+
+  it('only tracks reps for bodyweight sets', () => {
+    const records = findPersonalRecords(
+      [makeSet({ reps: 12 }), makeSet({ reps: 15 })],
+      bench,
+      []
+    );
+
+    expect(records).toEqual([
+      expect.objectContaining({ record_type: 'reps', value: 15 }),
+    ]);
+    expect(records[0].weight).toBeUndefined();
+  });
+
+  it('ignores warm-ups and unfinished sets', () => {
+    expect(
+      findPersonalRecords(
+        [
+          makeSet({ weight: 60, reps: 10, setType: 'warmup' }),
+          makeSet({ weight: 140, reps: 1, completed: false }),
+        ],
+        bench,
+        []
+      )
+    ).toEqual([]);
+  });
+});
+
+describe('getPreviousBest', () => {
+  it('compares rep records at the same weight only', () => {
+    const records = [
+      makeRecord({ record_type: 'reps', value: 12, weight: 60 }),
+      makeRecord({ record_type: 'reps', value: 6, weight: 100 }),
+    ];
+
+    expect(getPreviousBest(records, bench.name, 'reps', 100)).toBe(6);
+    expect(getPreviousBest(records, bench.name, 'reps', 80)).toBeUndefined();
+  });
+});
+
+describe('formatRecordValue', () => {
+  it('formats each kind of record', () => {
+    expect(formatRecordValue({ record_type: 'weight', value: 100 }, 'kg')).toBe(
+      '100 kg'
+    );
+    expect(
+      formatRecordValue({ record_type: 'reps', value: 8, weight: 90 }, 'kg')
+    ).toBe('8 reps @ 90 kg');
+    expect(formatRecordValue({ record_type: 'reps', value: 15 }, 'kg')).toBe(
+      '15 reps'
+    );
+  });
+});
@@ -0,0 +1,103 @@
+import {
+  DEFAULT_PLATE_INVENTORY,
+  calculatePlateLoad,
+  getBarWeight,
+  usesPlates,
+} from '@/lib/plates';
+
+const kgPlates = DEFAULT_PLATE_INVENTORY.kg;
+
+describe('calculatePlateLoad', () => {
+  it('loads an exact weight with the fewest plates', () => {
+    expect(calculatePlateLoad(60, 20, kgPlates, 'kg')).toEqual({
+      barWeight: 20,
+      platesPerSide: [20],
+      total: 60,
+      exact: true,
+    });
+    expect(calculatePlateLoad(100, 20, kgPlates, 'kg').platesPerSide).toEqual([
+      20, 20,
+    ]);
+  });
+
+  it('rounds to the closest loadable weight', () => {
+    const load = calculatePlateLoad(101, 20, kgPlates, 'kg');
+
+    expect(load.total).toBe(100);
+    expect(load.exact).toBe(false);
+  });
+
+  it('rounds a tie down to the lighter load', () => {
+    const inventory = [
+      { weight: 20, pairs: 2 },
+      { weight: 2.5, pairs: 1 },
+    ];
+
+    // 41.25 kg a side sits halfway between 40 and 42.5
+    expect(calculatePlateLoad(102.5, 20, inventory, 'kg').total).toBe(100);
+  });
+
+  it('makes up a missing plate size from smaller plates', () => {
+    const inventory = [
+      { weight: 25, pairs: 1 },
+      { weight: 10, pairs: 2 },
+      { weight: 5, pairs: 2 },
+    ];
+
+    expect(calculatePlateLoad(60, 20, inventory, 'kg').platesPerSide).toEqual([
+      10, 10,
+    ]);
+  });
+
+  it('stops at what the inventory can load', () => {
+    const load = calculatePlateLoad(500, 20, kgPlates, 'kg');
+
+    expect(load.total).toBe(302.5);
+    expect(load.exact).toBe(false);
+  });
+
+  it('works in pounds while returning kilograms', () => {
+    const load = calculatePlateLoad(
+      102.058, // 225 lb
+      getBarWeight('Barbell', 'lb', {}),
+      DEFAULT_PLATE_INVENTORY.lb,
+      'lb'
+    );
+
+    expect(load.platesPerSide).toEqual([45, 45]);
+    expect(load.total).toBe(102.058);
+    expect(load.exact).toBe(true);
+  });
+
+  it('leaves a load lighter than the bar empty', () => {
+    expect(calculatePlateLoad(15, 20, kgPlates, 'kg')).toMatchObject({
+      platesPerSide: [],
+      total: 20,
+      exact: false,
+    });
+  });
+});
+
+describe('getBarWeight', () => {
+  it('uses a standard bar for the unit', () => {
+    expect(getBarWeight('Barbell', 'kg', {})).toBe(20);
+    expect(getBarWeight('Barbell', 'lb', {})).toBe(20.412);
+    expect(getBarWeight('E-Z Curl Bar', 'kg', {})).toBe(10);
+  });
+
+  it("prefers the user's own bars", () => {
+    const settings = { barWeight: 15, ezBarWeight: 8 };
+
+    expect(getBarWeight('Barbell', 'kg', settings)).toBe(15);
+    expect(getBarWeight('E-Z Curl Bar', 'kg', settings)).toBe(8);
+  });
+});
+
+describe('usesPlates', () => {
+  it('is true for bars only', () => {
+    expect(usesPlates('Barbell')).toBe(true);
+    expect(usesPlates('E-Z Curl Bar')).toBe(true);
+    expect(usesPlates('Dumbbells')).toBe(false);
+    expect(usesPlates(undefined)).toBe(false);
+  });
+});
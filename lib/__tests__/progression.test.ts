@@ -0,0 +1,172 @@
+import { WorkoutSetRecord } from '@/lib/supabase';
+import { toKg } from '@/lib/units';
+import {
+  formatSessionSummary,
+  getWeightIncrement,
+  roundToIncrement,
+  suggestNextSet,
+} from '@/lib/progression';
+
+const bench = { name: 'Bench Press', equipment: 'Barbell' };
+const squat = { name: 'Back Squat', equipment: 'Barbell' };
+
+// One workout's sets of an exercise as [weight in kg, reps] pairs
+const session = (
+  workoutId: string,
+  date: string,
+  sets: [number, number][],
+  setType: WorkoutSetRecord['set_type'] = 'working'
+): WorkoutSetRecord[] =>
+  sets.map(([weight, reps], index) => ({
+    id: `${workoutId}-${setType}-${index}`,
+    workout_id: workoutId,
+    user_id: 'user',
+    exercise_id: 'bench',
+    exercise_name: bench.name,
+    set_number: index + 1,
+    weight: weight || undefined,
+    reps,
+    set_type: setType,
+    completed: true,
+    created_at: date,
+  }));
+
+describe('suggestNextSet', () => {
+  it('has nothing to go on the first time', () => {
+    expect(suggestNextSet([], bench, 'kg').action).toBe('first_time');
+  });
+
+  it('adds weight once every set reaches the top of the range', () => {
+    const history = session('w1', '2025-07-01', [
+      [100, 10],
+      [100, 10],
+      [100, 10],
+    ]);
+
+    expect(suggestNextSet(history, bench, 'kg')).toMatchObject({
+      action: 'add_weight',
+      weight: 102.5,
+      reps: 8,
+    });
+    expect(suggestNextSet(history, squat, 'kg').weight).toBe(105);
+  });
+
+  it('adds a rep while working up the range', () => {
+    const history = session('w1', '2025-07-01', [
+      [100, 9],
+      [100, 8],
+      [100, 8],
+    ]);
+
+    expect(suggestNextSet(history, bench, 'kg')).toMatchObject({
+      action: 'add_reps',
+      weight: 100,
+      reps: 9,
+    });
+  });
+
+  it('repeats a weight after one missed session and backs off after two', () => {
+    const missed = session('w2', '2025-07-04', [
+      [100, 8],
+      [100, 7],
+      [100, 6],
+    ]);
+    expect(suggestNextSet(missed, bench, 'kg')).toMatchObject({
+      action: 'repeat',
+      weight: 100,
+      reps: 8,
+    });
+
+    const history = [
+      ...session('w1', '2025-07-01', [
+        [100, 7],
+        [100, 6],
+      ]),
+      ...missed,
+    ];
+    expect(suggestNextSet(history, bench, 'kg')).toMatchObject({
+      action: 'back_off',
+      weight: 90,
+      reps: 8,
+    });
+  });
+
+  it('leaves warm-ups out of the last session', () => {
+    const history = [
+      ...session('w1', '2025-07-01', [[60, 5]], 'warmup'),
+      ...session('w1', '2025-07-01', [
+        [100, 10],
+        [100, 10],
+      ]),
+    ];
+
+    expect(suggestNextSet(history, bench, 'kg')).toMatchObject({
+      action: 'add_weight',
+    });
+  });
+
+  it('progresses bodyweight sets on reps', () => {
+    const history = session('w1', '2025-07-01', [
+      [0, 12],
+      [0, 10],
+    ]);
+
+    expect(suggestNextSet(history, bench, 'kg')).toMatchObject({
+      action: 'add_reps',
+      reps: 11,
+    });
+  });
+
+  it('adds weight in the steps of the chosen unit', () => {
+    const history = session('w1', '2025-07-01', [
+      [toKg(225, 'lb'), 10],
+      [toKg(225, 'lb'), 10],
+    ]);
+
+    expect(suggestNextSet(history, bench, 'lb').weight).toBe(toKg(230, 'lb'));
+  });
+});
+
+describe('getWeightIncrement', () => {
+  it('doubles the step for big lower-body barbell lifts', () => {
+    expect(getWeightIncrement(bench, 'kg')).toBe(2.5);
+    expect(getWeightIncrement(squat, 'kg')).toBe(5);
+    expect(
+      getWeightIncrement(
+        { name: 'Goblet Squat', equipment: 'Kettlebells' },
+        'kg'
+      )
+    ).toBe(4);
+  });
+});
+
+describe('roundToIncrement', () => {
+  it('rounds to a weight that can be loaded', () => {
+    expect(roundToIncrement(91.3, 2.5, 'kg')).toBe(92.5);
+    expect(roundToIncrement(toKg(183, 'lb'), 5, 'lb')).toBe(toKg(185, 'lb'));
+  });
+});
+
+describe('formatSessionSummary', () => {
+  it('collapses matching sets and lists the rest', () => {
+    expect(
+      formatSessionSummary(
+        session('w1', '2025-07-01', [
+          [100, 8],
+          [100, 8],
+          [100, 8],
+        ]),
+        'kg'
+      )
+    ).toBe('3×8 @ 100 kg');
+    expect(
+      formatSessionSummary(
+        session('w1', '2025-07-01', [
+          [100, 8],
+          [100, 7],
+        ]),
+        'kg'
+      )
+    ).toBe('100×8, 100×7');
+  });
+});
@@ -0,0 +1,127 @@
+import { getSetFatigueFactors } from '@/lib/fatigue';
+import {
+  READY_THRESHOLD,
+  RecoverySet,
+  formatReadyIn,
+  getReadiness,
+  getSessionSetTimes,
+  replayRecovery,
+} from '@/lib/recovery';
+
+const HOUR_MS = 60 * 60 * 1000;
+const start = Date.UTC(2025, 6, 1, 18);
+
+const bench = { id: 'bench', muscleGroup: 'chest' };
+
+// Four working sets of bench press, a couple of minutes apart
+const benchSession = (performedAt: number): RecoverySet[] =>
+  Array.from({ length: 4 }, (_, index) => ({
+    ...getSetFatigueFactors(
+      {
+        id: `${performedAt}-${index}`,
+        exerciseId: bench.id,
+        weight: 80,
+        reps: 8,
+        rpe: 7,
+        completed: true,
+        restTime: 120,
+      },
+      bench
+    ),
+    performedAt: performedAt + index * 2 * 60 * 1000,
+  }));
+
+const chestOf = (sets: RecoverySet[], now: number) =>
+  replayRecovery(sets, now).find((entry) => entry.muscle === 'chest')!;
+
+describe('replayRecovery', () => {
+  it('has nothing to report without recent sets', () => {
+    expect(replayRecovery([], start)).toEqual([]);
+  });
+
+  it('leaves a trained muscle less ready, then recovers it over days', () => {
+    const sets = benchSession(start);
+    const justAfter = chestOf(sets, start + HOUR_MS);
+    const nextDay = chestOf(sets, start + 24 * HOUR_MS);
+    const threeDaysOn = chestOf(sets, start + 72 * HOUR_MS);
+
+    expect(justAfter.readiness).toBeLessThan(READY_THRESHOLD);
+    expect(nextDay.readiness).toBeGreaterThan(justAfter.readiness);
+    expect(threeDaysOn.readiness).toBeGreaterThan(97);
+  });
+
+  it('predicts when the muscle is ready again', () => {
+    const sets = benchSession(start);
+    const { readyAt } = chestOf(sets, start);
+
+    expect(readyAt).toBeGreaterThan(start);
+    expect(chestOf(sets, readyAt).readiness).toBeCloseTo(READY_THRESHOLD);
+  });
+
+  it('stacks fatigue from sessions that come before recovery', () => {
+    const now = start + 26 * HOUR_MS;
+    const once = chestOf(benchSession(start + 24 * HOUR_MS), now);
+    const twice = chestOf(
+      [...benchSession(start), ...benchSession(start + 24 * HOUR_MS)],
+      now
+    );
+
+    expect(twice.fatigue).toBeGreaterThan(once.fatigue);
+  });
+
+  it('replays sets in the order they were performed', () => {
+    const sets = benchSession(start);
+
+    expect(replayRecovery([...sets].reverse(), start + HOUR_MS)).toEqual(
+      replayRecovery(sets, start + HOUR_MS)
+    );
+  });
+});
+
+describe('getSessionSetTimes', () => {
+  it('spaces sets across the workout, ending when it was saved', () => {
+    const finishedAt = start + HOUR_MS;
+
+    expect(getSessionSetTimes(finishedAt, 60, 4)).toEqual([
+      start + 0.25 * HOUR_MS,
+      start + 0.5 * HOUR_MS,
+      start + 0.75 * HOUR_MS,
+      finishedAt,
+    ]);
+  });
+
+  it('leaves a long session less fatigued than the same sets at once', () => {
+    const sets = benchSession(start);
+    const spread = getSessionSetTimes(start + 3 * HOUR_MS, 180, sets.length);
+    const spreadSets = sets.map((set, index) => ({
+      ...set,
+      performedAt: spread[index],
+    }));
+    const stacked = sets.map((set) => ({
+      ...set,
+      performedAt: start + 3 * HOUR_MS,
+    }));
+
+    expect(chestOf(spreadSets, start + 3 * HOUR_MS).fatigue).toBeLessThan(
+      chestOf(stacked, start + 3 * HOUR_MS).fatigue
+    );
+  });
+});
+
+describe('getReadiness', () => {
+  it('is 100 for muscles that have not been trained', () => {
+    const readiness = replayRecovery(benchSession(start), start + HOUR_MS);
+
+    expect(getReadiness(readiness, 'Chest')).toBeLessThan(100);
+    expect(getReadiness(readiness, 'Quads')).toBe(100);
+  });
+});
+
+describe('formatReadyIn', () => {
+  it('counts hours, then days', () => {
+    expect(formatReadyIn(start - HOUR_MS, start)).toBe('Ready now');
+    expect(formatReadyIn(start + 4.5 * HOUR_MS, start)).toBe('Ready in 5h');
+    expect(formatReadyIn(start + 30 * HOUR_MS, start)).toBe('Ready in 1 day');
+    expect(formatReadyIn(start + 50 * HOUR_MS, start)).toBe('Ready in 2 days');
+  });
+});
@@ -0,0 +1,138 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { syncQueue } from '@/lib/syncQueue';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  jest.requireActual(
+    '@react-native-async-storage/async-storage/jest/async-storage-mock'
+  )
+);
+
+type Queue = typeof syncQueue;
+
+// The queue is a module singleton, but every user has their own queue, so
+// each test signs in a user of its own to start from a fresh (or stored) one
+let testUserCount = 0;
+const loadQueue = async (storedQueue?: object[]): Promise<Queue> => {
+  const userId = `user-${++testUserCount}`;
+  if (storedQueue) {
+    await AsyncStorage.setItem(
+      `@boltlab_sync_queue:${userId}`,
+      JSON.stringify(storedQueue)
+    );
+  }
+  syncQueue.setUser(userId);
+  return syncQueue;
+};
+
+const waitUntilSynced = (queue: Queue) =>
+  new Promise<void>((resolve) => {
+    const unsubscribe = queue.subscribe((status) => {
+      if (!status.isSyncing && status.pendingCount === 0) {
+        unsubscribe();
+        resolve();
+      }
+    });
+  });
+
+describe('syncQueue', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    syncQueue.setUser(null);
+    jest.restoreAllMocks();
+  });
+
+  it('sends a write once, with its client id', async () => {
+    const queue = await loadQueue();
+    const handler = jest.fn().mockResolvedValue({ error: null });
+    queue.registerHandler('save_workout', handler);
+
+    const clientId = await queue.enqueue('save_workout', { duration: 30 });
+    await queue.flush();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith({ duration: 30 }, clientId);
+    expect(queue.getStatus().pendingCount).toBe(0);
+  });
+
+  it('retries a failed write with the same client id', async () => {
+    const queue = await loadQueue();
+    const handler = jest
+      .fn()
+      .mockResolvedValueOnce({ error: new Error('Network request failed') })
+      .mockResolvedValue({ error: null });
+    queue.registerHandler('save_workout', handler);
+
+    const clientId = await queue.enqueue('save_workout', { duration: 30 });
+    expect(queue.getStatus().pendingCount).toBe(1);
+
+    // Past the backoff
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 60 * 1000);
+    await queue.flush();
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(handler.mock.calls[1][1]).toBe(clientId);
+    expect(queue.getStatus().pendingCount).toBe(0);
+  });
+
+  it('keeps the client id of a write queued before a restart', async () => {
+    const handler = jest.fn().mockResolvedValue({ error: null });
+    syncQueue.registerHandler('save_workout', handler);
+
+    const queue = await loadQueue([
+      {
+        id: 'stored-id',
+        kind: 'save_workout',
+        payload: { duration: 45 },
+        attempts: 1,
+        nextAttemptAt: 0,
+        createdAt: 0,
+      },
+    ]);
+    await waitUntilSynced(queue);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith({ duration: 45 }, 'stored-id');
+  });
+
+  it('gives up on a write the server keeps rejecting', async () => {
+    const queue = await loadQueue();
+    const handler = jest
+      .fn()
+      .mockResolvedValue({ error: { code: '23505', message: 'duplicate' } });
+    queue.registerHandler('save_workout', handler);
+
+    await queue.enqueue('save_workout', { duration: 30 });
+    let now = Date.now();
+    const clock = jest.spyOn(Date, 'now');
+    while (queue.getStatus().pendingCount > 0) {
+      now += 10 * 60 * 1000;
+      clock.mockReturnValue(now);
+      await queue.flush();
+    }
+
+    expect(handler).toHaveBeenCalledTimes(5);
+  });
+
+  it('keeps writes queued by one account away from the next', async () => {
+    const queue = await loadQueue();
+    const handler = jest
+      .fn()
+      .mockResolvedValue({ error: new Error('Network request failed') });
+    queue.registerHandler('save_workout', handler);
+
+    await queue.enqueue('save_workout', { duration: 30 });
+    expect(queue.getStatus().pendingCount).toBe(1);
+
+    handler.mockResolvedValue({ error: null });
+    await loadQueue();
+    queue.retryNow();
+    await queue.flush();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(queue.getStatus().pendingCount).toBe(0);
+  });
+});
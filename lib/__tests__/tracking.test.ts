@@ -0,0 +1,14 @@
+import { formatDuration } from '@/lib/tracking';
+
+describe('formatDuration', () => {
+  it('shows minutes and padded seconds', () => {
+    expect(formatDuration(0)).toBe('0:00');
+    expect(formatDuration(90)).toBe('1:30');
+    expect(formatDuration(605)).toBe('10:05');
+  });
+
+  it('carries rounded-up seconds into the next minute', () => {
+    expect(formatDuration(59.6)).toBe('1:00');
+    expect(formatDuration(119.5)).toBe('2:00');
+  });
+});
@@ -0,0 +1,49 @@
+import {
+  formatWeight,
+  fromKg,
+  getWeightUnitForSystem,
+  toKg,
+} from '@/lib/units';
+
+describe('toKg', () => {
+  it('leaves kilograms alone', () => {
+    expect(toKg(62.5, 'kg')).toBe(62.5);
+  });
+
+  it('converts pounds', () => {
+    expect(toKg(225, 'lb')).toBe(102.058);
+    expect(toKg(0, 'lb')).toBe(0);
+  });
+});
+
+describe('fromKg', () => {
+  it('rounds pounds to a tenth', () => {
+    expect(fromKg(100, 'kg')).toBe(100);
+    expect(fromKg(100, 'lb')).toBe(220.5);
+  });
+
+  it('gets back the pounds that were typed', () => {
+    [5, 45, 135, 225, 315, 402.5].forEach((pounds) => {
+      expect(fromKg(toKg(pounds, 'lb'), 'lb')).toBe(pounds);
+    });
+  });
+
+  it('drops float noise from kilograms', () => {
+    expect(fromKg(0.1 + 0.2, 'kg')).toBe(0.3);
+  });
+});
+
+describe('formatWeight', () => {
+  it('shows the weight in the chosen unit', () => {
+    expect(formatWeight(20, 'kg')).toBe('20 kg');
+    expect(formatWeight(20, 'lb')).toBe('44.1 lb');
+  });
+});
+
+describe('getWeightUnitForSystem', () => {
+  it('maps the onboarding choice', () => {
+    expect(getWeightUnitForSystem('metric')).toBe('kg');
+    expect(getWeightUnitForSystem('imperial')).toBe('lb');
+    expect(getWeightUnitForSystem(undefined)).toBe('lb');
+  });
+});
@@ -1,67 +1,80 @@
+import { SetType, WorkoutSet } from '@/types/workout';
+import { getSetSeconds, getSetType } from '@/lib/sets';
+import { getEquivalentReps, getFatigueVolume } from '@/lib/tracking';
+import {
+  Muscle,
+  MuscleLoad,
+  MUSCLE_LABELS,
+  getExerciseMuscles,
+  resolveMuscles,
+} from '@/lib/muscles';
+
 export interface MuscleFatigue {
-  muscleGroup: string;
+  muscle: Muscle;
   fatigueLevel: number; // 0-100, where 100 is completely fatigued
   lastExerciseTime: number; // timestamp of last exercise targeting this muscle
-  totalVolume: number; // total weight × reps for this muscle group
+  totalVolume: number; // weight × reps, scaled by the muscle's share
   exerciseCount: number; // number of exercises targeting this muscle
   recoveryRate: number; // fatigue recovery per minute
 }
 
 export interface FatigueFactors {
   exerciseIntensity: number; // 0-1 based on weight relative to max
-  exerciseVolume: number; // weight × reps
+  exerciseVolume: number; // weight (kg) × reps
   exerciseDuration: number; // time spent on exercise in seconds
   restTime: number; // rest time since last exercise in seconds
   muscleGroup: string;
+  muscles?: MuscleLoad[]; // muscles sharing the load; muscleGroup's by default
   exerciseDifficulty: 'beginner' | 'intermediate' | 'advanced';
+  setType?: SetType; // defaults to a working set
+}
+
+// Plain-object form of a FatigueCalculator so it can be persisted
+export interface FatigueSnapshot {
+  muscleFatigue: MuscleFatigue[];
+  workoutStartTime: number;
 }
 
-// Base fatigue rates for different muscle groups (per set)
-const MUSCLE_FATIGUE_RATES: Record<string, number> = {
-  Chest: 15,
-  Back: 12,
-  Shoulders: 18,
-  Biceps: 20,
-  Triceps: 18,
-  Legs: 10,
-  Core: 8,
-  Calves: 25,
-  Hamstrings: 12,
-  Quadriceps: 10,
-  Glutes: 8,
-  Forearms: 30,
-  Traps: 15,
-  Lats: 12,
-  Deltoids: 18,
-  Pectorals: 15,
-  Abdominals: 8,
-  Obliques: 10,
-  'Lower Back': 12,
-  'Upper Back': 12,
+// Base fatigue rates for a prime mover (per set)
+const MUSCLE_FATIGUE_RATES: Record<Muscle, number> = {
+  chest: 15,
+  shoulders: 18,
+  biceps: 20,
+  triceps: 18,
+  forearms: 30,
+  traps: 15,
+  lats: 12,
+  'middle-back': 12,
+  'lower-back': 12,
+  abs: 8,
+  quads: 10,
+  hamstrings: 12,
+  glutes: 8,
+  calves: 25,
+  adductors: 12,
+  abductors: 12,
+  neck: 20,
 };
 
-// Recovery rates per minute for different muscle groups
-const MUSCLE_RECOVERY_RATES: Record<string, number> = {
-  Chest: 2.5,
-  Back: 3.0,
-  Shoulders: 2.0,
-  Biceps: 1.5,
-  Triceps: 2.0,
-  Legs: 4.0,
-  Core: 5.0,
-  Calves: 1.0,
-  Hamstrings: 3.0,
-  Quadriceps: 4.0,
-  Glutes: 4.5,
-  Forearms: 0.5,
-  Traps: 2.5,
-  Lats: 3.0,
-  Deltoids: 2.0,
-  Pectorals: 2.5,
-  Abdominals: 5.0,
-  Obliques: 4.0,
-  'Lower Back': 3.0,
-  'Upper Back': 3.0,
+// Recovery rates per minute for each muscle
+const MUSCLE_RECOVERY_RATES: Record<Muscle, number> = {
+  chest: 2.5,
+  shoulders: 2.0,
+  biceps: 1.5,
+  triceps: 2.0,
+  forearms: 0.5,
+  traps: 2.5,
+  lats: 3.0,
+  'middle-back': 3.0,
+  'lower-back': 3.0,
+  abs: 5.0,
+  quads: 4.0,
+  hamstrings: 3.0,
+  glutes: 4.5,
+  calves: 1.0,
+  adductors: 3.0,
+  abductors: 3.0,
+  neck: 2.0,
 };
 
 // Difficulty multipliers
@@ -71,22 +84,134 @@ const DIFFICULTY_MULTIPLIERS = {
   advanced: 1.3,
 };
 
+// Set type multipliers: warm-ups barely register, sets taken near or past
+// failure cost more than a straight working set
+const SET_TYPE_MULTIPLIERS: Record<SetType, number> = {
+  warmup: 0.3,
+  working: 1.0,
+  drop: 1.15,
+  failure: 1.25,
+  amrap: 1.2,
+};
+
+export const MIN_RPE = 6;
+export const MAX_RPE = 10;
+
+// Convert reps in reserve to the equivalent RPE (0 RIR = RPE 10)
+export const rirToRpe = (rir: number): number =>
+  Math.min(MAX_RPE, Math.max(MIN_RPE, MAX_RPE - rir));
+
+// Map RPE 6-10 onto exerciseIntensity: RPE 6 = 0.4, RPE 8 = 0.7, RPE 10 = 1.0
+export const rpeToIntensity = (rpe: number): number => {
+  const clamped = Math.min(MAX_RPE, Math.max(MIN_RPE, rpe));
+  return 0.4 + (clamped - MIN_RPE) * 0.15;
+};
+
+// Fallback when no RPE was logged: weight relative to an Epley-estimated max
+export const estimateIntensityFromReps = (
+  weight: number,
+  reps: number
+): number => {
+  if (weight <= 0) return 0.5;
+  const estimatedMax = weight * (1 + reps / 30);
+  return Math.min(weight / estimatedMax, 1.0);
+};
+
+export const getFatigueColor = (level: number): string => {
+  if (level < 30) return '#10B981'; // Green
+  if (level < 60) return '#F59E0B'; // Yellow
+  if (level < 80) return '#F97316'; // Orange
+  return '#EF4444'; // Red
+};
+
+// Rest after which a muscle goes into the next set fully recovered
+const FULL_REST_SECONDS = 300;
+
+const DIFFICULTIES: FatigueFactors['exerciseDifficulty'][] = [
+  'beginner',
+  'intermediate',
+  'advanced',
+];
+
+const isDifficulty = (
+  value: string | undefined
+): value is FatigueFactors['exerciseDifficulty'] =>
+  DIFFICULTIES.some((difficulty) => difficulty === value);
+
+// Fatigue factors for a logged set. `defaultRpe` stands in when the set has
+// no RPE of its own, e.g. for interval rounds. A set with no rest recorded
+// before it, like the first of a session, counts as fully rested
+export const getSetFatigueFactors = (
+  set: WorkoutSet,
+  exercise: {
+    id?: string;
+    muscleGroup: string;
+    targetMuscles?: string[];
+    difficulty?: string;
+  },
+  defaultRpe?: number,
+  restTime = set.restTime
+): FatigueFactors => {
+  const setType = getSetType(set);
+
+  // Logged RPE is the best signal for how hard the set was; a set taken
+  // to failure is RPE 10 by definition; otherwise fall back to weight
+  // relative to an estimated max
+  const effectiveRpe =
+    set.rpe ?? (setType === 'failure' ? MAX_RPE : defaultRpe);
+  const intensity =
+    effectiveRpe !== undefined
+      ? rpeToIntensity(effectiveRpe)
+      : estimateIntensityFromReps(set.weight || 0, getEquivalentReps(set));
+
+  return {
+    exerciseIntensity: intensity,
+    exerciseVolume: getFatigueVolume(set),
+    // Timed and live-logged sets know how long they took; assume 60
+    // seconds otherwise
+    exerciseDuration: getSetSeconds(set) ?? 60,
+    restTime: restTime ?? FULL_REST_SECONDS,
+    muscleGroup: exercise.muscleGroup,
+    muscles: getExerciseMuscles(exercise),
+    exerciseDifficulty: isDifficulty(exercise.difficulty)
+      ? exercise.difficulty
+      : 'intermediate',
+    setType,
+  };
+};
+
+const getFactorMuscles = (factors: FatigueFactors): MuscleLoad[] =>
+  factors.muscles || resolveMuscles(factors.muscleGroup);
+
+// Current time in ms. Simulations pass their own to run a planned workout
+// without waiting for it
+export type Clock = () => number;
+
 export class FatigueCalculator {
-  private muscleFatigue: Map<string, MuscleFatigue> = new Map();
+  private muscleFatigue: Map<Muscle, MuscleFatigue> = new Map();
   private workoutStartTime: number;
+  private now: Clock;
 
-  constructor() {
-    this.workoutStartTime = Date.now();
+  constructor(now: Clock = Date.now) {
+    this.now = now;
+    this.workoutStartTime = now();
   }
 
-  // Calculate fatigue increase from completing a set
-  calculateFatigueIncrease(factors: FatigueFactors): number {
-    const baseRate = MUSCLE_FATIGUE_RATES[factors.muscleGroup] || 10;
+  // Calculate the fatigue a set adds to one muscle working as a prime mover;
+  // defaults to the set's first muscle
+  calculateFatigueIncrease(
+    factors: FatigueFactors,
+    muscle: Muscle | undefined = getFactorMuscles(factors)[0]?.muscle
+  ): number {
+    const baseRate = (muscle && MUSCLE_FATIGUE_RATES[muscle]) || 10;
     const difficultyMultiplier =
       DIFFICULTY_MULTIPLIERS[factors.exerciseDifficulty];
+    const setTypeMultiplier =
+      SET_TYPE_MULTIPLIERS[factors.setType || 'working'];
 
-    // Volume factor (higher volume = more fatigue)
-    const volumeFactor = Math.min(factors.exerciseVolume / 1000, 2.0);
+    // Volume factor (higher volume = more fatigue); ~450 kg·reps, e.g.
+    // 60 kg × 8, is a full-strength set
+    const volumeFactor = Math.min(factors.exerciseVolume / 450, 2.0);
 
     // Intensity factor (higher intensity = more fatigue)
     const intensityFactor = factors.exerciseIntensity * 1.5;
@@ -95,11 +220,15 @@ export class FatigueCalculator {
     const durationFactor = Math.min(factors.exerciseDuration / 60, 1.5);
 
     // Rest factor (less rest = more fatigue)
-    const restFactor = Math.max(1.0 - factors.restTime / 300, 0.5); // 5 minutes = full rest
+    const restFactor = Math.max(
+      1.0 - factors.restTime / FULL_REST_SECONDS,
+      0.5
+    );
 
     const fatigueIncrease =
       baseRate *
       difficultyMultiplier *
+      setTypeMultiplier *
       volumeFactor *
       intensityFactor *
       durationFactor *
@@ -108,52 +237,63 @@ export class FatigueCalculator {
     return Math.min(fatigueIncrease, 50); // Cap at 50% per set
   }
 
+  // Fatigue a set adds to each muscle it works, scaled by that muscle's
+  // share of the load
+  getMuscleFatigueIncreases(
+    factors: FatigueFactors
+  ): { muscle: Muscle; increase: number; weight: number }[] {
+    return getFactorMuscles(factors).map(({ muscle, weight }) => ({
+      muscle,
+      weight,
+      increase: this.calculateFatigueIncrease(factors, muscle) * weight,
+    }));
+  }
+
   // Update fatigue levels after completing a set
   updateFatigue(factors: FatigueFactors): void {
-    const muscleGroup = factors.muscleGroup;
-    const currentTime = Date.now();
-
-    // Get or create fatigue tracking for this muscle group
-    let fatigue = this.muscleFatigue.get(muscleGroup);
-    if (!fatigue) {
-      fatigue = {
-        muscleGroup,
-        fatigueLevel: 0,
-        lastExerciseTime: currentTime,
-        totalVolume: 0,
-        exerciseCount: 0,
-        recoveryRate: MUSCLE_RECOVERY_RATES[muscleGroup] || 2.0,
-      };
-    }
-
-    // Calculate recovery since last exercise
-    const timeSinceLastExercise =
-      (currentTime - fatigue.lastExerciseTime) / 1000 / 60; // in minutes
-    const recovery = timeSinceLastExercise * fatigue.recoveryRate;
-    fatigue.fatigueLevel = Math.max(0, fatigue.fatigueLevel - recovery);
+    const currentTime = this.now();
+
+    this.getMuscleFatigueIncreases(factors).forEach(
+      ({ muscle, increase, weight }) => {
+        // Get or create fatigue tracking for this muscle
+        let fatigue = this.muscleFatigue.get(muscle);
+        if (!fatigue) {
+          fatigue = {
+            muscle,
+            fatigueLevel: 0,
+            lastExerciseTime: currentTime,
+            totalVolume: 0,
+            exerciseCount: 0,
+            recoveryRate: MUSCLE_RECOVERY_RATES[muscle],
+          };
+        }
 
-    // Calculate new fatigue increase
-    const fatigueIncrease = this.calculateFatigueIncrease(factors);
+        // Calculate recovery since last exercise
+        const timeSinceLastExercise =
+          (currentTime - fatigue.lastExerciseTime) / 1000 / 60; // in minutes
+        const recovery = timeSinceLastExercise * fatigue.recoveryRate;
+        fatigue.fatigueLevel = Math.max(0, fatigue.fatigueLevel - recovery);
+
+        fatigue.fatigueLevel = Math.min(100, fatigue.fatigueLevel + increase);
+        fatigue.lastExerciseTime = currentTime;
+        // Warm-up sets add a little fatigue but don't count as training
+        // volume
+        if (factors.setType !== 'warmup') {
+          fatigue.totalVolume += factors.exerciseVolume * weight;
+        }
+        fatigue.exerciseCount += 1;
 
-    // Update fatigue level
-    fatigue.fatigueLevel = Math.min(
-      100,
-      fatigue.fatigueLevel + fatigueIncrease
+        this.muscleFatigue.set(muscle, fatigue);
+      }
     );
-    fatigue.lastExerciseTime = currentTime;
-    fatigue.totalVolume += factors.exerciseVolume;
-    fatigue.exerciseCount += 1;
-
-    this.muscleFatigue.set(muscleGroup, fatigue);
   }
 
-  // Get current fatigue level for a muscle group
-  getFatigueLevel(muscleGroup: string): number {
-    const fatigue = this.muscleFatigue.get(muscleGroup);
+  private getMuscleFatigueLevel(muscle: Muscle): number {
+    const fatigue = this.muscleFatigue.get(muscle);
     if (!fatigue) return 0;
 
     // Calculate current fatigue with recovery
-    const currentTime = Date.now();
+    const currentTime = this.now();
     const timeSinceLastExercise =
       (currentTime - fatigue.lastExerciseTime) / 1000 / 60;
     const recovery = timeSinceLastExercise * fatigue.recoveryRate;
@@ -161,24 +301,29 @@ export class FatigueCalculator {
     return Math.max(0, fatigue.fatigueLevel - recovery);
   }
 
-  // Get fatigue status for all muscle groups
+  // Get current fatigue for a muscle by any of its names; broad groups
+  // such as "Legs" report their most fatigued muscle
+  getFatigueLevel(muscleName: string): number {
+    return Math.max(
+      0,
+      ...resolveMuscles(muscleName).map(({ muscle }) =>
+        this.getMuscleFatigueLevel(muscle)
+      )
+    );
+  }
+
+  // Get fatigue status for all muscles
   getAllFatigueLevels(): MuscleFatigue[] {
-    const currentTime = Date.now();
-    return Array.from(this.muscleFatigue.values()).map((fatigue) => {
-      const timeSinceLastExercise =
-        (currentTime - fatigue.lastExerciseTime) / 1000 / 60;
-      const recovery = timeSinceLastExercise * fatigue.recoveryRate;
-      const currentFatigue = Math.max(0, fatigue.fatigueLevel - recovery);
-
-      return {
-        ...fatigue,
-        fatigueLevel: currentFatigue,
-      };
-    });
+    return Array.from(this.muscleFatigue.values()).map((fatigue) => ({
+      ...fatigue,
+      fatigueLevel: this.getMuscleFatigueLevel(fatigue.muscle),
+    }));
   }
 
-  // Get fatigue status for muscle groups involved in an exercise
+  // Get fatigue status for the muscles an exercise works: the most
+  // fatigued prime mover, and the assisting muscles weighted by their share
   getExerciseFatigue(exercise: {
+    id?: string;
     muscleGroup: string;
     targetMuscles?: string[];
   }): {
@@ -186,23 +331,31 @@ export class FatigueCalculator {
     secondaryFatigue: number;
     overallFatigue: number;
   } {
-    const primaryFatigue = this.getFatigueLevel(exercise.muscleGroup);
-
-    let secondaryFatigue = 0;
-    let secondaryCount = 0;
+    const muscles = getExerciseMuscles(exercise);
+    const primary = muscles.filter((load) => load.weight >= 1);
+    const secondary = muscles.filter((load) => load.weight < 1);
 
-    if (exercise.targetMuscles) {
-      exercise.targetMuscles.forEach((muscle) => {
-        if (muscle !== exercise.muscleGroup) {
-          secondaryFatigue += this.getFatigueLevel(muscle);
-          secondaryCount++;
-        }
-      });
-    }
+    const primaryFatigue = Math.max(
+      0,
+      ...primary.map(({ muscle }) => this.getMuscleFatigueLevel(muscle))
+    );
 
+    const secondaryWeight = secondary.reduce(
+      (total, load) => total + load.weight,
+      0
+    );
     const avgSecondaryFatigue =
-      secondaryCount > 0 ? secondaryFatigue / secondaryCount : 0;
-    const overallFatigue = primaryFatigue * 0.7 + avgSecondaryFatigue * 0.3;
+      secondaryWeight > 0
+        ? secondary.reduce(
+            (total, { muscle, weight }) =>
+              total + this.getMuscleFatigueLevel(muscle) * weight,
+            0
+          ) / secondaryWeight
+        : 0;
+    const overallFatigue =
+      secondary.length > 0
+        ? primaryFatigue * 0.7 + avgSecondaryFatigue * 0.3
+        : primaryFatigue;
 
     return {
       primaryFatigue,
@@ -224,7 +377,8 @@ export class FatigueCalculator {
     );
 
     const restNeeded = highFatigue.map(
-      (f) => `${f.muscleGroup} (${Math.round(f.fatigueLevel)}% fatigue)`
+      (f) =>
+        `${MUSCLE_LABELS[f.muscle]} (${Math.round(f.fatigueLevel)}% fatigue)`
     );
 
     let intensityAdjustment = 'maintain';
@@ -253,19 +407,49 @@ export class FatigueCalculator {
     const sortedByFatigue = lowFatigueMuscles.sort(
       (a, b) => a.fatigueLevel - b.fatigueLevel
     );
-    return `Consider targeting ${sortedByFatigue[0].muscleGroup} (${Math.round(
-      sortedByFatigue[0].fatigueLevel
-    )}% fatigue)`;
+    return `Consider targeting ${
+      MUSCLE_LABELS[sortedByFatigue[0].muscle]
+    } (${Math.round(sortedByFatigue[0].fatigueLevel)}% fatigue)`;
+  }
+
+  // Capture state for persistence; recovery is applied lazily from
+  // lastExerciseTime, so restoring later accounts for the time away
+  toSnapshot(): FatigueSnapshot {
+    return {
+      muscleFatigue: Array.from(this.muscleFatigue.values()),
+      workoutStartTime: this.workoutStartTime,
+    };
+  }
+
+  static fromSnapshot(snapshot: FatigueSnapshot): FatigueCalculator {
+    const calculator = new FatigueCalculator();
+    snapshot.muscleFatigue.forEach((fatigue) => {
+      // Snapshots saved before muscles were canonical are keyed by names
+      // such as "Legs"
+      const legacyName = (fatigue as { muscleGroup?: string }).muscleGroup;
+      const muscles = legacyName
+        ? resolveMuscles(legacyName).map((load) => load.muscle)
+        : [fatigue.muscle];
+      muscles.forEach((muscle) => {
+        calculator.muscleFatigue.set(muscle, {
+          ...fatigue,
+          muscle,
+          recoveryRate: MUSCLE_RECOVERY_RATES[muscle],
+        });
+      });
+    });
+    calculator.workoutStartTime = snapshot.workoutStartTime;
+    return calculator;
   }
 
   // Reset fatigue for a new workout
   resetFatigue(): void {
     this.muscleFatigue.clear();
-    this.workoutStartTime = Date.now();
+    this.workoutStartTime = this.now();
   }
 
   // Get workout duration in minutes
   getWorkoutDuration(): number {
-    return (Date.now() - this.workoutStartTime) / 1000 / 60;
+    return (this.now() - this.workoutStartTime) / 1000 / 60;
   }
 }
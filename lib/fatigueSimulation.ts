@@ -0,0 +1,148 @@
+import { WorkoutSet } from '@/types/workout';
+import { FatigueCalculator, getSetFatigueFactors } from '@/lib/fatigue';
+import { GeneratedExercise } from '@/lib/gemini';
+import { Muscle } from '@/lib/muscles';
+import { getPrescribedRest } from '@/lib/rest';
+import { getNextIndexAfterRest, getNextIndexInRound } from '@/lib/supersets';
+import { PLANNED_SET_SECONDS } from '@/lib/templates';
+
+// Projected fatigue at or above this is worth a warning before starting
+export const FATIGUE_WARNING_THRESHOLD = 80;
+
+// Planned sets are assumed to stop a couple of reps short of failure
+const PLANNED_RPE = 8;
+
+// An exercise as a workout plans it; custom workout exercises fit as they are
+export interface PlannedExercise {
+  exercise: {
+    id?: string;
+    name: string;
+    muscleGroup: string;
+    targetMuscles?: string[];
+    difficulty?: string;
+  };
+  sets: number;
+  reps?: number;
+  weight?: number; // kg
+  restTime?: number; // seconds between sets
+  restAfterExercise?: number; // seconds before the next exercise
+  groupId?: string; // exercises sharing a groupId are performed as a superset
+}
+
+// Generated exercises carry their own prescription
+export const planGeneratedExercises = (
+  exercises: GeneratedExercise[]
+): PlannedExercise[] =>
+  exercises.map((exercise) => ({
+    exercise,
+    sets: exercise.sets,
+    reps: exercise.reps,
+    weight: exercise.weight,
+    restTime: exercise.restTime,
+    restAfterExercise: exercise.restAfterExercise,
+    groupId: exercise.groupId,
+  }));
+
+// Fatigue of every muscle worked so far, just after a set
+export interface FatigueProjection {
+  minute: number; // since the start of the workout
+  exerciseIndex: number;
+  fatigue: Partial<Record<Muscle, number>>;
+}
+
+export interface FatigueWarning {
+  muscle: Muscle;
+  fatigue: number; // the highest it gets
+  minute: number; // when it first reaches the threshold
+  exerciseName: string; // the exercise that takes it there
+}
+
+export interface FatigueSimulation {
+  projections: FatigueProjection[];
+  peaks: Partial<Record<Muscle, number>>;
+  warnings: FatigueWarning[];
+  durationMinutes: number;
+}
+
+// Run a planned workout through the fatigue model on a simulated clock, set
+// by set in the order the active workout screen would serve them, resting as
+// prescribed in between
+export const simulateWorkout = (
+  plan: PlannedExercise[],
+  defaultRest: number,
+  threshold: number = FATIGUE_WARNING_THRESHOLD
+): FatigueSimulation => {
+  let time = 0;
+  const calculator = new FatigueCalculator(() => time);
+  const setsDone = plan.map(() => 0);
+  const isComplete = (index: number) => setsDone[index] >= plan[index].sets;
+
+  const projections: FatigueProjection[] = [];
+  const peaks: Partial<Record<Muscle, number>> = {};
+  const warnings = new Map<Muscle, FatigueWarning>();
+
+  let index = plan.findIndex((_, i) => !isComplete(i));
+  let restTime: number | undefined; // before the first set, fully rested
+  while (index !== -1) {
+    const planned = plan[index];
+    const set: WorkoutSet = {
+      id: `${index}-${setsDone[index]}`,
+      exerciseId: planned.exercise.id || String(index),
+      weight: planned.weight,
+      reps: planned.reps,
+      completed: true,
+      restTime,
+      startedAt: time,
+      finishedAt: time + PLANNED_SET_SECONDS * 1000,
+    };
+    time += PLANNED_SET_SECONDS * 1000;
+    calculator.updateFatigue(
+      getSetFatigueFactors(set, planned.exercise, PLANNED_RPE)
+    );
+    setsDone[index] += 1;
+
+    const minute = time / 60000;
+    const fatigue: Partial<Record<Muscle, number>> = {};
+    calculator.getAllFatigueLevels().forEach(({ muscle, fatigueLevel }) => {
+      fatigue[muscle] = fatigueLevel;
+      peaks[muscle] = Math.max(peaks[muscle] || 0, fatigueLevel);
+
+      const warning = warnings.get(muscle);
+      if (warning) {
+        warning.fatigue = Math.max(warning.fatigue, fatigueLevel);
+      } else if (fatigueLevel >= threshold) {
+        warnings.set(muscle, {
+          muscle,
+          fatigue: fatigueLevel,
+          minute,
+          exerciseName: planned.exercise.name,
+        });
+      }
+    });
+    projections.push({ minute, exerciseIndex: index, fatigue });
+
+    // Superset partners follow straight on; rest comes after the round
+    const nextInRound = getNextIndexInRound(plan, index, isComplete);
+    if (nextInRound !== null) {
+      index = nextInRound;
+      restTime = 0;
+      continue;
+    }
+
+    restTime = getPrescribedRest(planned, isComplete(index), defaultRest);
+    time += restTime * 1000;
+    index = getNextIndexAfterRest(plan, index, isComplete);
+  }
+
+  return {
+    projections,
+    peaks,
+    warnings: Array.from(warnings.values()).sort(
+      (a, b) => b.fatigue - a.fatigue
+    ),
+    // Up to the last set; the rest counted after it is never taken
+    durationMinutes: Math.round(
+      projections[projections.length - 1]?.minute ?? 0
+    ),
+  };
+};
@@ -1,4 +1,5 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
+import { WeightUnit, fromKg, toKg } from '@/lib/units';
 
 // Get API key from environment variables
 const API_KEY = process.env.EXPO_PUBLIC_GEMINI_API_KEY;
@@ -33,18 +34,26 @@ interface UserContext {
   limitationsOther?: string;
   motivationStyle: string[];
   workoutStyle: string[];
+  weightUnit?: WeightUnit; // unit the model suggests weights in
+  muscleReadiness?: Record<string, number>; // 0-100 per target muscle
 }
 
-interface GeneratedExercise {
+// Below this readiness a muscle is still recovering and gets less volume
+const LOW_READINESS = 60;
+
+export interface GeneratedExercise {
   id: string;
   name: string;
   sets: number;
   reps: number;
-  weight?: number;
+  weight?: number; // kg
+  restTime?: number; // seconds between sets
+  restAfterExercise?: number; // seconds before the next exercise
   equipment: string;
   muscleGroup: string;
   instructions: string;
   difficulty: string;
+  groupId?: string; // exercises sharing a groupId are performed as a superset
 }
 
 export interface GeneratedWorkout {
@@ -105,6 +114,9 @@ export class GeminiWorkoutGenerator {
       userContext.workoutStyle.length > 0
         ? userContext.workoutStyle.join(', ')
         : 'Not specified';
+    const readinessText = Object.entries(userContext.muscleReadiness || {})
+      .map(([muscle, readiness]) => `${muscle} ${Math.round(readiness)}%`)
+      .join(', ');
 
     return `
 Create a highly personalized workout plan based on the comprehensive user profile:
@@ -116,6 +128,9 @@ Create a highly personalized workout plan based on the comprehensive user profil
 - Target Muscle Groups for Today: ${muscleText}
 - Workout Frequency: ${userContext.workoutFrequency} times per week
 - Time Availability: ${userContext.timeAvailability}
+- Muscle Readiness (100% = fully recovered from recent training): ${
+      readinessText || 'All fully recovered'
+    }
 - Physical Limitations: ${limitationsText}
 ${
   userContext.limitationsOther
@@ -178,10 +193,15 @@ ${
    - Beginner: Higher reps (8-15), lower weight, focus on form and safety
    - Intermediate: Moderate reps (6-12), moderate weight, balanced challenge
    - Advanced: Lower reps (3-8), higher weight, more complex movements
-5. Include sets, reps, and suggested weight (set weight to 0 for bodyweight exercises)
+5. Include sets, reps, and suggested weight in ${
+      userContext.weightUnit === 'kg' ? 'kilograms' : 'pounds'
+    } (set weight to 0 for bodyweight exercises)
 6. Provide detailed form instructions and safety cues for each exercise
 7. Consider user's workout frequency for appropriate volume
 8. Align with user's motivational style and workout preferences
+9. To pair exercises as a superset or circuit, give them the same "supersetGroup" letter ("A", "B", ...) and list them consecutively; leave it null for straight sets
+10. Prescribe rest in seconds: "restSeconds" between sets of the exercise and "restAfterSeconds" before the next exercise (longer for heavy compound lifts, shorter for isolation and conditioning work)
+11. Scale each muscle's work to its readiness: below ${LOW_READINESS}% use fewer sets and moderate loads, and keep the hardest work for the best recovered muscles
 
 **Response Format (JSON):**
 {
@@ -195,10 +215,13 @@ ${
       "sets": 3,
       "reps": 10,
       "weight": 0,
+      "restSeconds": 90,
+      "restAfterSeconds": 120,
       "equipment": "equipment type from user's available equipment",
       "muscleGroup": "primary muscle",
       "instructions": "Detailed form cues with safety considerations for user's limitations",
-      "difficulty": "beginner/intermediate/advanced"
+      "difficulty": "beginner/intermediate/advanced",
+      "supersetGroup": null
     }
   ]
 }
@@ -230,11 +253,14 @@ Generate a safe, effective, and highly personalized workout that respects the us
           name: ex.name,
           sets: ex.sets || 3,
           reps: ex.reps || 10,
-          weight: ex.weight || 0,
+          weight: toKg(ex.weight || 0, userContext.weightUnit || 'lb'),
+          restTime: ex.restSeconds || undefined,
+          restAfterExercise: ex.restAfterSeconds || undefined,
           equipment: ex.equipment || 'none',
           muscleGroup: ex.muscleGroup || userContext.targetMuscles[0],
           instructions: ex.instructions || 'Perform with proper form',
           difficulty: ex.difficulty || userContext.experienceLevel,
+          groupId: ex.supersetGroup ? `group-${ex.supersetGroup}` : undefined,
         })),
         estimatedDuration: workoutData.estimatedDuration || 45,
         difficulty: workoutData.difficulty || userContext.experienceLevel,
@@ -251,7 +277,7 @@ Generate a safe, effective, and highly personalized workout that respects the us
   private generateMockWorkout(userContext: UserContext): GeneratedWorkout {
     const exercises: GeneratedExercise[] = [];
 
-    // Exercise database for fallback
+    // Exercise database for fallback; weights are in pounds
     const exerciseDatabase: { [key: string]: any[] } = {
       chest: [
         {
@@ -390,12 +416,18 @@ Generate a safe, effective, and highly personalized workout that respects the us
             '. Modified for safety - use controlled movements and stop if you feel discomfort.';
         }
 
+        // Muscles still recovering get a set less
+        const readiness = userContext.muscleReadiness?.[muscle] ?? 100;
+
         exercises.push({
           id: `mock-${muscle}`,
           name: exercise.name,
-          sets: exercise.sets,
+          sets:
+            readiness < LOW_READINESS
+              ? Math.max(2, exercise.sets - 1)
+              : exercise.sets,
           reps: exercise.reps,
-          weight: exercise.weight || 0,
+          weight: toKg(exercise.weight || 0, 'lb'),
           equipment: exercise.equipment,
           muscleGroup: muscle,
           instructions: modifiedInstructions,
@@ -428,6 +460,14 @@ Generate a safe, effective, and highly personalized workout that respects the us
     if (userContext.timeAvailability === 'limited') {
       personalizedNotes += ' - Optimized for limited time availability';
     }
+    const recovering = userContext.targetMuscles.filter(
+      (muscle) => (userContext.muscleReadiness?.[muscle] ?? 100) < LOW_READINESS
+    );
+    if (recovering.length > 0) {
+      personalizedNotes += ` - Lighter volume for ${recovering.join(
+        ', '
+      )} while they recover`;
+    }
     if (userContext.motivationStyle.includes('variety')) {
       personalizedNotes += ' - Includes varied exercises to keep you engaged';
     }
@@ -458,8 +498,21 @@ interface ChatContext {
   currentWorkout?: GeneratedWorkout;
   onboardingData?: any;
   workoutHistory?: any[];
+  weightUnit?: WeightUnit;
 }
 
+// The model reads and writes weights in the user's unit; the app keeps kg
+const convertWorkoutWeights = (
+  workout: GeneratedWorkout,
+  convert: (weight: number) => number
+): GeneratedWorkout => ({
+  ...workout,
+  exercises: workout.exercises.map((ex) => ({
+    ...ex,
+    weight: ex.weight ? convert(ex.weight) : ex.weight,
+  })),
+});
+
 export class BoltChatbot {
   constructor() {}
 
@@ -536,6 +589,11 @@ USER CONTEXT:`;
 - Total XP: ${userProfile.total_xp || 0}`;
     }
 
+    prompt += `
+- Preferred Weight Unit: ${
+      context.weightUnit || 'lb'
+    } (always quote weights in ${context.weightUnit || 'lb'})`;
+
     if (onboardingData) {
       prompt += `
 - Fitness Goals: ${
@@ -597,13 +655,18 @@ Respond as Bolt with energy and expertise! ⚡`;
         return null;
       }
 
+      const weightUnit = context.weightUnit || 'lb';
       const prompt = `
 You are Bolt, an AI fitness coach. The user wants to modify their current workout. 
 
 IMPORTANT: You MUST respond with ONLY a valid JSON object that represents the modified workout. Do not include any explanatory text before or after the JSON.
 
-Current Workout:
-${JSON.stringify(currentWorkout, null, 2)}
+Current Workout (all weights in ${weightUnit}):
+${JSON.stringify(
+  convertWorkoutWeights(currentWorkout, (weight) => fromKg(weight, weightUnit)),
+  null,
+  2
+)}
 
 User Request: "${userRequest}"
 
@@ -628,6 +691,7 @@ Modification Guidelines:
 4. If making exercises "easier" - reduce weight/reps or replace with bodyweight alternatives
 5. If making exercises "harder" - increase weight/reps or add more challenging variations
 6. Always ensure the workout remains balanced and safe
+7. Give every weight in ${weightUnit}
 
 Return ONLY this exact JSON structure (no other text):
 {
@@ -643,7 +707,8 @@ Return ONLY this exact JSON structure (no other text):
       "equipment": "Equipment Type",
       "muscleGroup": "Muscle Group",
       "instructions": "Brief instruction",
-      "difficulty": "beginner/intermediate/advanced"
+      "difficulty": "beginner/intermediate/advanced",
+      "groupId": "keep existing groupId values for supersets, or omit"
     }
   ],
   "estimatedDuration": 45,
@@ -695,7 +760,9 @@ Return ONLY this exact JSON structure (no other text):
           modifiedWorkout.difficulty || currentWorkout.difficulty;
 
         console.log('Successfully parsed modified workout:', modifiedWorkout);
-        return modifiedWorkout;
+        return convertWorkoutWeights(modifiedWorkout, (weight) =>
+          toKg(weight, weightUnit)
+        );
       } catch (parseError) {
         console.error('Error parsing workout modification JSON:', parseError);
         console.log('Raw response was:', responseText);
@@ -0,0 +1,126 @@
+import { LoggedSetInput } from '@/types/workout';
+
+export type IntervalMode = 'emom' | 'amrap' | 'tabata' | 'custom';
+
+export interface IntervalConfig {
+  mode: IntervalMode;
+  workSeconds: number; // EMOM: the minute; AMRAP: the whole time cap
+  restSeconds: number;
+  rounds: number; // AMRAP counts rounds as they're done, so this is ignored
+}
+
+export type IntervalPhaseType = 'prepare' | 'work' | 'rest';
+
+export interface IntervalPhase {
+  type: IntervalPhaseType;
+  round: number; // 1-based; 0 for the prepare countdown
+  duration: number; // in seconds
+}
+
+export const INTERVAL_MODES: IntervalMode[] = [
+  'tabata',
+  'emom',
+  'amrap',
+  'custom',
+];
+
+export const INTERVAL_MODE_LABELS: Record<IntervalMode, string> = {
+  emom: 'EMOM',
+  amrap: 'AMRAP',
+  tabata: 'Tabata',
+  custom: 'Custom',
+};
+
+export const INTERVAL_MODE_DESCRIPTIONS: Record<IntervalMode, string> = {
+  emom: 'Start your reps at the top of every minute and rest for what is left',
+  amrap: 'As many rounds as possible before the clock runs out',
+  tabata: '20 seconds all-out, 10 seconds rest, 8 rounds',
+  custom: 'Choose your own work, rest and rounds',
+};
+
+export const DEFAULT_INTERVAL_CONFIGS: Record<IntervalMode, IntervalConfig> = {
+  emom: { mode: 'emom', workSeconds: 60, restSeconds: 0, rounds: 10 },
+  amrap: { mode: 'amrap', workSeconds: 10 * 60, restSeconds: 0, rounds: 1 },
+  tabata: { mode: 'tabata', workSeconds: 20, restSeconds: 10, rounds: 8 },
+  custom: { mode: 'custom', workSeconds: 40, restSeconds: 20, rounds: 6 },
+};
+
+// How hard a round is when nothing else is known, as RPE for the fatigue
+// model; Tabata work is meant to be all-out
+export const INTERVAL_RPE: Record<IntervalMode, number> = {
+  emom: 8,
+  amrap: 8.5,
+  tabata: 9.5,
+  custom: 8.5,
+};
+
+// Seconds counted down before the first work phase
+export const PREPARE_SECONDS = 10;
+
+// Cue the last few seconds of every phase
+export const COUNTDOWN_CUE_SECONDS = 3;
+
+// Every phase of the session in order. AMRAP is one long work phase; EMOM
+// rounds are a full minute each with the rest built in
+export const buildIntervalPhases = (
+  config: IntervalConfig
+): IntervalPhase[] => {
+  const phases: IntervalPhase[] = [
+    { type: 'prepare', round: 0, duration: PREPARE_SECONDS },
+  ];
+  const rounds = config.mode === 'amrap' ? 1 : Math.max(1, config.rounds);
+
+  for (let round = 1; round <= rounds; round++) {
+    phases.push({ type: 'work', round, duration: config.workSeconds });
+    // No rest after the last round: the session is over
+    if (config.restSeconds > 0 && round < rounds) {
+      phases.push({ type: 'rest', round, duration: config.restSeconds });
+    }
+  }
+  return phases;
+};
+
+export const getIntervalTotalSeconds = (phases: IntervalPhase[]): number =>
+  phases.reduce((total, phase) => total + phase.duration, 0);
+
+export interface IntervalPosition {
+  index: number; // phases.length once the session is over
+  phase?: IntervalPhase;
+  remaining: number; // seconds left in the phase
+  finished: boolean;
+}
+
+// Which phase a session is in after `elapsedSeconds`. The clock is derived
+// from elapsed time rather than ticked down, so a late or skipped tick
+// never drifts the schedule
+export const getIntervalPosition = (
+  phases: IntervalPhase[],
+  elapsedSeconds: number
+): IntervalPosition => {
+  let phaseStart = 0;
+  for (let index = 0; index < phases.length; index++) {
+    const phaseEnd = phaseStart + phases[index].duration;
+    if (elapsedSeconds < phaseEnd) {
+      return {
+        index,
+        phase: phases[index],
+        remaining: Math.ceil(phaseEnd - elapsedSeconds),
+        finished: false,
+      };
+    }
+    phaseStart = phaseEnd;
+  }
+  return { index: phases.length, remaining: 0, finished: true };
+};
+
+// A finished round, logged like any other timed set
+export const buildRoundSet = (
+  config: IntervalConfig,
+  durationSeconds: number,
+  reps?: number
+): LoggedSetInput => ({
+  duration: Math.round(durationSeconds),
+  reps,
+  setType: 'working',
+  restTime: config.restSeconds || undefined,
+});
@@ -0,0 +1,171 @@
+import { exerciseLibrary } from '@/data/exercises';
+
+// The muscles fatigue and recovery are tracked for. Exercise data, the AI
+// generator and the muscle picker all name muscles their own way; every name
+// is resolved to these through MUSCLE_ALIASES
+export type Muscle =
+  | 'chest'
+  | 'shoulders'
+  | 'biceps'
+  | 'triceps'
+  | 'forearms'
+  | 'traps'
+  | 'lats'
+  | 'middle-back'
+  | 'lower-back'
+  | 'abs'
+  | 'quads'
+  | 'hamstrings'
+  | 'glutes'
+  | 'calves'
+  | 'adductors'
+  | 'abductors'
+  | 'neck';
+
+export const MUSCLES: Muscle[] = [
+  'chest',
+  'shoulders',
+  'biceps',
+  'triceps',
+  'forearms',
+  'traps',
+  'lats',
+  'middle-back',
+  'lower-back',
+  'abs',
+  'quads',
+  'hamstrings',
+  'glutes',
+  'calves',
+  'adductors',
+  'abductors',
+  'neck',
+];
+
+export const MUSCLE_LABELS: Record<Muscle, string> = {
+  chest: 'Chest',
+  shoulders: 'Shoulders',
+  biceps: 'Biceps',
+  triceps: 'Triceps',
+  forearms: 'Forearms',
+  traps: 'Traps',
+  lats: 'Lats',
+  'middle-back': 'Middle Back',
+  'lower-back': 'Lower Back',
+  abs: 'Abs',
+  quads: 'Quads',
+  hamstrings: 'Hamstrings',
+  glutes: 'Glutes',
+  calves: 'Calves',
+  adductors: 'Adductors',
+  abductors: 'Abductors',
+  neck: 'Neck',
+};
+
+// How much of a set's load a muscle takes: 1 for a prime mover, less for
+// muscles that assist or stabilize
+export interface MuscleLoad {
+  muscle: Muscle;
+  weight: number;
+}
+
+export const SECONDARY_MUSCLE_WEIGHT = 0.5;
+
+const only = (muscle: Muscle): MuscleLoad[] => [{ muscle, weight: 1 }];
+
+// Lowercased names in use for each muscle. Broad groups such as "Legs" spread
+// over the muscles they usually mean
+const MUSCLE_ALIASES: Record<string, MuscleLoad[]> = {
+  pectorals: only('chest'),
+  pecs: only('chest'),
+  deltoids: only('shoulders'),
+  delts: only('shoulders'),
+  trapezius: only('traps'),
+  latissimus: only('lats'),
+  'upper back': only('middle-back'),
+  rhomboids: only('middle-back'),
+  'erector spinae': only('lower-back'),
+  abdominals: only('abs'),
+  obliques: only('abs'),
+  quadriceps: only('quads'),
+  // Broad groups, as the library's muscleGroup and the AI generator use them
+  back: [
+    { muscle: 'lats', weight: 1 },
+    { muscle: 'middle-back', weight: 1 },
+  ],
+  core: [
+    { muscle: 'abs', weight: 1 },
+    { muscle: 'lower-back', weight: 0.5 },
+  ],
+  legs: [
+    { muscle: 'quads', weight: 1 },
+    { muscle: 'hamstrings', weight: 0.75 },
+    { muscle: 'glutes', weight: 0.75 },
+  ],
+  arms: [
+    { muscle: 'biceps', weight: 0.75 },
+    { muscle: 'triceps', weight: 0.75 },
+  ],
+};
+
+// Every muscle also answers to its id and label
+MUSCLES.forEach((muscle) => {
+  MUSCLE_ALIASES[muscle] = only(muscle);
+  MUSCLE_ALIASES[MUSCLE_LABELS[muscle].toLowerCase()] = only(muscle);
+});
+
+// The muscles a name stands for; unknown names resolve to none
+export const resolveMuscles = (name: string): MuscleLoad[] =>
+  MUSCLE_ALIASES[name.trim().toLowerCase()] || [];
+
+// Where a muscle appears more than once it keeps its biggest share
+const mergeLoads = (loads: MuscleLoad[]): MuscleLoad[] => {
+  const merged = new Map<Muscle, number>();
+  loads.forEach(({ muscle, weight }) => {
+    merged.set(muscle, Math.max(weight, merged.get(muscle) || 0));
+  });
+  return Array.from(merged, ([muscle, weight]) => ({ muscle, weight }));
+};
+
+const buildMuscleLoads = (
+  primary: string[],
+  secondary: string[]
+): MuscleLoad[] =>
+  mergeLoads([
+    ...primary.flatMap(resolveMuscles),
+    ...secondary.flatMap((name) =>
+      resolveMuscles(name).map((load) => ({
+        ...load,
+        weight: load.weight * SECONDARY_MUSCLE_WEIGHT,
+      }))
+    ),
+  ]);
+
+// Library entries list the prime mover first in targetMuscles, then the
+// assisting muscles
+const LIBRARY_MUSCLES = new Map<string, MuscleLoad[]>(
+  exerciseLibrary.map((exercise) => {
+    const [primary, ...secondary] = exercise.targetMuscles;
+    return [
+      exercise.id,
+      buildMuscleLoads(primary ? [primary] : [exercise.muscleGroup], secondary),
+    ];
+  })
+);
+
+// Weighted muscles an exercise works. Exercises outside the library, such as
+// generated or placeholder ones, go by their muscle group
+export const getExerciseMuscles = (exercise: {
+  id?: string;
+  muscleGroup: string;
+  targetMuscles?: string[];
+}): MuscleLoad[] => {
+  const library = exercise.id && LIBRARY_MUSCLES.get(exercise.id);
+  if (library && library.length > 0) return library;
+
+  const [firstTarget, ...secondary] = exercise.targetMuscles || [];
+  return buildMuscleLoads(
+    firstTarget ? [exercise.muscleGroup, firstTarget] : [exercise.muscleGroup],
+    secondary
+  );
+};
@@ -0,0 +1,187 @@
+import { PersonalRecord, PersonalRecordType } from '@/lib/supabase';
+import { WorkoutSet } from '@/types/workout';
+import { getBestWorkingSet, getWorkingSets } from '@/lib/sets';
+import { WeightUnit, formatWeight } from '@/lib/units';
+
+export const PERSONAL_RECORD_LABELS: Record<PersonalRecordType, string> = {
+  weight: 'Heaviest Weight',
+  e1rm: 'Estimated 1RM',
+  reps: 'Most Reps',
+  set_volume: 'Best Set Volume',
+  session_volume: 'Best Session Volume',
+};
+
+// Short labels for the badges in the workout summary
+export const PERSONAL_RECORD_BADGES: Record<PersonalRecordType, string> = {
+  weight: 'Weight PR',
+  e1rm: '1RM PR',
+  reps: 'Rep PR',
+  set_volume: 'Set Volume PR',
+  session_volume: 'Volume PR',
+};
+
+// Past this many reps a set says more about endurance than strength, so it
+// doesn't feed the 1RM estimate
+const MAX_E1RM_REPS = 12;
+
+export const epleyOneRepMax = (weight: number, reps: number): number =>
+  weight * (1 + reps / 30);
+
+export const brzyckiOneRepMax = (weight: number, reps: number): number =>
+  (weight * 36) / (37 - reps);
+
+// Brzycki is closer to tested maxes at low reps and Epley at higher ones; the
+// two formulas agree at 10 reps, so switching there doesn't jump
+export const estimateOneRepMax = (weight: number, reps: number): number => {
+  if (weight <= 0 || reps <= 0) return 0;
+  if (reps === 1) return weight;
+  const estimate =
+    reps <= 10 ? brzyckiOneRepMax(weight, reps) : epleyOneRepMax(weight, reps);
+  return Math.round(estimate * 10) / 10;
+};
+
+// A record this workout set or matched; `previous` is the best it replaces
+export interface NewPersonalRecord {
+  exercise_id: string;
+  exercise_name: string;
+  record_type: PersonalRecordType;
+  value: number;
+  weight?: number; // kg
+  reps?: number;
+  previous?: number;
+}
+
+// Best stored value for a record kind. Rep records are kept per weight.
+// Exercises are matched by name because generated workouts number their ids
+export const getPreviousBest = (
+  records: PersonalRecord[],
+  exerciseName: string,
+  recordType: PersonalRecordType,
+  weight?: number
+): number | undefined =>
+  records
+    .filter(
+      (pr) =>
+        pr.exercise_name === exerciseName &&
+        pr.record_type === recordType &&
+        (recordType !== 'reps' || (pr.weight || 0) === (weight || 0))
+    )
+    .reduce<number | undefined>(
+      (best, pr) => (best === undefined || pr.value > best ? pr.value : best),
+      undefined
+    );
+
+const roundVolume = (volume: number) => Math.round(volume * 10) / 10;
+
+// Every record an exercise's completed working sets set in this workout. The
+// first session of an exercise sets the baseline for each kind; those come
+// back without `previous`
+export const findPersonalRecords = (
+  sets: WorkoutSet[],
+  exercise: { id: string; name: string },
+  records: PersonalRecord[]
+): NewPersonalRecord[] => {
+  const working = getWorkingSets(sets).filter(
+    (set) => set.exerciseId === exercise.id && set.completed && set.reps
+  );
+  if (working.length === 0) return [];
+
+  const candidates: Omit<NewPersonalRecord, 'exercise_id' | 'exercise_name'>[] =
+    [];
+  const loaded = working.filter((set) => set.weight);
+
+  const heaviest = getBestWorkingSet(working, exercise.id);
+  if (heaviest?.weight) {
+    candidates.push({
+      record_type: 'weight',
+      value: heaviest.weight,
+      weight: heaviest.weight,
+      reps: heaviest.reps,
+    });
+  }
+
+  const strongest = loaded
+    .filter((set) => set.reps! <= MAX_E1RM_REPS)
+    .map((set) => ({
+      set,
+      value: estimateOneRepMax(set.weight!, set.reps!),
+    }))
+    .sort((a, b) => b.value - a.value)[0];
+  if (strongest) {
+    candidates.push({
+      record_type: 'e1rm',
+      value: strongest.value,
+      weight: strongest.set.weight,
+      reps: strongest.set.reps,
+    });
+  }
+
+  // Most reps at each weight used; bodyweight sets count as weight 0
+  const repsByWeight = new Map<number, number>();
+  working.forEach((set) => {
+    const weight = set.weight || 0;
+    repsByWeight.set(
+      weight,
+      Math.max(repsByWeight.get(weight) || 0, set.reps || 0)
+    );
+  });
+  repsByWeight.forEach((reps, weight) => {
+    candidates.push({
+      record_type: 'reps',
+      value: reps,
+      weight: weight || undefined,
+      reps,
+    });
+  });
+
+  const biggestSet = loaded
+    .map((set) => ({ set, value: roundVolume(set.weight! * set.reps!) }))
+    .sort((a, b) => b.value - a.value)[0];
+  if (biggestSet) {
+    candidates.push({
+      record_type: 'set_volume',
+      value: biggestSet.value,
+      weight: biggestSet.set.weight,
+      reps: biggestSet.set.reps,
+    });
+  }
+
+  if (loaded.length > 0) {
+    candidates.push({
+      record_type: 'session_volume',
+      value: roundVolume(
+        loaded.reduce((sum, set) => sum + set.weight! * set.reps!, 0)
+      ),
+    });
+  }
+
+  return candidates
+    .map((candidate) => ({
+      ...candidate,
+      exercise_id: exercise.id,
+      exercise_name: exercise.name,
+      previous: getPreviousBest(
+        records,
+        exercise.name,
+        candidate.record_type,
+        candidate.weight
+      ),
+    }))
+    .filter(
+      (record) =>
+        record.previous === undefined || record.value > record.previous
+    );
+};
+
+// "102.5 kg", "12 reps @ 60 kg" or "4200 kg" depending on the record kind
+export const formatRecordValue = (
+  record: Pick<NewPersonalRecord, 'record_type' | 'value' | 'weight'>,
+  unit: WeightUnit
+): string => {
+  if (record.record_type === 'reps') {
+    return record.weight
+      ? `${record.value} reps @ ${formatWeight(record.weight, unit)}`
+      : `${record.value} reps`;
+  }
+  return formatWeight(record.value, unit);
+};
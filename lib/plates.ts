@@ -0,0 +1,128 @@
+import { WeightUnit, fromKg, toKg } from '@/lib/units';
+
+// Plates are counted in pairs, one for each side of the bar. Weights are in
+// the unit the plates are marked in
+export interface PlateCount {
+  weight: number;
+  pairs: number;
+}
+
+// Standard bars in each unit
+export const BAR_WEIGHTS: Record<WeightUnit, number> = {
+  kg: 20,
+  lb: 45,
+};
+
+export const EZ_BAR_WEIGHTS: Record<WeightUnit, number> = {
+  kg: 10,
+  lb: 25,
+};
+
+// Plate sizes offered when editing the inventory
+export const PLATE_SIZES: Record<WeightUnit, number[]> = {
+  kg: [25, 20, 15, 10, 5, 2.5, 1.25, 0.5],
+  lb: [55, 45, 35, 25, 10, 5, 2.5, 1.25],
+};
+
+// A typical home or garage gym set
+export const DEFAULT_PLATE_INVENTORY: Record<WeightUnit, PlateCount[]> = {
+  kg: [
+    { weight: 25, pairs: 2 },
+    { weight: 20, pairs: 2 },
+    { weight: 15, pairs: 1 },
+    { weight: 10, pairs: 2 },
+    { weight: 5, pairs: 2 },
+    { weight: 2.5, pairs: 2 },
+    { weight: 1.25, pairs: 1 },
+  ],
+  lb: [
+    { weight: 45, pairs: 4 },
+    { weight: 35, pairs: 1 },
+    { weight: 25, pairs: 2 },
+    { weight: 10, pairs: 2 },
+    { weight: 5, pairs: 2 },
+    { weight: 2.5, pairs: 1 },
+  ],
+};
+
+export interface BarSettings {
+  barWeight?: number; // kg
+  ezBarWeight?: number; // kg
+}
+
+export const usesPlates = (equipment?: string): boolean =>
+  ['barbell', 'e-z curl bar'].includes((equipment || '').toLowerCase());
+
+// The user's bar for the equipment, or a standard one for their unit; in kg
+export const getBarWeight = (
+  equipment: string,
+  unit: WeightUnit,
+  settings: BarSettings
+): number =>
+  equipment.toLowerCase() === 'e-z curl bar'
+    ? settings.ezBarWeight ?? toKg(EZ_BAR_WEIGHTS[unit], unit)
+    : settings.barWeight ?? toKg(BAR_WEIGHTS[unit], unit);
+
+export interface PlateLoad {
+  barWeight: number; // kg
+  platesPerSide: number[]; // heaviest first, in the plates' unit
+  total: number; // kg, bar included
+  exact: boolean;
+}
+
+// Plate totals are tracked in hundredths so float sums compare exactly
+const toHundredths = (weight: number) => Math.round(weight * 100);
+
+// Plates per side for the loadable weight closest to `targetWeight` (ties
+// go to the lighter load). Every loadable total is found with the fewest
+// plates, so a missing plate size falls back to combinations of smaller ones
+export const calculatePlateLoad = (
+  targetWeight: number,
+  barWeight: number,
+  inventory: PlateCount[],
+  unit: WeightUnit
+): PlateLoad => {
+  const bar = fromKg(barWeight, unit);
+  const targetPerSide = toHundredths((fromKg(targetWeight, unit) - bar) / 2);
+
+  let loads = new Map<number, number[]>([[0, []]]);
+  [...inventory]
+    .filter((plate) => plate.weight > 0 && plate.pairs > 0)
+    .sort((a, b) => b.weight - a.weight)
+    .forEach((plate) => {
+      const next = new Map(loads);
+      loads.forEach((plates, perSide) => {
+        for (let count = 1; count <= plate.pairs; count++) {
+          const total = perSide + toHundredths(plate.weight) * count;
+          const combination = [
+            ...plates,
+            ...Array<number>(count).fill(plate.weight),
+          ];
+          const existing = next.get(total);
+          if (!existing || existing.length > combination.length) {
+            next.set(total, combination);
+          }
+        }
+      });
+      loads = next;
+    });
+
+  let closest = 0;
+  loads.forEach((_, perSide) => {
+    const distance = Math.abs(perSide - targetPerSide);
+    const closestDistance = Math.abs(closest - targetPerSide);
+    if (
+      distance < closestDistance ||
+      (distance === closestDistance && perSide < closest)
+    ) {
+      closest = perSide;
+    }
+  });
+
+  return {
+    barWeight,
+    platesPerSide: loads.get(closest) || [],
+    total: toKg(bar + (closest / 100) * 2, unit),
+    exact: closest === targetPerSide,
+  };
+};
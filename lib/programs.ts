@@ -0,0 +1,159 @@
+import { CustomExercise, ProgramDayRef } from '@/types/workout';
+import {
+  ProgramDay,
+  TrainingProgramRecord,
+  WorkoutTemplateRecord,
+} from '@/lib/supabase';
+import { WeightUnit } from '@/lib/units';
+import { getLoadingIncrement, roundToIncrement } from '@/lib/progression';
+
+export const PROGRAM_LENGTH_OPTIONS = [4, 6, 8, 12]; // weeks
+export const DELOAD_EVERY_OPTIONS = [0, 4, 5, 6]; // 0 for no deloads
+export const LOAD_INCREASE_OPTIONS = [0, 1, 2.5, 5]; // percent per week
+export const VOLUME_INCREASE_OPTIONS = [0, 2, 3]; // weeks per extra set
+
+// Deload weeks keep the movement but drop the stress: half the sets at 90%
+// of the load the program had reached
+const DELOAD_LOAD_FACTOR = 0.9;
+const DELOAD_VOLUME_FACTOR = 0.5;
+
+// Volume climbs by a set at a time, but never more than this per exercise
+const MAX_EXTRA_SETS = 2;
+
+export interface ProgramWeek {
+  week: number; // 1-based
+  isDeload: boolean;
+  loadMultiplier: number; // applied to the template's weights
+  extraSets: number; // added to every exercise
+}
+
+export const isDeloadWeek = (
+  program: Pick<TrainingProgramRecord, 'deload_every'>,
+  week: number
+): boolean => program.deload_every > 0 && week % program.deload_every === 0;
+
+// Deload weeks pause progression, so week 6 with a deload in week 4 has
+// progressed four times, not five
+const getProgressedWeeks = (
+  program: Pick<TrainingProgramRecord, 'deload_every'>,
+  week: number
+): number => {
+  let progressed = 0;
+  for (let previous = 1; previous < week; previous++) {
+    if (!isDeloadWeek(program, previous)) progressed++;
+  }
+  return progressed;
+};
+
+// Load goes up linearly from the template's weights; extra sets arrive
+// every `volume_increase_every` progressing weeks
+export const getProgramWeek = (
+  program: Pick<
+    TrainingProgramRecord,
+    'deload_every' | 'weekly_load_increase' | 'volume_increase_every'
+  >,
+  week: number
+): ProgramWeek => {
+  const progressed = getProgressedWeeks(program, week);
+  const isDeload = isDeloadWeek(program, week);
+  const loadMultiplier = 1 + (program.weekly_load_increase / 100) * progressed;
+
+  return {
+    week,
+    isDeload,
+    loadMultiplier: isDeload
+      ? loadMultiplier * DELOAD_LOAD_FACTOR
+      : loadMultiplier,
+    extraSets:
+      program.volume_increase_every > 0
+        ? Math.min(
+            MAX_EXTRA_SETS,
+            Math.floor(progressed / program.volume_increase_every)
+          )
+        : 0,
+  };
+};
+
+// A template's exercises as prescribed for one week of the program. Weights
+// are rounded to what the equipment can load; bodyweight work only gains
+// sets
+export const applyProgramWeek = (
+  exercises: CustomExercise[],
+  programWeek: ProgramWeek,
+  unit: WeightUnit
+): CustomExercise[] =>
+  exercises.map((ex) => ({
+    ...ex,
+    weight:
+      ex.weight > 0
+        ? roundToIncrement(
+            ex.weight * programWeek.loadMultiplier,
+            getLoadingIncrement(ex.exercise.equipment, unit),
+            unit
+          )
+        : ex.weight,
+    sets: programWeek.isDeload
+      ? Math.max(1, Math.ceil(ex.sets * DELOAD_VOLUME_FACTOR))
+      : ex.sets + programWeek.extraSets,
+  }));
+
+// Where the program goes after the day at its current position is trained
+export const getNextProgramPosition = (
+  program: Pick<
+    TrainingProgramRecord,
+    'days' | 'length_weeks' | 'current_week' | 'current_day'
+  >
+): { current_week: number; current_day: number; finished: boolean } => {
+  if (program.current_day < program.days.length) {
+    return {
+      current_week: program.current_week,
+      current_day: program.current_day + 1,
+      finished: false,
+    };
+  }
+  return {
+    current_week: program.current_week + 1,
+    current_day: 1,
+    finished: program.current_week >= program.length_weeks,
+  };
+};
+
+export interface ProgramSession {
+  program: TrainingProgramRecord;
+  day: ProgramDay;
+  template?: WorkoutTemplateRecord; // missing if the template was deleted
+  programWeek: ProgramWeek;
+  ref: ProgramDayRef;
+}
+
+// The next day to train in a program, if it has one left
+export const getNextProgramSession = (
+  program: TrainingProgramRecord,
+  templates: WorkoutTemplateRecord[]
+): ProgramSession | undefined => {
+  const day = program.days[program.current_day - 1];
+  if (program.completed_at || !day) return undefined;
+
+  return {
+    program,
+    day,
+    template: templates.find(
+      (template) => template.client_id === day.template_id
+    ),
+    programWeek: getProgramWeek(program, program.current_week),
+    ref: {
+      programId: program.client_id,
+      week: program.current_week,
+      day: program.current_day,
+    },
+  };
+};
+
+// "Week 2 of 8 • Day 1 of 3"
+export const formatProgramPosition = (
+  program: Pick<
+    TrainingProgramRecord,
+    'days' | 'length_weeks' | 'current_week' | 'current_day'
+  >
+): string =>
+  `Week ${program.current_week} of ${program.length_weeks} • Day ${program.current_day} of ${program.days.length}`;
@@ -0,0 +1,179 @@
+import { WorkoutSetRecord } from '@/lib/supabase';
+import { WeightUnit, WEIGHT_INCREMENTS, fromKg, toKg } from '@/lib/units';
+
+export type ProgressionAction =
+  | 'first_time'
+  | 'add_weight'
+  | 'add_reps'
+  | 'repeat'
+  | 'back_off';
+
+export interface ProgressionSuggestion {
+  action: ProgressionAction;
+  weight?: number; // kg
+  reps?: number;
+  reason: string;
+  lastSession?: WorkoutSetRecord[]; // working sets, in the order logged
+}
+
+// Double progression: climb from the bottom of the rep range to the top at
+// the same weight, then add weight and start again at the bottom
+const REP_RANGE_WIDTH = 2;
+const DEFAULT_TARGET_REPS = 8;
+
+// Missing the bottom of the range twice in a row drops the weight by 10%
+const BACK_OFF_FACTOR = 0.9;
+
+// Smallest sensible jump per equipment, in the user's unit; big lower-body
+// barbell lifts move up twice as fast
+const EQUIPMENT_INCREMENTS: Record<string, Record<WeightUnit, number>> = {
+  barbell: { kg: 2.5, lb: 5 },
+  'e-z curl bar': { kg: 2.5, lb: 5 },
+  dumbbell: { kg: 2, lb: 5 },
+  kettlebells: { kg: 4, lb: 10 },
+  machine: { kg: 5, lb: 10 },
+  cable: { kg: 2.5, lb: 5 },
+};
+
+const LOWER_BODY_PATTERN = /squat|deadlift|leg press|hip thrust|lunge/i;
+
+// Smallest change in load the equipment allows
+export const getLoadingIncrement = (
+  equipment: string,
+  unit: WeightUnit
+): number =>
+  EQUIPMENT_INCREMENTS[equipment.toLowerCase()]?.[unit] ??
+  WEIGHT_INCREMENTS[unit];
+
+export const getWeightIncrement = (
+  exercise: { name: string; equipment: string },
+  unit: WeightUnit
+): number => {
+  const increment = getLoadingIncrement(exercise.equipment, unit);
+  return exercise.equipment.toLowerCase() === 'barbell' &&
+    LOWER_BODY_PATTERN.test(exercise.name)
+    ? increment * 2
+    : increment;
+};
+
+// Round a kg weight to the nearest step the user can actually load
+export const roundToIncrement = (
+  weightKg: number,
+  increment: number,
+  unit: WeightUnit
+): number =>
+  toKg(Math.round(fromKg(weightKg, unit) / increment) * increment, unit);
+
+// Working sets from the most recent sessions, newest session first
+const groupSessions = (history: WorkoutSetRecord[]): WorkoutSetRecord[][] => {
+  const sessions = new Map<string, WorkoutSetRecord[]>();
+  [...history]
+    .filter((set) => set.completed && set.set_type !== 'warmup' && set.reps)
+    .sort(
+      (a, b) =>
+        new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+    )
+    .forEach((set) => {
+      sessions.set(set.workout_id, [
+        ...(sessions.get(set.workout_id) || []),
+        set,
+      ]);
+    });
+
+  return Array.from(sessions.values()).map((sets) =>
+    sets.sort((a, b) => a.set_number - b.set_number)
+  );
+};
+
+const missedRange = (session: WorkoutSetRecord[], minReps: number) =>
+  session.some((set) => (set.reps || 0) < minReps);
+
+// Propose today's first working set from the last sessions of this exercise
+export const suggestNextSet = (
+  history: WorkoutSetRecord[],
+  exercise: { name: string; equipment: string },
+  unit: WeightUnit,
+  targetReps: number = DEFAULT_TARGET_REPS
+): ProgressionSuggestion => {
+  const [lastSession, previousSession] = groupSessions(history);
+  if (!lastSession) {
+    return { action: 'first_time', reason: 'First time logging this exercise' };
+  }
+
+  const minReps = targetReps;
+  const maxReps = targetReps + REP_RANGE_WIDTH;
+  const topWeight = Math.max(...lastSession.map((set) => set.weight || 0));
+  const topSets = lastSession.filter((set) => (set.weight || 0) === topWeight);
+  const lowestReps = Math.min(...topSets.map((set) => set.reps || 0));
+
+  // Bodyweight movements progress on reps alone
+  if (!topWeight) {
+    return {
+      action: 'add_reps',
+      reps: lowestReps + 1,
+      reason: 'One more rep than last time',
+      lastSession,
+    };
+  }
+
+  const increment = getWeightIncrement(exercise, unit);
+
+  if (missedRange(topSets, minReps)) {
+    if (previousSession && missedRange(previousSession, minReps)) {
+      return {
+        action: 'back_off',
+        weight: roundToIncrement(topWeight * BACK_OFF_FACTOR, increment, unit),
+        reps: minReps,
+        reason: `Missed ${minReps} reps twice in a row, so back off and build up again`,
+        lastSession,
+      };
+    }
+    return {
+      action: 'repeat',
+      weight: topWeight,
+      reps: minReps,
+      reason: `Repeat the weight and aim for ${minReps} reps on every set`,
+      lastSession,
+    };
+  }
+
+  if (lowestReps >= maxReps) {
+    return {
+      action: 'add_weight',
+      weight: toKg(fromKg(topWeight, unit) + increment, unit),
+      reps: minReps,
+      reason: `Hit ${maxReps} reps on every set, so add ${increment} ${unit}`,
+      lastSession,
+    };
+  }
+
+  return {
+    action: 'add_reps',
+    weight: topWeight,
+    reps: Math.min(lowestReps + 1, maxReps),
+    reason: `Same weight, one more rep (working up to ${maxReps})`,
+    lastSession,
+  };
+};
+
+// "3×8 @ 135" when every set matched, otherwise each set: "135×8, 135×7"
+export const formatSessionSummary = (
+  sets: WorkoutSetRecord[],
+  unit: WeightUnit
+): string => {
+  const describe = (set: WorkoutSetRecord) =>
+    set.weight ? `${fromKg(set.weight, unit)}×${set.reps}` : `${set.reps}`;
+
+  const allSame = sets.every(
+    (set) => set.reps === sets[0].reps && set.weight === sets[0].weight
+  );
+  if (allSame) {
+    return sets[0].weight
+      ? `${sets.length}×${sets[0].reps} @ ${fromKg(
+          sets[0].weight,
+          unit
+        )} ${unit}`
+      : `${sets.length}×${sets[0].reps}`;
+  }
+  return sets.map(describe).join(', ');
+};
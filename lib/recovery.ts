@@ -0,0 +1,162 @@
+import { FatigueCalculator, FatigueFactors } from '@/lib/fatigue';
+import { Muscle, resolveMuscles } from '@/lib/muscles';
+
+// Sets older than this have long since been recovered from
+export const RECOVERY_WINDOW_DAYS = 10;
+
+// A muscle at or above this readiness is ready to train hard again
+export const READY_THRESHOLD = 90;
+
+// Hours for a muscle to shed 95% of the fatigue a session left behind.
+// Big muscles worked with heavy loads take longest; small muscles and the
+// core that are trained often bounce back within a day or two
+const MUSCLE_RECOVERY_HOURS: Record<Muscle, number> = {
+  chest: 60,
+  shoulders: 48,
+  biceps: 48,
+  triceps: 48,
+  forearms: 30,
+  traps: 48,
+  lats: 60,
+  'middle-back': 60,
+  'lower-back': 72,
+  abs: 30,
+  quads: 72,
+  hamstrings: 72,
+  glutes: 60,
+  calves: 36,
+  adductors: 48,
+  abductors: 48,
+  neck: 36,
+};
+const RESIDUAL_AT_RECOVERY = 0.05;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// A set as the recovery model replays it
+export interface RecoverySet extends FatigueFactors {
+  performedAt: number; // timestamp
+}
+
+export interface MuscleReadiness {
+  muscle: Muscle;
+  fatigue: number; // 0-100 left over from recent sessions
+  readiness: number; // 0-100, where 100 is fully recovered
+  lastTrainedAt: number; // timestamp of the last set for this muscle
+  readyAt: number; // timestamp when readiness reaches READY_THRESHOLD
+}
+
+// Only the per-set fatigue formula is used, which keeps no state
+const setFatigue = new FatigueCalculator();
+
+// Fraction of a muscle's fatigue still left after `elapsedMs`; recovery is
+// quick at first and tails off, like soreness does
+const getRemainingFraction = (muscle: Muscle, elapsedMs: number) =>
+  Math.pow(
+    RESIDUAL_AT_RECOVERY,
+    Math.max(0, elapsedMs) / HOUR_MS / MUSCLE_RECOVERY_HOURS[muscle]
+  );
+
+// Replay logged sets in order: each set adds the fatigue the in-session
+// model would charge to every muscle it works, and between sets each muscle
+// recovers along its own multi-day curve
+export const replayRecovery = (
+  sets: RecoverySet[],
+  now: number = Date.now()
+): MuscleReadiness[] => {
+  const muscles = new Map<Muscle, { fatigue: number; lastTrainedAt: number }>();
+
+  [...sets]
+    .sort((a, b) => a.performedAt - b.performedAt)
+    .forEach((set) => {
+      setFatigue
+        .getMuscleFatigueIncreases(set)
+        .forEach(({ muscle, increase }) => {
+          const current = muscles.get(muscle);
+          const recovered = current
+            ? current.fatigue *
+              getRemainingFraction(
+                muscle,
+                set.performedAt - current.lastTrainedAt
+              )
+            : 0;
+
+          muscles.set(muscle, {
+            fatigue: Math.min(100, recovered + increase),
+            lastTrainedAt: set.performedAt,
+          });
+        });
+    });
+
+  return Array.from(muscles.entries())
+    .map(([muscle, { fatigue, lastTrainedAt }]) => {
+      const hours = MUSCLE_RECOVERY_HOURS[muscle];
+      const remaining =
+        fatigue * getRemainingFraction(muscle, now - lastTrainedAt);
+      const allowed = 100 - READY_THRESHOLD;
+
+      // Solve fatigue × residual^(t / hours) = allowed for t
+      const readyAt =
+        fatigue > allowed
+          ? lastTrainedAt +
+            ((hours * Math.log(allowed / fatigue)) /
+              Math.log(RESIDUAL_AT_RECOVERY)) *
+              HOUR_MS
+          : lastTrainedAt;
+
+      return {
+        muscle,
+        fatigue: remaining,
+        readiness: 100 - remaining,
+        lastTrainedAt,
+        readyAt,
+      };
+    })
+    .sort((a, b) => a.readiness - b.readiness);
+};
+
+// Saved sets carry no timestamps of their own, only the workout's save time
+// and length, so the session's sets are spaced evenly across it with the
+// last one finishing when the workout was saved
+export const getSessionSetTimes = (
+  finishedAt: number,
+  durationMinutes: number,
+  setCount: number
+): number[] => {
+  const durationMs = Math.max(0, durationMinutes) * 60 * 1000;
+  return Array.from(
+    { length: setCount },
+    (_, index) =>
+      finishedAt - durationMs + (durationMs * (index + 1)) / setCount
+  );
+};
+
+// Readiness for a muscle by any of its names, or 100 if it hasn't been
+// trained recently; broad groups such as "Back" are as ready as their least
+// recovered muscle
+export const getReadiness = (
+  readiness: MuscleReadiness[],
+  muscleName: string
+): number =>
+  Math.min(
+    100,
+    ...resolveMuscles(muscleName).map(
+      ({ muscle }) =>
+        readiness.find((entry) => entry.muscle === muscle)?.readiness ?? 100
+    )
+  );
+
+export const getReadinessColor = (readiness: number): string => {
+  if (readiness >= READY_THRESHOLD) return '#10B981';
+  if (readiness >= 60) return '#F59E0B';
+  return '#EF4444';
+};
+
+// "Ready now", "Ready in 5h", "Ready in 2 days"
+export const formatReadyIn = (readyAt: number, now: number = Date.now()) => {
+  const hours = Math.ceil((readyAt - now) / HOUR_MS);
+  if (hours <= 0) return 'Ready now';
+  if (hours < 24) return `Ready in ${hours}h`;
+  const days = Math.round(hours / 24);
+  return `Ready in ${days} ${days === 1 ? 'day' : 'days'}`;
+};
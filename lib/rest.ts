@@ -0,0 +1,33 @@
+import { Exercise } from '@/types/workout';
+
+// Matches the "high fatigue" band in FatigueCalculator's recommendations
+export const HIGH_FATIGUE_THRESHOLD = 70;
+
+// Rest grows by up to half again as fatigue climbs from the threshold to 100
+const MAX_FATIGUE_REST_EXTENSION = 0.5;
+
+// Rest the workout asks for after a set: the exercise's between-set rest, or
+// its rest before the next exercise once it's finished. Exercises without a
+// prescription fall back to the user's default
+export const getPrescribedRest = (
+  exercise: Pick<Exercise, 'restTime' | 'restAfterExercise'>,
+  exerciseFinished: boolean,
+  defaultRest: number
+): number =>
+  exerciseFinished
+    ? exercise.restAfterExercise ?? exercise.restTime ?? defaultRest
+    : exercise.restTime ?? defaultRest;
+
+// Longer rest for a highly fatigued muscle group, rounded to 5 seconds
+export const getFatigueAdjustedRest = (
+  seconds: number,
+  fatigueLevel: number
+): number => {
+  if (fatigueLevel <= HIGH_FATIGUE_THRESHOLD) return seconds;
+  const extension =
+    (Math.min(100, fatigueLevel) - HIGH_FATIGUE_THRESHOLD) /
+    (100 - HIGH_FATIGUE_THRESHOLD);
+  return (
+    Math.round((seconds * (1 + extension * MAX_FATIGUE_REST_EXTENSION)) / 5) * 5
+  );
+};
@@ -0,0 +1,130 @@
+import { ScheduleMoveRecord } from '@/lib/supabase';
+
+export type Weekday =
+  | 'monday'
+  | 'tuesday'
+  | 'wednesday'
+  | 'thursday'
+  | 'friday'
+  | 'saturday'
+  | 'sunday';
+
+// Monday first, like the onboarding day picker
+export const WEEKDAYS: Weekday[] = [
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+  'sunday',
+];
+
+export const WEEKDAY_SHORT_LABELS: Record<Weekday, string> = {
+  monday: 'Mon',
+  tuesday: 'Tue',
+  wednesday: 'Wed',
+  thursday: 'Thu',
+  friday: 'Fri',
+  saturday: 'Sat',
+  sunday: 'Sun',
+};
+
+// Spread across the week with rest days between sessions where possible,
+// for users who picked "N days a week" rather than specific days
+const FREQUENCY_TRAINING_DAYS: Record<string, Weekday[]> = {
+  '1-day': ['wednesday'],
+  '2-days': ['tuesday', 'friday'],
+  '3-days': ['monday', 'wednesday', 'friday'],
+  '4-days': ['monday', 'tuesday', 'thursday', 'friday'],
+  '5-days': ['monday', 'tuesday', 'wednesday', 'friday', 'saturday'],
+  '6-days': WEEKDAYS.filter((day) => day !== 'sunday'),
+  '7-days': WEEKDAYS,
+};
+
+export const getTrainingDaysForFrequency = (frequency?: string): Weekday[] =>
+  (frequency && FREQUENCY_TRAINING_DAYS[frequency]) || [];
+
+// Planned sessions fall on the training weekdays, except those moved to
+// another date
+export interface TrainingSchedule {
+  trainingDays: Weekday[];
+  moves: Pick<ScheduleMoveRecord, 'from_date' | 'to_date'>[];
+}
+
+// Dates are handled as YYYY-MM-DD keys in the user's local calendar, and
+// the arithmetic on them is done in UTC so DST changes never skip a day
+export const toDateKey = (date: Date): string =>
+  [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0'),
+  ].join('-');
+
+const parseDateKey = (key: string) => new Date(`${key}T00:00:00Z`);
+
+export const addDaysToKey = (key: string, days: number): string => {
+  const date = parseDateKey(key);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split('T')[0];
+};
+
+export const getWeekday = (key: string): Weekday =>
+  WEEKDAYS[(parseDateKey(key).getUTCDay() + 6) % 7];
+
+export const isPlannedDate = (
+  key: string,
+  schedule: TrainingSchedule
+): boolean => {
+  if (schedule.moves.some((move) => move.to_date === key)) return true;
+  if (schedule.moves.some((move) => move.from_date === key)) return false;
+  return schedule.trainingDays.includes(getWeekday(key));
+};
+
+// Planned dates from `fromKey` to `toKey`, both included
+export const getPlannedDates = (
+  fromKey: string,
+  toKey: string,
+  schedule: TrainingSchedule
+): string[] => {
+  const dates: string[] = [];
+  for (let key = fromKey; key <= toKey; key = addDaysToKey(key, 1)) {
+    if (isPlannedDate(key, schedule)) dates.push(key);
+  }
+  return dates;
+};
+
+// With training days set, a streak survives any number of rest days as long
+// as no planned session between two workouts was skipped
+export const hasMissedPlannedDate = (
+  lastWorkoutKey: string,
+  workoutKey: string,
+  schedule: TrainingSchedule
+): boolean =>
+  getPlannedDates(
+    addDaysToKey(lastWorkoutKey, 1),
+    addDaysToKey(workoutKey, -1),
+    schedule
+  ).length > 0;
+
+// Weeks of a month, Monday first; days outside the month are null
+export const getMonthWeeks = (
+  year: number,
+  month: number // 0-based, like Date
+): (string | null)[][] => {
+  const firstKey = toDateKey(new Date(year, month, 1));
+  const daysInMonth = new Date(year, month + 1, 0).getDate();
+  const leading = WEEKDAYS.indexOf(getWeekday(firstKey));
+
+  const cells: (string | null)[] = [
+    ...Array<null>(leading).fill(null),
+    ...Array.from({ length: daysInMonth }, (_, i) => addDaysToKey(firstKey, i)),
+  ];
+  while (cells.length % 7 !== 0) cells.push(null);
+
+  const weeks: (string | null)[][] = [];
+  for (let i = 0; i < cells.length; i += 7) {
+    weeks.push(cells.slice(i, i + 7));
+  }
+  return weeks;
+};
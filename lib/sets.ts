@@ -0,0 +1,153 @@
+import { ActiveWorkout, SetType, WorkoutSet } from '@/types/workout';
+
+export const SET_TYPES: SetType[] = [
+  'warmup',
+  'working',
+  'drop',
+  'failure',
+  'amrap',
+];
+
+export const SET_TYPE_LABELS: Record<SetType, string> = {
+  warmup: 'Warm-up',
+  working: 'Working',
+  drop: 'Drop Set',
+  failure: 'Failure',
+  amrap: 'AMRAP',
+};
+
+// Single-letter badges shown in set rows; working sets use the set number
+export const SET_TYPE_BADGES: Record<SetType, string> = {
+  warmup: 'W',
+  working: '',
+  drop: 'D',
+  failure: 'F',
+  amrap: 'A',
+};
+
+export const SET_TYPE_COLORS: Record<SetType, string> = {
+  warmup: '#F59E0B',
+  working: '#6B46C1',
+  drop: '#3B82F6',
+  failure: '#EF4444',
+  amrap: '#10B981',
+};
+
+export const getSetType = (set: WorkoutSet): SetType =>
+  set.setType || 'working';
+
+export const isWarmupSet = (set: WorkoutSet): boolean =>
+  getSetType(set) === 'warmup';
+
+// Warm-ups don't count toward volume, XP or personal records
+export const getWorkingSets = (sets: WorkoutSet[]): WorkoutSet[] =>
+  sets.filter((set) => !isWarmupSet(set));
+
+// Heaviest working set for an exercise, breaking ties on reps
+export const getBestWorkingSet = (
+  sets: WorkoutSet[],
+  exerciseId: string
+): WorkoutSet | undefined =>
+  getWorkingSets(sets)
+    .filter((set) => set.exerciseId === exerciseId && set.completed)
+    .reduce<WorkoutSet | undefined>((best, set) => {
+      if (!best) return set;
+      const weight = set.weight || 0;
+      const bestWeight = best.weight || 0;
+      if (weight > bestWeight) return set;
+      if (weight === bestWeight && (set.reps || 0) > (best.reps || 0)) {
+        return set;
+      }
+      return best;
+    }, undefined);
+
+// Rep sets have no timer, so a set is taken to start when the lifter was
+// ready for it, but no more than this long before it was logged; any longer
+// and they were still resting
+export const MAX_SET_SECONDS = 120;
+
+// Timestamps for a set logged live at `finishedAt`. Rest runs from the
+// previous set to this one starting, however long the rest timer was set for
+export const getLiveSetTiming = (
+  set: Pick<WorkoutSet, 'duration'>,
+  workout: Pick<
+    ActiveWorkout,
+    'sets' | 'startTime' | 'restStartedAt' | 'restEndedAt'
+  >,
+  finishedAt: number = Date.now()
+): Pick<
+  WorkoutSet,
+  'startedAt' | 'finishedAt' | 'restStartedAt' | 'restEndedAt' | 'restTime'
+> => {
+  const previousFinish = [...workout.sets]
+    .reverse()
+    .find((previous) => previous.finishedAt)?.finishedAt;
+
+  // Only a rest timer started after the previous set belongs to this one
+  const restStartedAt =
+    workout.restStartedAt !== undefined &&
+    workout.restStartedAt >= (previousFinish ?? 0)
+      ? workout.restStartedAt
+      : undefined;
+  const readyAt =
+    (restStartedAt !== undefined && workout.restEndedAt) ||
+    previousFinish ||
+    workout.startTime.getTime();
+
+  // Timed sets know how long they took
+  const startedAt = Math.max(
+    previousFinish ?? 0,
+    set.duration
+      ? finishedAt - set.duration * 1000
+      : Math.max(readyAt, finishedAt - MAX_SET_SECONDS * 1000)
+  );
+
+  return {
+    startedAt,
+    finishedAt,
+    restStartedAt,
+    restEndedAt:
+      restStartedAt !== undefined
+        ? Math.min(workout.restEndedAt ?? startedAt, startedAt)
+        : undefined,
+    restTime:
+      previousFinish !== undefined
+        ? Math.round((startedAt - previousFinish) / 1000)
+        : undefined,
+  };
+};
+
+// Seconds a set took: its timer for timed sets, its timestamps for sets
+// logged live, unknown otherwise
+export const getSetSeconds = (set: WorkoutSet): number | undefined => {
+  if (set.duration) return set.duration;
+  if (set.startedAt !== undefined && set.finishedAt !== undefined) {
+    return Math.round((set.finishedAt - set.startedAt) / 1000);
+  }
+  return undefined;
+};
+
+const average = (values: number[]): number | undefined =>
+  values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : undefined;
+
+// How long sets and the rest between them have taken so far this session,
+// from the sets logged live
+export const getSessionPace = (
+  sets: WorkoutSet[]
+): { setSeconds?: number; restSeconds?: number } => {
+  const live = sets.filter((set) => set.finishedAt !== undefined);
+  return {
+    setSeconds: average(
+      live
+        .map(getSetSeconds)
+        .filter((seconds): seconds is number => seconds !== undefined)
+    ),
+    restSeconds: average(
+      live
+        .map((set) => set.restTime)
+        .filter((seconds): seconds is number => seconds !== undefined)
+    ),
+  };
+};
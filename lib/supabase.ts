@@ -55,6 +55,7 @@ export interface OnboardingData {
   experience_level: string;
   equipment: string[];
   workout_frequency: string;
+  training_days?: string[]; // weekdays, e.g. 'monday'
   time_availability: string;
   limitations: string[];
   limitations_other?: string;
@@ -69,10 +70,92 @@ export interface WorkoutRecord {
   user_id: string;
   date: string;
   duration: number;
-  exercises: any[];
+  exercises: any[]; // exercises as performed, with the session's `notes` on each
   total_sets: number;
   xp_gained: number;
   notes?: string;
+  client_id?: string; // idempotency key from the offline sync queue
+  created_at: string;
+}
+
+// Exercises are stored by reference to the library rather than in full;
+// AI-generated exercises that aren't in the library keep what they came with
+export interface WorkoutTemplateExercise {
+  exercise_id: string;
+  name: string;
+  muscle_group: string;
+  equipment: string;
+  sets: number;
+  reps: number;
+  weight: number; // kg
+  rest_time: number; // seconds between sets
+  rest_after_exercise: number; // seconds before the next exercise
+  group_id?: string;
+}
+
+export interface WorkoutTemplateRecord {
+  id: string;
+  user_id: string;
+  client_id: string; // stable across edits, so queued saves land on one row
+  name: string;
+  exercises: WorkoutTemplateExercise[];
+  source: 'custom' | 'ai';
+  notes?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProgramDay {
+  template_id: string; // the template's client_id
+  name: string; // template name when the day was added, in case it's deleted
+}
+
+export interface TrainingProgramRecord {
+  id: string;
+  user_id: string;
+  client_id: string;
+  name: string;
+  days: ProgramDay[]; // one week of training days, in order
+  length_weeks: number;
+  deload_every: number; // every nth week is a deload; 0 for none
+  weekly_load_increase: number; // percent per progressing week
+  volume_increase_every: number; // weeks per extra set; 0 for none
+  is_active: boolean;
+  current_week: number; // 1-based
+  current_day: number; // 1-based index into `days`
+  started_at?: string;
+  completed_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// A planned session moved off its usual weekday
+export interface ScheduleMoveRecord {
+  id: string;
+  user_id: string;
+  client_id: string;
+  from_date: string; // YYYY-MM-DD
+  to_date: string; // YYYY-MM-DD
+  created_at: string;
+}
+
+export interface WorkoutSetRecord {
+  id: string;
+  workout_id: string;
+  user_id: string;
+  exercise_id: string;
+  exercise_name: string;
+  set_number: number; // 1-based within the exercise
+  weight?: number; // kg
+  reps?: number;
+  duration?: number; // in seconds
+  distance?: number; // in meters
+  rest_time?: number; // in seconds
+  rpe?: number; // 6-10
+  set_type: 'warmup' | 'working' | 'drop' | 'failure' | 'amrap';
+  note?: string;
+  completed: boolean;
+  client_id?: string;
   created_at: string;
 }
 
@@ -84,14 +167,25 @@ export interface UserAchievement {
   created_at: string;
 }
 
+export type PersonalRecordType =
+  | 'weight' // heaviest working set
+  | 'e1rm' // best estimated one-rep max
+  | 'reps' // most reps at one weight
+  | 'set_volume' // best weight × reps in a single set
+  | 'session_volume'; // most weight × reps in one workout
+
 export interface PersonalRecord {
   id: string;
   user_id: string;
   exercise_id: string;
   exercise_name: string;
-  weight?: number;
+  record_type: PersonalRecordType;
+  value: number; // kg for weight, e1rm and volumes; reps for rep records
+  weight?: number; // kg
   reps?: number;
   date: string;
+  legacy?: boolean; // set before any sets were logged, so never rebuilt
+  client_id?: string;
   created_at: string;
 }
 
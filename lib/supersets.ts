@@ -0,0 +1,60 @@
+import { Exercise, ExerciseGroupType } from '@/types/workout';
+
+// Indices of every exercise performed together with the one at `index`
+export const getGroupIndices = (
+  exercises: Pick<Exercise, 'groupId'>[],
+  index: number
+): number[] => {
+  const groupId = exercises[index]?.groupId;
+  if (!groupId) return [index];
+
+  return exercises
+    .map((exercise, i) => (exercise.groupId === groupId ? i : -1))
+    .filter((i) => i >= 0);
+};
+
+export const getGroupType = (size: number): ExerciseGroupType | null => {
+  if (size < 2) return null;
+  if (size === 2) return 'superset';
+  if (size === 3) return 'triset';
+  return 'circuit';
+};
+
+export const GROUP_TYPE_LABELS: Record<ExerciseGroupType, string> = {
+  superset: 'Superset',
+  triset: 'Tri-set',
+  circuit: 'Circuit',
+};
+
+// Next group member still owed a set this round; null means the round is
+// over and it's time to rest
+export const getNextIndexInRound = (
+  exercises: Pick<Exercise, 'groupId'>[],
+  currentIndex: number,
+  isExerciseComplete: (index: number) => boolean
+): number | null => {
+  const next = getGroupIndices(exercises, currentIndex).find(
+    (i) => i > currentIndex && !isExerciseComplete(i)
+  );
+  return next ?? null;
+};
+
+// Where to go once rest ends: back to the start of the next round, or on
+// to the next unfinished exercise once every member is done. Exercises can be
+// done out of order, so anything passed over earlier is picked up after the
+// end of the queue. -1 means the workout is over
+export const getNextIndexAfterRest = (
+  exercises: Pick<Exercise, 'groupId'>[],
+  currentIndex: number,
+  isExerciseComplete: (index: number) => boolean
+): number => {
+  const group = getGroupIndices(exercises, currentIndex);
+  const remaining = group.find((i) => !isExerciseComplete(i));
+  if (remaining !== undefined) return remaining;
+
+  const after = Math.max(...group) + 1;
+  const next = exercises
+    .map((_, i) => (i + after) % exercises.length)
+    .find((i) => !group.includes(i) && !isExerciseComplete(i));
+  return next ?? -1;
+};
@@ -0,0 +1,278 @@
+import { AppState } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+export type MutationKind =
+  | 'save_workout'
+  | 'update_workout'
+  | 'delete_workout'
+  | 'save_personal_record'
+  | 'unlock_achievement'
+  | 'award_xp'
+  | 'save_template'
+  | 'delete_template'
+  | 'save_program'
+  | 'start_program'
+  | 'update_program_position'
+  | 'complete_program_day'
+  | 'delete_program'
+  | 'update_training_days'
+  | 'save_schedule_move'
+  | 'delete_schedule_move';
+
+export interface QueuedMutation {
+  id: string; // idempotency key, sent along as client_id
+  kind: MutationKind;
+  payload: any;
+  attempts: number;
+  nextAttemptAt: number;
+  createdAt: number;
+  lastError?: string;
+}
+
+export interface SyncStatus {
+  pendingCount: number;
+  isSyncing: boolean;
+  lastError?: string;
+}
+
+type MutationHandler = (
+  payload: any,
+  clientId: string
+) => Promise<{ error: any }>;
+
+// Each account has its own queue, so writes queued by one are never replayed
+// after another signs in on the same device
+const SYNC_QUEUE_STORAGE_KEY = '@boltlab_sync_queue';
+const getStorageKey = (userId: string) => `${SYNC_QUEUE_STORAGE_KEY}:${userId}`;
+
+const BASE_RETRY_DELAY = 2000; // 2 seconds, doubled on every failure
+const MAX_RETRY_DELAY = 5 * 60 * 1000; // 5 minutes
+// Server-side rejections (constraint violations, RLS) won't fix themselves;
+// network failures are retried for as long as it takes
+const MAX_REJECTED_ATTEMPTS = 5;
+
+export const createClientId = (): string =>
+  `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+// PostgREST/Postgres errors carry a code; fetch failures while offline don't
+const isRejectedByServer = (error: any): boolean =>
+  !!error && typeof error === 'object' && !!error.code;
+
+class SyncQueue {
+  private mutations: QueuedMutation[] = [];
+  private handlers: Partial<Record<MutationKind, MutationHandler>> = {};
+  private listeners = new Set<(status: SyncStatus) => void>();
+  private userId: string | null = null;
+  private ready: Promise<void> | null = null;
+  private isSyncing = false;
+  private flushRequested = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastError?: string;
+
+  constructor() {
+    // Coming back to the foreground (or online, on web) is our best signal
+    // that the connection may be back
+    AppState.addEventListener('change', (state) => {
+      if (state === 'active') this.retryNow();
+    });
+    if (typeof window !== 'undefined' && window.addEventListener) {
+      window.addEventListener('online', () => this.retryNow());
+    }
+  }
+
+  // Switch to the signed-in user's queue; nothing is sent while signed out
+  setUser(userId: string | null) {
+    if (userId === this.userId) return;
+
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.userId = userId;
+    this.mutations = [];
+    this.ready = null;
+    this.lastError = undefined;
+    this.notify();
+
+    this.flush();
+  }
+
+  registerHandler(kind: MutationKind, handler: MutationHandler) {
+    this.handlers[kind] = handler;
+    this.flush();
+  }
+
+  subscribe(listener: (status: SyncStatus) => void) {
+    this.listeners.add(listener);
+    this.load().then(() => listener(this.getStatus()));
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getStatus(): SyncStatus {
+    return {
+      pendingCount: this.mutations.length,
+      isSyncing: this.isSyncing,
+      lastError: this.lastError,
+    };
+  }
+
+  // Persist first so the write survives the app being killed, then try to
+  // send it straight away
+  async enqueue(kind: MutationKind, payload: any, clientId = createClientId()) {
+    await this.load();
+
+    this.mutations.push({
+      id: clientId,
+      kind,
+      payload,
+      attempts: 0,
+      nextAttemptAt: 0,
+      createdAt: Date.now(),
+    });
+    await this.persist();
+    this.notify();
+
+    await this.flush();
+    return clientId;
+  }
+
+  // Skip any backoff and replay everything now
+  retryNow() {
+    this.mutations.forEach((mutation) => {
+      mutation.nextAttemptAt = 0;
+    });
+    this.flush();
+  }
+
+  async flush(): Promise<void> {
+    await this.load();
+
+    const userId = this.userId;
+    if (!userId) return;
+
+    if (this.isSyncing) {
+      this.flushRequested = true;
+      return;
+    }
+
+    this.isSyncing = true;
+    this.notify();
+
+    try {
+      // Replay in order and stop at the first failure, so later writes never
+      // land before the ones they were queued after
+      while (this.mutations.length > 0) {
+        const mutation = this.mutations[0];
+        const handler = this.handlers[mutation.kind];
+        if (!handler || mutation.nextAttemptAt > Date.now()) break;
+
+        let error: any = null;
+        try {
+          ({ error } = await handler(mutation.payload, mutation.id));
+        } catch (thrown) {
+          error = thrown;
+        }
+        // Signed out or switched accounts mid-write: the mutation stays in
+        // its owner's queue and is sent (again, idempotently) next time
+        if (this.userId !== userId) break;
+
+        if (!error) {
+          this.mutations.shift();
+          this.lastError = undefined;
+        } else {
+          mutation.attempts += 1;
+          mutation.lastError = error.message || String(error);
+          this.lastError = mutation.lastError;
+
+          if (
+            isRejectedByServer(error) &&
+            mutation.attempts >= MAX_REJECTED_ATTEMPTS
+          ) {
+            console.error(
+              `Dropping ${mutation.kind} after repeated rejection:`,
+              error
+            );
+            this.mutations.shift();
+          } else {
+            console.error(`Error syncing ${mutation.kind}, will retry:`, error);
+            mutation.nextAttemptAt =
+              Date.now() +
+              Math.min(
+                BASE_RETRY_DELAY * 2 ** (mutation.attempts - 1),
+                MAX_RETRY_DELAY
+              );
+            await this.persist();
+            break;
+          }
+        }
+
+        await this.persist();
+      }
+    } finally {
+      this.isSyncing = false;
+      this.scheduleRetry();
+      this.notify();
+    }
+
+    if (this.flushRequested) {
+      this.flushRequested = false;
+      await this.flush();
+    }
+  }
+
+  private scheduleRetry() {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    // Mutations without a handler yet wait for registerHandler to flush
+    if (this.mutations.length === 0 || !this.handlers[this.mutations[0].kind]) {
+      return;
+    }
+
+    const delay = Math.max(0, this.mutations[0].nextAttemptAt - Date.now());
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, delay);
+  }
+
+  private load() {
+    if (!this.ready) {
+      const userId = this.userId;
+      this.ready = (async () => {
+        if (!userId) return;
+        try {
+          const stored = await AsyncStorage.getItem(getStorageKey(userId));
+          if (stored && this.userId === userId) {
+            this.mutations = JSON.parse(stored);
+          }
+        } catch (error) {
+          console.error('Error loading sync queue:', error);
+        }
+      })();
+    }
+    return this.ready;
+  }
+
+  private async persist() {
+    if (!this.userId) return;
+    try {
+      await AsyncStorage.setItem(
+        getStorageKey(this.userId),
+        JSON.stringify(this.mutations)
+      );
+    } catch (error) {
+      console.error('Error saving sync queue:', error);
+    }
+  }
+
+  private notify() {
+    const status = this.getStatus();
+    this.listeners.forEach((listener) => listener(status));
+  }
+}
+
+export const syncQueue = new SyncQueue();
@@ -0,0 +1,136 @@
+import { CustomExercise, Exercise, ProgramDayRef } from '@/types/workout';
+import { WorkoutTemplateExercise } from '@/lib/supabase';
+import { GeneratedWorkout } from '@/lib/gemini';
+import { exerciseLibrary } from '@/data/exercises';
+
+// What the builder fills in for a new exercise, and for generated exercises
+// that come without a rest prescription
+export const DEFAULT_TEMPLATE_SETS = 3;
+export const DEFAULT_TEMPLATE_REPS = 10;
+export const DEFAULT_TEMPLATE_REST = 60;
+export const DEFAULT_TEMPLATE_REST_AFTER = 90;
+
+// How long a planned set is assumed to take, in seconds
+export const PLANNED_SET_SECONDS = 45;
+
+const findLibraryExercise = (id: string, name: string): Exercise | undefined =>
+  exerciseLibrary.find((exercise) => exercise.id === id) ||
+  exerciseLibrary.find(
+    (exercise) => exercise.name.toLowerCase() === name.toLowerCase()
+  );
+
+// Stand-in for an exercise the library doesn't know, e.g. one the AI made up
+const buildPlaceholderExercise = (
+  id: string,
+  name: string,
+  muscleGroup: string,
+  equipment: string,
+  description?: string
+): Exercise => ({
+  id,
+  name,
+  muscleGroup,
+  equipment,
+  description: description || 'Exercise description not available',
+  category: 'strength',
+  difficulty: 'beginner',
+  targetMuscles: [],
+  images: { demonstration: '', thumbnail: '' },
+  instructions: { setup: [], execution: [] },
+});
+
+// Builder ids only need to be unique within the workout being edited
+const createBuilderId = (exerciseId: string, index: number) =>
+  `${Date.now()}-${index}-${exerciseId}`;
+
+export const toTemplateExercises = (
+  exercises: CustomExercise[]
+): WorkoutTemplateExercise[] =>
+  exercises.map((ex) => ({
+    exercise_id: ex.exercise.id,
+    name: ex.exercise.name,
+    muscle_group: ex.exercise.muscleGroup,
+    equipment: ex.exercise.equipment,
+    sets: ex.sets,
+    reps: ex.reps,
+    weight: ex.weight,
+    rest_time: ex.restTime,
+    rest_after_exercise: ex.restAfterExercise,
+    group_id: ex.groupId,
+  }));
+
+export const fromTemplateExercises = (
+  exercises: WorkoutTemplateExercise[]
+): CustomExercise[] =>
+  exercises.map((ex, index) => ({
+    id: createBuilderId(ex.exercise_id, index),
+    exercise:
+      findLibraryExercise(ex.exercise_id, ex.name) ||
+      buildPlaceholderExercise(
+        ex.exercise_id,
+        ex.name,
+        ex.muscle_group,
+        ex.equipment
+      ),
+    sets: ex.sets,
+    reps: ex.reps,
+    weight: ex.weight,
+    restTime: ex.rest_time,
+    restAfterExercise: ex.rest_after_exercise,
+    groupId: ex.group_id,
+  }));
+
+// Generated exercises only carry positional ids, so they're matched to the
+// library by name; anything unmatched keeps the AI's own description
+export const fromGeneratedWorkout = (
+  workout: GeneratedWorkout
+): CustomExercise[] =>
+  workout.exercises.map((ex, index) => ({
+    id: createBuilderId(ex.id, index),
+    exercise:
+      findLibraryExercise('', ex.name) ||
+      buildPlaceholderExercise(
+        `generated-${ex.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
+        ex.name,
+        ex.muscleGroup,
+        ex.equipment,
+        ex.instructions
+      ),
+    sets: ex.sets || DEFAULT_TEMPLATE_SETS,
+    reps: ex.reps || DEFAULT_TEMPLATE_REPS,
+    weight: ex.weight || 0,
+    restTime: ex.restTime || DEFAULT_TEMPLATE_REST,
+    restAfterExercise: ex.restAfterExercise || DEFAULT_TEMPLATE_REST_AFTER,
+    groupId: ex.groupId,
+  }));
+
+// Rough length of a planned workout in minutes, at PLANNED_SET_SECONDS per set
+// unless a pace measured during the workout is given
+export const estimateWorkoutDuration = (
+  exercises: Pick<CustomExercise, 'sets' | 'restTime' | 'restAfterExercise'>[],
+  setSeconds = PLANNED_SET_SECONDS
+): number => {
+  const totalSets = exercises.reduce((sum, ex) => sum + ex.sets, 0);
+  // Rest between sets, then before every exercise but the last
+  const totalRestTime = exercises.reduce(
+    (sum, ex, index) =>
+      sum +
+      Math.max(0, ex.sets - 1) * ex.restTime +
+      (index < exercises.length - 1 ? ex.restAfterExercise : 0),
+    0
+  );
+  return Math.round((totalRestTime + totalSets * setSeconds) / 60);
+};
+
+// Route param the active workout screen reads a planned workout from
+export const buildCustomWorkoutData = (
+  name: string,
+  exercises: CustomExercise[],
+  programDay?: ProgramDayRef
+): string =>
+  JSON.stringify({
+    name,
+    exercises,
+    estimatedDuration: estimateWorkoutDuration(exercises),
+    programDay,
+  });
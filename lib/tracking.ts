@@ -0,0 +1,122 @@
+import { Exercise, TrackingMode, WorkoutSet } from '@/types/workout';
+import { WeightUnit, fromKg } from '@/lib/units';
+
+export const TRACKING_MODES: TrackingMode[] = [
+  'reps',
+  'time',
+  'distance',
+  'time_distance',
+  'weight_distance',
+];
+
+export const TRACKING_MODE_LABELS: Record<TrackingMode, string> = {
+  reps: 'Reps',
+  time: 'Time',
+  distance: 'Distance',
+  time_distance: 'Time + Distance',
+  weight_distance: 'Weight + Distance',
+};
+
+// Name patterns for strength exercises that aren't counted in reps
+const TIMED_EXERCISE_PATTERN = /plank|wall sit|\bhold\b|dead hang|hollow body/i;
+const LOADED_CARRY_PATTERN = /farmer|carry|sled|yoke/i;
+
+// How sets of an exercise are logged: an explicit mode wins, then known
+// holds/carries by name, then the exercise category
+export const getTrackingMode = (
+  exercise: Pick<Exercise, 'category'> &
+    Partial<Pick<Exercise, 'name' | 'trackingMode'>>
+): TrackingMode => {
+  if (exercise.trackingMode) return exercise.trackingMode;
+
+  const name = exercise.name || '';
+  if (LOADED_CARRY_PATTERN.test(name)) return 'weight_distance';
+  if (TIMED_EXERCISE_PATTERN.test(name)) return 'time';
+
+  switch (exercise.category) {
+    case 'cardio':
+      return 'time_distance';
+    case 'flexibility':
+      return 'time';
+    default:
+      return 'reps';
+  }
+};
+
+export const tracksReps = (mode: TrackingMode): boolean => mode === 'reps';
+
+export const tracksTime = (mode: TrackingMode): boolean =>
+  mode === 'time' || mode === 'time_distance';
+
+export const tracksDistance = (mode: TrackingMode): boolean =>
+  mode === 'distance' || mode === 'time_distance' || mode === 'weight_distance';
+
+// Rough conversions so timed and distance sets can be compared with rep sets
+const SECONDS_PER_REP = 3;
+const METERS_PER_REP = 5;
+
+export const getEquivalentReps = (set: WorkoutSet): number => {
+  if (set.reps) return set.reps;
+  return Math.max(
+    (set.duration || 0) / SECONDS_PER_REP,
+    (set.distance || 0) / METERS_PER_REP
+  );
+};
+
+// Load × reps for rep sets; timed and distance sets use equivalent reps
+export const getSetVolume = (set: WorkoutSet): number =>
+  (set.weight || 0) * getEquivalentReps(set);
+
+// Bodyweight, cardio and timed sets still tire the muscle: count them
+// against a nominal load (in kg) so they register in the fatigue model
+const UNLOADED_SET_LOAD = 22.5;
+
+export const getFatigueVolume = (set: WorkoutSet): number =>
+  (set.weight || UNLOADED_SET_LOAD) * getEquivalentReps(set);
+
+// A long cardio or mobility block is worth more than one set: every started
+// two minutes (or 400 m) counts as a set for XP
+const SECONDS_PER_XP_SET = 120;
+const METERS_PER_XP_SET = 400;
+
+export const getXPSetCount = (sets: WorkoutSet[]): number =>
+  sets.reduce((total, set) => {
+    if (set.reps) return total + 1;
+    const timeSets = Math.ceil((set.duration || 0) / SECONDS_PER_XP_SET);
+    const distanceSets = Math.ceil((set.distance || 0) / METERS_PER_XP_SET);
+    return total + Math.max(1, timeSets, distanceSets);
+  }, 0);
+
+export const formatDuration = (seconds: number): string => {
+  const total = Math.round(seconds);
+  const mins = Math.floor(total / 60);
+  const secs = total % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+export const formatDistance = (meters: number): string =>
+  meters >= 1000 ? `${(meters / 1000).toFixed(2)} km` : `${meters} m`;
+
+// Short description of a logged set, e.g. "135 × 8", "1:30", "5.00 km in 25:00",
+// with the weight shown in the given unit
+export const formatSetResult = (
+  set: WorkoutSet,
+  unit: WeightUnit = 'kg'
+): string => {
+  const weight = set.weight ? fromKg(set.weight, unit) : 0;
+
+  const parts: string[] = [];
+  if (set.distance) parts.push(formatDistance(set.distance));
+  if (set.duration) {
+    parts.push(
+      set.distance
+        ? `in ${formatDuration(set.duration)}`
+        : formatDuration(set.duration)
+    );
+  }
+  if (set.reps) {
+    return weight ? `${weight} × ${set.reps}` : `${set.reps} reps`;
+  }
+  if (weight) parts.unshift(`${weight} ${unit} ×`);
+  return parts.join(' ');
+};
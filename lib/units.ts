@@ -0,0 +1,35 @@
+// Weights are stored and passed around in kilograms; these helpers convert
+// at the edges, where the user types or reads a number
+export type WeightUnit = 'kg' | 'lb';
+
+export const KG_PER_LB = 0.45359237;
+
+export const WEIGHT_UNIT_LABELS: Record<WeightUnit, string> = {
+  kg: 'Kilograms (kg)',
+  lb: 'Pounds (lb)',
+};
+
+// Step for the +/- buttons: the smallest common plate pair in each unit
+export const WEIGHT_INCREMENTS: Record<WeightUnit, number> = {
+  kg: 2.5,
+  lb: 5,
+};
+
+// Onboarding asks for 'metric' or 'imperial'
+export const getWeightUnitForSystem = (system?: string): WeightUnit =>
+  system === 'metric' ? 'kg' : 'lb';
+
+const roundTo = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+export const toKg = (weight: number, unit: WeightUnit): number =>
+  unit === 'kg' ? weight : roundTo(weight * KG_PER_LB, 3);
+
+// Shown weights are rounded to 0.1 so 100 kg reads as 220.5 lb, not 220.462…
+export const fromKg = (weightKg: number, unit: WeightUnit): number =>
+  unit === 'kg' ? roundTo(weightKg, 2) : roundTo(weightKg / KG_PER_LB, 1);
+
+export const formatWeight = (weightKg: number, unit: WeightUnit): string =>
+  `${fromKg(weightKg, unit)} ${unit}`;
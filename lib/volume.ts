@@ -0,0 +1,99 @@
+import { WorkoutSet } from '@/types/workout';
+import { getWorkingSets } from '@/lib/sets';
+import { Muscle, getExerciseMuscles } from '@/lib/muscles';
+
+// Weekly working sets per muscle: below the minimum rarely drives progress,
+// above the maximum is more than most lifters recover from
+export const MIN_WEEKLY_SETS = 10;
+export const MAX_WEEKLY_SETS = 20;
+
+// An exercise that worked a muscle, with the sets logged for it
+export interface MuscleExercise {
+  id: string;
+  name: string;
+  sets: number;
+}
+
+export interface MuscleVolume {
+  sets: Partial<Record<Muscle, number>>;
+  exercises: Partial<Record<Muscle, MuscleExercise[]>>;
+}
+
+interface VolumeExercise {
+  id: string;
+  name: string;
+  muscleGroup: string;
+  targetMuscles?: string[];
+}
+
+// Working sets per muscle. A set counts in full for the prime movers and by
+// their share for assisting muscles, so a bench press set is a chest set and
+// half a triceps set
+export const countMuscleSets = (
+  sets: WorkoutSet[],
+  exercises: VolumeExercise[]
+): MuscleVolume => {
+  const volume: MuscleVolume = { sets: {}, exercises: {} };
+
+  exercises.forEach((exercise) => {
+    const exerciseSets = getWorkingSets(sets).filter(
+      (set) => set.exerciseId === exercise.id && set.completed
+    ).length;
+    if (exerciseSets === 0) return;
+
+    getExerciseMuscles(exercise).forEach(({ muscle, weight }) => {
+      volume.sets[muscle] = (volume.sets[muscle] || 0) + exerciseSets * weight;
+
+      const muscleExercises = volume.exercises[muscle] || [];
+      const existing = muscleExercises.find((ex) => ex.id === exercise.id);
+      if (existing) {
+        existing.sets += exerciseSets;
+      } else {
+        muscleExercises.push({
+          id: exercise.id,
+          name: exercise.name,
+          sets: exerciseSets,
+        });
+      }
+      volume.exercises[muscle] = muscleExercises;
+    });
+  });
+
+  return volume;
+};
+
+// Adds up volume from several sessions, e.g. the workouts of a week.
+// Exercises are matched by name since ids are only unique within a workout
+export const mergeMuscleVolume = (volumes: MuscleVolume[]): MuscleVolume =>
+  volumes.reduce<MuscleVolume>(
+    (total, volume) => {
+      (Object.keys(volume.sets) as Muscle[]).forEach((muscle) => {
+        total.sets[muscle] =
+          (total.sets[muscle] || 0) + (volume.sets[muscle] || 0);
+
+        const muscleExercises = total.exercises[muscle] || [];
+        (volume.exercises[muscle] || []).forEach((exercise) => {
+          const existing = muscleExercises.find(
+            (ex) => ex.name === exercise.name
+          );
+          if (existing) {
+            existing.sets += exercise.sets;
+          } else {
+            muscleExercises.push({ ...exercise });
+          }
+        });
+        total.exercises[muscle] = muscleExercises.sort(
+          (a, b) => b.sets - a.sets
+        );
+      });
+      return total;
+    },
+    { sets: {}, exercises: {} }
+  );
+
+export const getVolumeColor = (sets: number): string => {
+  if (sets < MIN_WEEKLY_SETS / 2) return '#93C5FD'; // Barely trained
+  if (sets < MIN_WEEKLY_SETS) return '#60A5FA';
+  if (sets <= MAX_WEEKLY_SETS) return '#2563EB';
+  return '#7C3AED'; // Above what most recover from
+};
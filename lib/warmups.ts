@@ -0,0 +1,85 @@
+import { Exercise, WorkoutSet } from '@/types/workout';
+import { getWorkingSets } from '@/lib/sets';
+import { WeightUnit, toKg } from '@/lib/units';
+import { getLoadingIncrement, roundToIncrement } from '@/lib/progression';
+import { BAR_WEIGHTS } from '@/lib/plates';
+
+export interface WarmupStep {
+  weight: number; // kg
+  reps: number;
+}
+
+// Multi-joint lifts worth ramping up to; isolation work warms up in its
+// own first set
+const COMPOUND_PATTERN =
+  /squat|deadlift|press|row|pull-?up|chin-?up|lunge|clean|snatch|thrust|dip|good morning/i;
+
+// Percentages of the working weight, with fewer reps as the load climbs so
+// the ramp primes without tiring. Barbell ramps start with the empty bar
+const BARBELL_RAMP = [
+  { percent: 0, reps: 10 },
+  { percent: 0.4, reps: 5 },
+  { percent: 0.6, reps: 3 },
+  { percent: 0.8, reps: 2 },
+];
+
+const DUMBBELL_RAMP = [
+  { percent: 0.5, reps: 8 },
+  { percent: 0.7, reps: 4 },
+  { percent: 0.85, reps: 2 },
+];
+
+const isBarbell = (equipment: string) =>
+  equipment.toLowerCase().includes('barbell');
+
+const isDumbbell = (equipment: string) =>
+  equipment.toLowerCase().includes('dumbbell');
+
+export const isHeavyCompound = (
+  exercise: Pick<Exercise, 'name' | 'equipment'>
+): boolean =>
+  (isBarbell(exercise.equipment) || isDumbbell(exercise.equipment)) &&
+  COMPOUND_PATTERN.test(exercise.name);
+
+// Only the first heavy lift for a muscle group gets a ramp: once any working
+// set has trained that group this session the muscles are already warm
+export const needsWarmupRamp = (
+  exercise: Pick<Exercise, 'id' | 'name' | 'equipment' | 'muscleGroup'>,
+  exercises: Pick<Exercise, 'id' | 'muscleGroup'>[],
+  sets: WorkoutSet[]
+): boolean => {
+  if (!isHeavyCompound(exercise)) return false;
+  const trainedIds = new Set(
+    getWorkingSets(sets)
+      .filter((set) => set.completed)
+      .map((set) => set.exerciseId)
+  );
+  return !exercises.some(
+    (other) =>
+      other.muscleGroup === exercise.muscleGroup && trainedIds.has(other.id)
+  );
+};
+
+// Warm-up sets leading to `workingWeight`, rounded to loadable weights. Steps
+// that round to the working weight or repeat the previous load are dropped
+export const buildWarmupRamp = (
+  exercise: Pick<Exercise, 'equipment'>,
+  workingWeight: number,
+  unit: WeightUnit
+): WarmupStep[] => {
+  const barbell = isBarbell(exercise.equipment);
+  const barWeight = toKg(BAR_WEIGHTS[unit], unit);
+  if (!workingWeight || (barbell && workingWeight <= barWeight)) return [];
+
+  const increment = getLoadingIncrement(barbell ? 'barbell' : 'dumbbell', unit);
+  const steps: WarmupStep[] = [];
+  (barbell ? BARBELL_RAMP : DUMBBELL_RAMP).forEach(({ percent, reps }) => {
+    const rounded = roundToIncrement(workingWeight * percent, increment, unit);
+    const weight = barbell ? Math.max(barWeight, rounded) : rounded;
+    const previous = steps[steps.length - 1];
+    if (weight <= 0 || weight >= workingWeight) return;
+    if (previous && weight <= previous.weight) return;
+    steps.push({ weight, reps });
+  });
+  return steps;
+};
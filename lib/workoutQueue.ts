@@ -0,0 +1,77 @@
+import { Exercise } from '@/types/workout';
+import { getGroupIndices } from '@/lib/supersets';
+
+// First and last index of the superset/circuit (or lone exercise) at `index`
+const getBlock = (
+  exercises: Pick<Exercise, 'groupId'>[],
+  index: number
+): [number, number] => {
+  const group = getGroupIndices(exercises, index);
+  return [Math.min(...group), Math.max(...group)];
+};
+
+// Move an exercise one place up or down the queue. Grouped exercises move
+// together so a superset never gets split by the exercise passing it
+export const moveExercise = <T extends Pick<Exercise, 'groupId'>>(
+  exercises: T[],
+  index: number,
+  direction: -1 | 1
+): T[] => {
+  const [start, end] = getBlock(exercises, index);
+  const neighbourIndex = direction === -1 ? start - 1 : end + 1;
+  if (neighbourIndex < 0 || neighbourIndex >= exercises.length) {
+    return exercises;
+  }
+
+  const [neighbourStart, neighbourEnd] = getBlock(exercises, neighbourIndex);
+  const moving = exercises.slice(start, end + 1);
+  const passed = exercises.slice(neighbourStart, neighbourEnd + 1);
+
+  return direction === -1
+    ? [
+        ...exercises.slice(0, neighbourStart),
+        ...moving,
+        ...passed,
+        ...exercises.slice(end + 1),
+      ]
+    : [
+        ...exercises.slice(0, start),
+        ...passed,
+        ...moving,
+        ...exercises.slice(neighbourEnd + 1),
+      ];
+};
+
+// Where an added exercise goes: straight after the current exercise and
+// anything it is grouped with
+export const getInsertIndexAfter = (
+  exercises: Pick<Exercise, 'groupId'>[],
+  index: number
+): number => getBlock(exercises, index)[1] + 1;
+
+// Library exercises for the same muscle group, same equipment first,
+// leaving out anything already in the workout
+export const getAlternativeExercises = (
+  exercise: Pick<Exercise, 'name' | 'muscleGroup' | 'equipment'>,
+  library: Exercise[],
+  workoutExercises: Pick<Exercise, 'name'>[]
+): Exercise[] =>
+  library
+    .filter(
+      (candidate) =>
+        candidate.muscleGroup === exercise.muscleGroup &&
+        !workoutExercises.some((ex) => ex.name === candidate.name)
+    )
+    .sort(
+      (a, b) =>
+        Number(b.equipment === exercise.equipment) -
+        Number(a.equipment === exercise.equipment)
+    );
+
+// Logged sets are matched to exercises by id, so the same library exercise
+// added twice needs an id of its own
+export const getUniqueExerciseId = (
+  id: string,
+  exercises: Pick<Exercise, 'id'>[]
+): string =>
+  exercises.some((exercise) => exercise.id === id) ? `${id}-${Date.now()}` : id;
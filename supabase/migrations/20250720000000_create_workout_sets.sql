@@ -0,0 +1,73 @@
+/*
+  # Create per-set workout log
+
+  1. New Tables
+    - `workout_sets`
+      - `id` (uuid, primary key)
+      - `workout_id` (uuid, references workouts)
+      - `user_id` (uuid, references profiles)
+      - `exercise_id` (text)
+      - `exercise_name` (text)
+      - `set_number` (integer, 1-based within the exercise)
+      - `weight` (decimal)
+      - `reps` (integer)
+      - `duration` (integer, in seconds)
+      - `rest_time` (integer, in seconds)
+      - `completed` (boolean, default true)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS
+    - Add policies for authenticated users to manage their own sets
+*/
+
+-- Create workout_sets table
+CREATE TABLE IF NOT EXISTS workout_sets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  workout_id uuid REFERENCES workouts(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE,
+  exercise_id text NOT NULL,
+  exercise_name text NOT NULL,
+  set_number integer NOT NULL,
+  weight decimal,
+  reps integer,
+  duration integer,
+  rest_time integer,
+  completed boolean DEFAULT true,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Indexes for loading a workout's sets and an exercise's history
+CREATE INDEX IF NOT EXISTS workout_sets_workout_id_idx
+  ON workout_sets (workout_id);
+
+CREATE INDEX IF NOT EXISTS workout_sets_user_exercise_idx
+  ON workout_sets (user_id, exercise_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE workout_sets ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for workout_sets
+CREATE POLICY "Users can read own workout sets"
+  ON workout_sets
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own workout sets"
+  ON workout_sets
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own workout sets"
+  ON workout_sets
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own workout sets"
+  ON workout_sets
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
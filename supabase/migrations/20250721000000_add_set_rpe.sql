@@ -0,0 +1,4 @@
+-- Add optional rate of perceived exertion to logged sets
+-- RPE runs 6-10; reps-in-reserve entries are stored as 10 - RIR
+ALTER TABLE workout_sets
+ADD COLUMN IF NOT EXISTS rpe decimal CHECK (rpe IS NULL OR (rpe >= 6 AND rpe <= 10));
@@ -0,0 +1,5 @@
+-- Distinguish warm-up, working, drop, failure and AMRAP sets
+-- Warm-up sets are excluded from XP and personal records
+ALTER TABLE workout_sets
+ADD COLUMN IF NOT EXISTS set_type text DEFAULT 'working'
+  CHECK (set_type IN ('warmup', 'working', 'drop', 'failure', 'amrap'));
@@ -0,0 +1,4 @@
+-- Distance (in meters) for runs, rows, carries and other distance-based sets
+-- Timed sets such as planks already use the duration column (in seconds)
+ALTER TABLE workout_sets
+ADD COLUMN IF NOT EXISTS distance decimal CHECK (distance >= 0);
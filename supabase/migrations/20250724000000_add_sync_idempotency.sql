@@ -0,0 +1,77 @@
+/*
+  # Idempotent writes for the offline sync queue
+
+  Writes made while offline are queued on the device and replayed later,
+  possibly more than once. Each queued write carries a client-generated id so
+  a replay never creates a duplicate row or awards XP twice.
+
+  1. Changes
+    - `client_id` (text, unique) on `workouts`, `workout_sets` and
+      `personal_records`
+    - `user_achievements` is already unique per user and achievement
+
+  2. New Tables
+    - `xp_events`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `client_id` (text, unique)
+      - `amount` (integer)
+      - `created_at` (timestamp)
+
+  3. Functions
+    - `award_xp(p_client_id, p_amount)` adds XP to the caller's profile and
+      recalculates their level, once per client id
+
+  4. Security
+    - Enable RLS on `xp_events` with a read policy for the owner; rows are
+      only written through `award_xp`
+*/
+
+ALTER TABLE workouts ADD COLUMN IF NOT EXISTS client_id text UNIQUE;
+ALTER TABLE workout_sets ADD COLUMN IF NOT EXISTS client_id text UNIQUE;
+ALTER TABLE personal_records ADD COLUMN IF NOT EXISTS client_id text UNIQUE;
+
+-- Create xp_events table
+CREATE TABLE IF NOT EXISTS xp_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE,
+  client_id text UNIQUE NOT NULL,
+  amount integer NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE xp_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own xp events"
+  ON xp_events
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Create function to award XP exactly once per client id
+CREATE OR REPLACE FUNCTION award_xp(p_client_id text, p_amount integer)
+RETURNS profiles AS $$
+DECLARE
+  updated_profile profiles;
+BEGIN
+  INSERT INTO xp_events (user_id, client_id, amount)
+  VALUES (auth.uid(), p_client_id, p_amount)
+  ON CONFLICT (client_id) DO NOTHING;
+
+  IF FOUND THEN
+    -- Same curve as calculateLevelFromXP: 100 * (level - 1) * level / 2
+    UPDATE profiles
+    SET
+      total_xp = total_xp + p_amount,
+      level = GREATEST(
+        1,
+        floor((1 + sqrt(1 + 8 * (total_xp + p_amount) / 100.0)) / 2)::integer
+      )
+    WHERE id = auth.uid();
+  END IF;
+
+  SELECT * INTO updated_profile FROM profiles WHERE id = auth.uid();
+  RETURN updated_profile;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
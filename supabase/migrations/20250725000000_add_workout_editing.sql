@@ -0,0 +1,303 @@
+/*
+  # Edit and delete past workouts
+
+  Fixing a mistyped set or removing a duplicate workout changes everything
+  derived from it, so both go through functions that rewrite the workout and
+  then recompute the caller's stats in one transaction.
+
+  1. Changes
+    - Workout feed entries now carry `workout_id` in `activity_data` so they
+      can be updated or removed along with their workout
+    - `personal_records.legacy` (boolean) marks records set before the user
+      logged any sets. They can't be rebuilt from `workout_sets`, so rebuilds
+      keep them and only count them as the best to beat
+
+  2. Functions
+    - `rebuild_personal_records(p_user_id, p_exercise_names)` replaces the PR
+      history of the given exercises with the one implied by the logged sets,
+      on top of any legacy records.
+      Exercises are matched by name: generated workouts number their
+      exercises by position, so one id can stand for different exercises
+    - `recompute_streaks(p_user_id, p_timezone)` replays workout days with the
+      same rules as updateStreak: consecutive days extend the streak, one rest
+      day keeps it and a longer gap resets it
+    - `adjust_workout_xp(p_user_id, p_delta)` shifts `total_xp` and
+      recalculates `level`
+    - `update_workout(p_workout_id, p_workout, p_sets, p_timezone)` replaces a
+      workout's sets, notes, set count and XP; with `p_sets` null only the
+      notes change
+    - `delete_workout(p_workout_id, p_timezone)` removes a workout and its
+      sets and feed entry
+    - Both adjust XP by the change in the workout's XP, rebuild PRs for the
+      workout's exercises and recompute streaks; XP from achievements is
+      left alone
+*/
+
+-- Include the workout id in new workout feed entries
+CREATE OR REPLACE FUNCTION create_workout_activity()
+RETURNS trigger AS $$
+DECLARE
+  user_profile profiles;
+BEGIN
+  -- Get user profile
+  SELECT * INTO user_profile FROM profiles WHERE id = NEW.user_id;
+
+  -- Create workout activity
+  INSERT INTO user_activities (user_id, activity_type, activity_data)
+  VALUES (
+    NEW.user_id,
+    'workout',
+    json_build_object(
+      'action', 'completed a workout',
+      'username', user_profile.username,
+      'workout_id', NEW.id,
+      'duration', NEW.duration,
+      'sets', NEW.total_sets,
+      'xp_gained', NEW.xp_gained
+    )
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Records from before a user's first logged set have no sets behind them
+ALTER TABLE personal_records
+  ADD COLUMN IF NOT EXISTS legacy boolean NOT NULL DEFAULT false;
+
+UPDATE personal_records pr
+SET legacy = true
+WHERE pr.created_at < COALESCE(
+  (SELECT min(ws.created_at) FROM workout_sets ws WHERE ws.user_id = pr.user_id),
+  'infinity'
+);
+
+-- Recreate PR rows from the sets: one row every time an exercise's heaviest
+-- completed working set beat every earlier workout and legacy record
+CREATE OR REPLACE FUNCTION rebuild_personal_records(
+  p_user_id uuid,
+  p_exercise_names text[]
+)
+RETURNS void AS $$
+BEGIN
+  DELETE FROM personal_records
+  WHERE user_id = p_user_id
+    AND exercise_name = ANY(p_exercise_names)
+    AND NOT legacy;
+
+  INSERT INTO personal_records (user_id, exercise_id, exercise_name, weight, reps, date)
+  SELECT p_user_id, exercise_id, exercise_name, weight, reps, date
+  FROM (
+    SELECT
+      best.*,
+      max(best.weight) OVER (
+        PARTITION BY best.exercise_name
+        ORDER BY best.date
+        ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+      ) AS previous_best
+    FROM (
+      (SELECT DISTINCT ON (ws.exercise_name, w.id)
+          ws.exercise_id, ws.exercise_name, ws.weight, ws.reps, w.date,
+          false AS legacy
+        FROM workout_sets ws
+        JOIN workouts w ON w.id = ws.workout_id
+        WHERE ws.user_id = p_user_id
+          AND ws.exercise_name = ANY(p_exercise_names)
+          AND ws.completed
+          AND ws.weight > 0
+          AND COALESCE(ws.set_type, 'working') <> 'warmup'
+        ORDER BY ws.exercise_name, w.id, ws.weight DESC, ws.reps DESC NULLS LAST)
+
+      UNION ALL
+
+      SELECT exercise_id, exercise_name, weight, reps, date, true
+      FROM personal_records
+      WHERE user_id = p_user_id
+        AND exercise_name = ANY(p_exercise_names)
+        AND legacy
+    ) best
+  ) history
+  WHERE NOT legacy AND (previous_best IS NULL OR weight > previous_best);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION recompute_streaks(
+  p_user_id uuid,
+  p_timezone text DEFAULT 'UTC'
+)
+RETURNS void AS $$
+DECLARE
+  workout_day date;
+  previous_day date;
+  streak integer := 0;
+  longest integer := 0;
+BEGIN
+  FOR workout_day IN
+    SELECT DISTINCT (date AT TIME ZONE p_timezone)::date AS day
+    FROM workouts
+    WHERE user_id = p_user_id
+    ORDER BY day
+  LOOP
+    IF previous_day IS NULL OR workout_day - previous_day > 2 THEN
+      streak := 1;
+    ELSIF workout_day - previous_day = 1 THEN
+      streak := streak + 1;
+    END IF;
+
+    longest := GREATEST(longest, streak);
+    previous_day := workout_day;
+  END LOOP;
+
+  UPDATE profiles
+  SET
+    current_streak = streak,
+    longest_streak = longest,
+    last_workout_date = previous_day
+  WHERE id = p_user_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Shift a user's XP by a workout's change in XP and recalculate their level
+CREATE OR REPLACE FUNCTION adjust_workout_xp(p_user_id uuid, p_delta integer)
+RETURNS void AS $$
+BEGIN
+  -- Same curve as calculateLevelFromXP: 100 * (level - 1) * level / 2
+  UPDATE profiles
+  SET
+    total_xp = GREATEST(0, total_xp + p_delta),
+    level = GREATEST(
+      1,
+      floor((1 + sqrt(1 + 8 * GREATEST(0, total_xp + p_delta) / 100.0)) / 2)::integer
+    )
+  WHERE id = p_user_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Replace a workout's sets and summary; replaying it is a no-op
+CREATE OR REPLACE FUNCTION update_workout(
+  p_workout_id uuid,
+  p_workout jsonb,
+  p_sets jsonb,
+  p_timezone text DEFAULT 'UTC'
+)
+RETURNS profiles AS $$
+DECLARE
+  old_workout workouts;
+  new_xp integer;
+  exercise_names text[];
+  updated_profile profiles;
+BEGIN
+  SELECT * INTO old_workout
+  FROM workouts
+  WHERE id = p_workout_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Workout % not found', p_workout_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT array_agg(DISTINCT exercise_name) INTO exercise_names
+  FROM workout_sets
+  WHERE workout_id = p_workout_id;
+
+  new_xp := COALESCE((p_workout->>'xp_gained')::integer, old_workout.xp_gained);
+
+  UPDATE workouts
+  SET
+    total_sets = COALESCE((p_workout->>'total_sets')::integer, total_sets),
+    xp_gained = new_xp,
+    notes = CASE WHEN p_workout ? 'notes' THEN p_workout->>'notes' ELSE notes END
+  WHERE id = p_workout_id;
+
+  -- Without sets (a notes-only edit) the logged sets are left alone
+  IF p_sets IS NOT NULL THEN
+    DELETE FROM workout_sets WHERE workout_id = p_workout_id;
+
+    INSERT INTO workout_sets (
+      workout_id, user_id, exercise_id, exercise_name, set_number, weight, reps,
+      duration, distance, rest_time, rpe, set_type, completed, created_at
+    )
+    SELECT
+      p_workout_id, auth.uid(), exercise_id, exercise_name, set_number, weight,
+      reps, duration, distance, rest_time, rpe, COALESCE(set_type, 'working'),
+      COALESCE(completed, true), old_workout.date
+    FROM jsonb_to_recordset(p_sets) AS s(
+      exercise_id text,
+      exercise_name text,
+      set_number integer,
+      weight decimal,
+      reps integer,
+      duration integer,
+      distance decimal,
+      rest_time integer,
+      rpe decimal,
+      set_type text,
+      completed boolean
+    );
+  END IF;
+
+  UPDATE user_activities
+  SET activity_data = activity_data || jsonb_build_object(
+    'sets', COALESCE((p_workout->>'total_sets')::integer, old_workout.total_sets),
+    'xp_gained', new_xp
+  )
+  WHERE user_id = auth.uid()
+    AND activity_type = 'workout'
+    AND activity_data->>'workout_id' = p_workout_id::text;
+
+  PERFORM adjust_workout_xp(auth.uid(), new_xp - COALESCE(old_workout.xp_gained, 0));
+
+  IF p_sets IS NOT NULL THEN
+    SELECT array_agg(DISTINCT name) INTO exercise_names
+    FROM (
+      SELECT unnest(COALESCE(exercise_names, '{}')) AS name
+      UNION
+      SELECT exercise_name FROM jsonb_to_recordset(p_sets) AS s(exercise_name text)
+    ) names;
+    PERFORM rebuild_personal_records(auth.uid(), COALESCE(exercise_names, '{}'));
+  END IF;
+
+  PERFORM recompute_streaks(auth.uid(), p_timezone);
+
+  SELECT * INTO updated_profile FROM profiles WHERE id = auth.uid();
+  RETURN updated_profile;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Remove a workout and everything derived from it; deleting twice is a no-op
+CREATE OR REPLACE FUNCTION delete_workout(
+  p_workout_id uuid,
+  p_timezone text DEFAULT 'UTC'
+)
+RETURNS profiles AS $$
+DECLARE
+  old_workout workouts;
+  exercise_names text[];
+  updated_profile profiles;
+BEGIN
+  SELECT * INTO old_workout
+  FROM workouts
+  WHERE id = p_workout_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF FOUND THEN
+    SELECT array_agg(DISTINCT exercise_name) INTO exercise_names
+    FROM workout_sets
+    WHERE workout_id = p_workout_id;
+
+    -- workout_sets are removed by ON DELETE CASCADE
+    DELETE FROM workouts WHERE id = p_workout_id;
+
+    DELETE FROM user_activities
+    WHERE user_id = auth.uid()
+      AND activity_type = 'workout'
+      AND activity_data->>'workout_id' = p_workout_id::text;
+
+    PERFORM adjust_workout_xp(auth.uid(), -COALESCE(old_workout.xp_gained, 0));
+    PERFORM rebuild_personal_records(auth.uid(), COALESCE(exercise_names, '{}'));
+    PERFORM recompute_streaks(auth.uid(), p_timezone);
+  END IF;
+
+  SELECT * INTO updated_profile FROM profiles WHERE id = auth.uid();
+  RETURN updated_profile;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,41 @@
+/*
+  # Store weights in kilograms
+
+  The app now lets users log and read weights in kg or lb, and converts at
+  the edges. Everything stored is in kg; until now weights were entered and
+  shown as pounds, so existing rows are converted once.
+
+  1. Changes
+    - Convert `workout_sets.weight`, `personal_records.weight` and the
+      per-exercise `weight` inside `workouts.exercises` from lb to kg
+    - Document the unit on the weight columns
+*/
+
+UPDATE workout_sets
+SET weight = round(weight * 0.45359237, 3)
+WHERE weight IS NOT NULL;
+
+UPDATE personal_records
+SET weight = round(weight * 0.45359237, 3)
+WHERE weight IS NOT NULL;
+
+UPDATE workouts
+SET exercises = (
+  SELECT jsonb_agg(
+    CASE
+      WHEN jsonb_typeof(exercise->'weight') = 'number' THEN
+        jsonb_set(
+          exercise,
+          '{weight}',
+          to_jsonb(round((exercise->>'weight')::numeric * 0.45359237, 3))
+        )
+      ELSE exercise
+    END
+    ORDER BY position
+  )
+  FROM jsonb_array_elements(exercises) WITH ORDINALITY AS e(exercise, position)
+)
+WHERE jsonb_typeof(exercises) = 'array';
+
+COMMENT ON COLUMN workout_sets.weight IS 'Weight in kg';
+COMMENT ON COLUMN personal_records.weight IS 'Weight in kg';
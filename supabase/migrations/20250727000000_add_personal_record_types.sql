@@ -0,0 +1,140 @@
+/*
+  # Personal record kinds
+
+  A PR used to mean a heavier weight than before, so more reps at the same
+  weight or a bigger volume day never counted. Records now have a kind and
+  the value that was beaten.
+
+  1. Changes
+    - `personal_records`
+      - `record_type` (text): `weight`, `e1rm` (estimated one-rep max),
+        `reps` (most reps at one weight), `set_volume` (weight × reps in one
+        set) or `session_volume` (weight × reps over one workout)
+      - `value` (decimal): kg for weights and volumes, reps for rep records
+    - Existing records become `weight` records
+
+  2. Functions
+    - `estimate_one_rep_max(p_weight, p_reps)` matches the app: Brzycki up to
+      10 reps, Epley above
+    - `rebuild_personal_records` now rebuilds every kind; legacy records stay
+      and are still the weight records to beat
+*/
+
+ALTER TABLE personal_records
+  ADD COLUMN IF NOT EXISTS record_type text NOT NULL DEFAULT 'weight'
+    CHECK (record_type IN ('weight', 'e1rm', 'reps', 'set_volume', 'session_volume')),
+  ADD COLUMN IF NOT EXISTS value decimal;
+
+UPDATE personal_records
+SET value = COALESCE(weight, reps, 0)
+WHERE value IS NULL;
+
+ALTER TABLE personal_records ALTER COLUMN value SET NOT NULL;
+
+COMMENT ON COLUMN personal_records.value IS 'kg for weight, e1rm and volume records; reps for rep records';
+
+CREATE OR REPLACE FUNCTION estimate_one_rep_max(p_weight decimal, p_reps integer)
+RETURNS decimal AS $$
+  SELECT CASE
+    WHEN p_weight IS NULL OR p_weight <= 0 OR p_reps IS NULL OR p_reps <= 0 THEN 0
+    WHEN p_reps = 1 THEN p_weight
+    WHEN p_reps <= 10 THEN round(p_weight * 36 / (37 - p_reps), 1)
+    ELSE round(p_weight * (1 + p_reps / 30.0), 1)
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Recreate PR rows from the sets: one row every time a workout beat every
+-- earlier workout and legacy record for a record kind (rep records are
+-- compared per weight). Exercises are matched by name, as before
+CREATE OR REPLACE FUNCTION rebuild_personal_records(
+  p_user_id uuid,
+  p_exercise_names text[]
+)
+RETURNS void AS $$
+BEGIN
+  DELETE FROM personal_records
+  WHERE user_id = p_user_id
+    AND exercise_name = ANY(p_exercise_names)
+    AND NOT legacy;
+
+  INSERT INTO personal_records (
+    user_id, exercise_id, exercise_name, record_type, value, weight, reps, date
+  )
+  WITH working AS (
+    SELECT
+      ws.exercise_id, ws.exercise_name, COALESCE(ws.weight, 0) AS weight,
+      ws.reps, w.id AS workout_id, w.date
+    FROM workout_sets ws
+    JOIN workouts w ON w.id = ws.workout_id
+    WHERE ws.user_id = p_user_id
+      AND ws.exercise_name = ANY(p_exercise_names)
+      AND ws.completed
+      AND ws.reps > 0
+      AND COALESCE(ws.set_type, 'working') <> 'warmup'
+  ),
+  candidates AS (
+    (SELECT DISTINCT ON (exercise_name, workout_id)
+        exercise_id, exercise_name, 'weight' AS record_type, weight AS value,
+        weight, reps, date, false AS legacy
+      FROM working
+      WHERE weight > 0
+      ORDER BY exercise_name, workout_id, weight DESC, reps DESC)
+
+    UNION ALL
+
+    (SELECT DISTINCT ON (exercise_name, workout_id)
+        exercise_id, exercise_name, 'e1rm', estimate_one_rep_max(weight, reps),
+        weight, reps, date, false
+      FROM working
+      WHERE weight > 0 AND reps <= 12
+      ORDER BY exercise_name, workout_id, estimate_one_rep_max(weight, reps) DESC)
+
+    UNION ALL
+
+    SELECT min(exercise_id), exercise_name, 'reps', max(reps), weight,
+      max(reps), min(date), false
+    FROM working
+    GROUP BY exercise_name, workout_id, weight
+
+    UNION ALL
+
+    (SELECT DISTINCT ON (exercise_name, workout_id)
+        exercise_id, exercise_name, 'set_volume', round(weight * reps, 1),
+        weight, reps, date, false
+      FROM working
+      WHERE weight > 0
+      ORDER BY exercise_name, workout_id, weight * reps DESC)
+
+    UNION ALL
+
+    SELECT min(exercise_id), exercise_name, 'session_volume',
+      round(sum(weight * reps), 1), NULL, NULL, min(date), false
+    FROM working
+    WHERE weight > 0
+    GROUP BY exercise_name, workout_id
+
+    UNION ALL
+
+    SELECT exercise_id, exercise_name, record_type, value, COALESCE(weight, 0),
+      reps, date, true
+    FROM personal_records
+    WHERE user_id = p_user_id
+      AND exercise_name = ANY(p_exercise_names)
+      AND legacy
+  )
+  SELECT p_user_id, exercise_id, exercise_name, record_type, value,
+    NULLIF(weight, 0), reps, date
+  FROM (
+    SELECT
+      candidates.*,
+      max(value) OVER (
+        PARTITION BY exercise_name, record_type,
+          CASE WHEN record_type = 'reps' THEN weight END
+        ORDER BY date
+        ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+      ) AS previous_best
+    FROM candidates
+  ) history
+  WHERE NOT legacy AND (previous_best IS NULL OR value > previous_best);
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,107 @@
+/*
+  # Set notes
+
+  Sets can carry a short note ("left shoulder twinged"). Exercise notes
+  ("seat at notch 4") are kept with each exercise in `workouts.exercises`.
+
+  1. Changes
+    - `workout_sets.note` (text)
+
+  2. Functions
+    - `update_workout` keeps set notes when a workout is edited
+*/
+
+ALTER TABLE workout_sets
+ADD COLUMN IF NOT EXISTS note text;
+
+-- Same as before, with the note column carried over from the edited sets
+CREATE OR REPLACE FUNCTION update_workout(
+  p_workout_id uuid,
+  p_workout jsonb,
+  p_sets jsonb,
+  p_timezone text DEFAULT 'UTC'
+)
+RETURNS profiles AS $$
+DECLARE
+  old_workout workouts;
+  new_xp integer;
+  exercise_names text[];
+  updated_profile profiles;
+BEGIN
+  SELECT * INTO old_workout
+  FROM workouts
+  WHERE id = p_workout_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Workout % not found', p_workout_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT array_agg(DISTINCT exercise_name) INTO exercise_names
+  FROM workout_sets
+  WHERE workout_id = p_workout_id;
+
+  new_xp := COALESCE((p_workout->>'xp_gained')::integer, old_workout.xp_gained);
+
+  UPDATE workouts
+  SET
+    total_sets = COALESCE((p_workout->>'total_sets')::integer, total_sets),
+    xp_gained = new_xp,
+    notes = CASE WHEN p_workout ? 'notes' THEN p_workout->>'notes' ELSE notes END
+  WHERE id = p_workout_id;
+
+  -- Without sets (a notes-only edit) the logged sets are left alone
+  IF p_sets IS NOT NULL THEN
+    DELETE FROM workout_sets WHERE workout_id = p_workout_id;
+
+    INSERT INTO workout_sets (
+      workout_id, user_id, exercise_id, exercise_name, set_number, weight, reps,
+      duration, distance, rest_time, rpe, set_type, note, completed, created_at
+    )
+    SELECT
+      p_workout_id, auth.uid(), exercise_id, exercise_name, set_number, weight,
+      reps, duration, distance, rest_time, rpe, COALESCE(set_type, 'working'),
+      NULLIF(btrim(note), ''), COALESCE(completed, true), old_workout.date
+    FROM jsonb_to_recordset(p_sets) AS s(
+      exercise_id text,
+      exercise_name text,
+      set_number integer,
+      weight decimal,
+      reps integer,
+      duration integer,
+      distance decimal,
+      rest_time integer,
+      rpe decimal,
+      set_type text,
+      note text,
+      completed boolean
+    );
+  END IF;
+
+  UPDATE user_activities
+  SET activity_data = activity_data || jsonb_build_object(
+    'sets', COALESCE((p_workout->>'total_sets')::integer, old_workout.total_sets),
+    'xp_gained', new_xp
+  )
+  WHERE user_id = auth.uid()
+    AND activity_type = 'workout'
+    AND activity_data->>'workout_id' = p_workout_id::text;
+
+  PERFORM adjust_workout_xp(auth.uid(), new_xp - COALESCE(old_workout.xp_gained, 0));
+
+  IF p_sets IS NOT NULL THEN
+    SELECT array_agg(DISTINCT name) INTO exercise_names
+    FROM (
+      SELECT unnest(COALESCE(exercise_names, '{}')) AS name
+      UNION
+      SELECT exercise_name FROM jsonb_to_recordset(p_sets) AS s(exercise_name text)
+    ) names;
+    PERFORM rebuild_personal_records(auth.uid(), COALESCE(exercise_names, '{}'));
+  END IF;
+
+  PERFORM recompute_streaks(auth.uid(), p_timezone);
+
+  SELECT * INTO updated_profile FROM profiles WHERE id = auth.uid();
+  RETURN updated_profile;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
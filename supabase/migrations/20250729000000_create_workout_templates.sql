@@ -0,0 +1,67 @@
+/*
+  # Create workout templates
+
+  Custom workouts were only ever passed to the active workout screen, so the
+  same routine had to be rebuilt every time. Templates keep them on the
+  account.
+
+  1. New Tables
+    - `workout_templates`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `client_id` (text, unique): created on the device, so queued saves
+        and edits of a template that hasn't synced yet land on the same row
+      - `name` (text)
+      - `exercises` (jsonb): exercises with their sets, reps, weight (kg),
+        rest and superset group, in order
+      - `source` (text): `custom` or `ai` for templates started from a
+        generated workout
+      - `notes` (text)
+      - `created_at`, `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS
+    - Add policies for authenticated users to manage their own templates
+*/
+
+CREATE TABLE IF NOT EXISTS workout_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  client_id text UNIQUE NOT NULL,
+  name text NOT NULL,
+  exercises jsonb NOT NULL DEFAULT '[]',
+  source text NOT NULL DEFAULT 'custom' CHECK (source IN ('custom', 'ai')),
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS workout_templates_user_idx
+  ON workout_templates (user_id, updated_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE workout_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own workout templates"
+  ON workout_templates
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own workout templates"
+  ON workout_templates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own workout templates"
+  ON workout_templates
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own workout templates"
+  ON workout_templates
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
@@ -0,0 +1,84 @@
+/*
+  # Create training programs
+
+  A program repeats a week of template days for a set number of weeks,
+  progressing load and volume from week to week with scheduled deloads.
+  Each user follows at most one program at a time.
+
+  1. New Tables
+    - `training_programs`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `client_id` (text, unique): created on the device, like templates
+      - `name` (text)
+      - `days` (jsonb): the training days of a week in order, each
+        referencing a workout template by its `client_id`
+      - `length_weeks` (integer)
+      - `deload_every` (integer): every nth week is a deload; 0 for none
+      - `weekly_load_increase` (numeric): percent added to working weights
+        per progressing week
+      - `volume_increase_every` (integer): weeks between extra sets per
+        exercise; 0 for none
+      - `is_active` (boolean): the program the user is following
+      - `current_week`, `current_day` (integer): the next day to train,
+        both 1-based
+      - `started_at`, `completed_at` (timestamp)
+      - `created_at`, `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS
+    - Add policies for authenticated users to manage their own programs
+*/
+
+CREATE TABLE IF NOT EXISTS training_programs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  client_id text UNIQUE NOT NULL,
+  name text NOT NULL,
+  days jsonb NOT NULL DEFAULT '[]',
+  length_weeks integer NOT NULL DEFAULT 8 CHECK (length_weeks > 0),
+  deload_every integer NOT NULL DEFAULT 0 CHECK (deload_every >= 0),
+  weekly_load_increase numeric NOT NULL DEFAULT 2.5
+    CHECK (weekly_load_increase >= 0),
+  volume_increase_every integer NOT NULL DEFAULT 0
+    CHECK (volume_increase_every >= 0),
+  is_active boolean NOT NULL DEFAULT false,
+  current_week integer NOT NULL DEFAULT 1,
+  current_day integer NOT NULL DEFAULT 1,
+  started_at timestamptz,
+  completed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- One program in progress per user
+CREATE UNIQUE INDEX IF NOT EXISTS training_programs_active_idx
+  ON training_programs (user_id)
+  WHERE is_active;
+
+-- Enable Row Level Security
+ALTER TABLE training_programs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own training programs"
+  ON training_programs
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own training programs"
+  ON training_programs
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own training programs"
+  ON training_programs
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own training programs"
+  ON training_programs
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
@@ -0,0 +1,150 @@
+/*
+  # Add a training schedule
+
+  Onboarding asks which days the user trains, but nothing was saved or
+  scheduled against it. Training days now plan sessions on the calendar,
+  sessions can be moved to another date, and streaks follow the plan.
+
+  1. Changes
+    - `onboarding_data.training_days` (text[]): weekdays the user trains
+      on, e.g. `monday`
+
+  2. New Tables
+    - `schedule_moves`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `client_id` (text, unique)
+      - `from_date` (date): the planned date the session was moved off
+      - `to_date` (date): where it is now
+      - `created_at` (timestamp)
+
+  3. Functions
+    - `is_planned_training_day(p_user_id, p_day)` applies the training days
+      and moves, like isPlannedDate on the client
+    - `recompute_streaks(p_user_id, p_timezone)` now keeps a streak going
+      across rest days as long as no planned session in between was
+      skipped; users without training days keep the old rule
+
+  4. Security
+    - Enable RLS on `schedule_moves`
+    - Add policies for authenticated users to manage their own moves
+*/
+
+ALTER TABLE onboarding_data
+  ADD COLUMN IF NOT EXISTS training_days text[] NOT NULL DEFAULT '{}';
+
+CREATE TABLE IF NOT EXISTS schedule_moves (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  client_id text UNIQUE NOT NULL,
+  from_date date NOT NULL,
+  to_date date NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS schedule_moves_user_idx
+  ON schedule_moves (user_id, to_date);
+
+-- Enable Row Level Security
+ALTER TABLE schedule_moves ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own schedule moves"
+  ON schedule_moves
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own schedule moves"
+  ON schedule_moves
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own schedule moves"
+  ON schedule_moves
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own schedule moves"
+  ON schedule_moves
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION is_planned_training_day(p_user_id uuid, p_day date)
+RETURNS boolean AS $$
+  SELECT CASE
+    WHEN EXISTS (
+      SELECT 1 FROM schedule_moves
+      WHERE user_id = p_user_id AND to_date = p_day
+    ) THEN true
+    WHEN EXISTS (
+      SELECT 1 FROM schedule_moves
+      WHERE user_id = p_user_id AND from_date = p_day
+    ) THEN false
+    ELSE COALESCE((
+      SELECT trim(to_char(p_day, 'day')) = ANY(training_days)
+      FROM onboarding_data
+      WHERE user_id = p_user_id
+      ORDER BY created_at DESC
+      LIMIT 1
+    ), false)
+  END;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION recompute_streaks(
+  p_user_id uuid,
+  p_timezone text DEFAULT 'UTC'
+)
+RETURNS void AS $$
+DECLARE
+  workout_day date;
+  previous_day date;
+  streak integer := 0;
+  longest integer := 0;
+  has_schedule boolean;
+BEGIN
+  SELECT COALESCE(array_length(training_days, 1), 0) > 0
+  INTO has_schedule
+  FROM onboarding_data
+  WHERE user_id = p_user_id
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  FOR workout_day IN
+    SELECT DISTINCT (date AT TIME ZONE p_timezone)::date AS day
+    FROM workouts
+    WHERE user_id = p_user_id
+    ORDER BY day
+  LOOP
+    IF previous_day IS NULL THEN
+      streak := 1;
+    ELSIF COALESCE(has_schedule, false) THEN
+      IF EXISTS (
+        SELECT 1
+        FROM generate_series(previous_day + 1, workout_day - 1, interval '1 day') AS gap(day)
+        WHERE is_planned_training_day(p_user_id, gap.day::date)
+      ) THEN
+        streak := 1;
+      ELSE
+        streak := streak + 1;
+      END IF;
+    ELSIF workout_day - previous_day > 2 THEN
+      streak := 1;
+    ELSIF workout_day - previous_day = 1 THEN
+      streak := streak + 1;
+    END IF;
+
+    longest := GREATEST(longest, streak);
+    previous_day := workout_day;
+  END LOOP;
+
+  UPDATE profiles
+  SET
+    current_streak = streak,
+    longest_streak = longest,
+    last_workout_date = previous_day
+  WHERE id = p_user_id;
+END;
+$$ LANGUAGE plpgsql;
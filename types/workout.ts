@@ -23,17 +23,67 @@ export interface Exercise {
   videoUrl?: string; // Optional video demonstration URL
   sets?: number; // Number of sets for this exercise
   reps?: number; // Number of reps per set
-  weight?: number; // Weight in pounds
+  weight?: number; // Weight in kg; converted to the user's unit for display
+  restTime?: number; // Seconds of rest between sets; the user's default when missing
+  restAfterExercise?: number; // Seconds of rest before the next exercise
+  groupId?: string; // Exercises sharing a group id are performed set-by-set as a superset/circuit
+  trackingMode?: TrackingMode; // How sets are logged; inferred from category and name when missing
 }
 
+// An exercise as planned in the custom workout builder or a saved template
+export interface CustomExercise {
+  id: string;
+  exercise: Exercise;
+  sets: number;
+  reps: number;
+  weight: number; // kg
+  restTime: number; // seconds between sets
+  restAfterExercise: number; // seconds before the next exercise
+  groupId?: string; // exercises sharing a groupId alternate as a superset
+}
+
+export type TrackingMode =
+  | 'reps'
+  | 'time'
+  | 'distance'
+  | 'time_distance'
+  | 'weight_distance';
+
+export type ExerciseGroupType = 'superset' | 'triset' | 'circuit';
+
+export type SetType = 'warmup' | 'working' | 'drop' | 'failure' | 'amrap';
+
 export interface WorkoutSet {
   id: string;
   exerciseId: string;
-  weight?: number;
+  weight?: number; // kg
   reps?: number;
-  duration?: number; // for time-based exercises
+  duration?: number; // in seconds, for time-based exercises
+  distance?: number; // in meters, for distance-based exercises
+  rpe?: number; // rate of perceived exertion, 6-10 (RIR entries are stored as 10 - RIR)
+  setType?: SetType; // defaults to 'working' when missing
+  note?: string; // e.g. "left shoulder twinged"
   completed: boolean;
-  restTime?: number;
+  restTime?: number; // seconds rested between the previous set and this one
+  // Timestamps in ms, for sets logged live during a workout
+  startedAt?: number;
+  finishedAt?: number;
+  restStartedAt?: number; // the rest timer that ran before this set
+  restEndedAt?: number;
+}
+
+// What SetTracker hands back when a set is completed
+export type LoggedSetInput = Omit<
+  WorkoutSet,
+  'id' | 'exerciseId' | 'completed'
+>;
+
+// A day of a training program, by position, so finishing the workout can
+// move the program on
+export interface ProgramDayRef {
+  programId: string; // the program's client_id
+  week: number;
+  day: number;
 }
 
 export interface ActiveWorkout {
@@ -43,8 +93,13 @@ export interface ActiveWorkout {
   sets: WorkoutSet[];
   currentExerciseIndex: number;
   currentSetIndex: number;
+  skippedExerciseIds?: string[]; // treated as done; kept in the record only if sets were logged
+  exerciseNotes?: Record<string, string>; // by exercise id, e.g. "seat at notch 4"
+  programDay?: ProgramDayRef; // the program day this workout trains, if any
   isResting: boolean;
   restTimeRemaining: number;
+  restStartedAt?: number; // ms timestamps of the latest rest timer
+  restEndedAt?: number; // missing while it's still running
   fatigueCalculator?: any; // FatigueCalculator instance
 }
 
@@ -53,9 +108,11 @@ export interface CompletedWorkout {
   date: Date;
   duration: number; // in minutes
   exercises: Exercise[];
+  sets: WorkoutSet[]; // every logged set, in the order it was performed
   totalSets: number;
   xpGained: number;
   notes?: string;
+  exerciseNotes?: Record<string, string>; // by exercise id
 }
 
 export interface WorkoutPreferences {